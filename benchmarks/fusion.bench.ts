@@ -0,0 +1,63 @@
+/**
+ * Compares fused map/filter chains with the same chain written as nested generators.
+ * Run with `npm run bench`; pass an element count to change the input size, e.g. `npm run bench -- 100000`.
+ */
+import { LazyIterable } from '../src/index';
+
+const size = Number(process.argv[2] ?? 1_000_000);
+const runs = 7;
+
+function* map<T, U>(source: Iterable<T>, mapper: (item: T, index: number) => U): IterableIterator<U> {
+    let index = 0;
+    for (const x of source) {
+        yield mapper(x, index++);
+    }
+}
+
+function* filter<T>(source: Iterable<T>, predicate: (item: T, index: number) => boolean): IterableIterator<T> {
+    let index = 0;
+    for (const x of source) {
+        if (predicate(x, index++)) {
+            yield x;
+        }
+    }
+}
+
+function* generate(length: number): IterableIterator<number> {
+    for (let i = 0; i < length; i++) {
+        yield i;
+    }
+}
+
+const array = Array.from(generate(size));
+const triple = (x: number) => x * 3;
+const isEven = (x: number) => x % 2 === 0;
+const increment = (x: number) => x + 1;
+const notFive = (x: number) => x % 5 !== 0;
+
+const cases: [string, () => number][] = [
+    ['nested generators', () => LazyIterable.from(filter(map(filter(map(generate(size), triple), isEven), increment), notFive)).count()],
+    ['fused, generator source', () => LazyIterable.from(generate(size)).map(triple).filter(isEven).map(increment).filter(notFive).count()],
+    ['fused, array source', () => LazyIterable.from(array).map(triple).filter(isEven).map(increment).filter(notFive).count()],
+    ['fused, range source', () => LazyIterable.fromLength(size).map(triple).filter(isEven).map(increment).filter(notFive).count()],
+];
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[sorted.length >> 1];
+}
+
+let expected: number | undefined;
+for (const [name, run] of cases) {
+    const times: number[] = [];
+    for (let i = 0; i < runs; i++) {
+        const start = performance.now();
+        const result = run();
+        times.push(performance.now() - start);
+        if (expected !== undefined && result !== expected) {
+            throw new Error(`${name} produced ${result} elements, expected ${expected}.`);
+        }
+        expected = result;
+    }
+    console.log(`${name.padEnd(24)} ${median(times).toFixed(1).padStart(8)} ms (median of ${runs}, ${size} elements)`);
+}
@@ -0,0 +1,350 @@
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+
+/**
+ * A function which orders two values, returning a negative number, zero or a positive number.
+ */
+export type Comparator<T> = (left: T, right: T) => number;
+
+/**
+ * Options for range queries over sorted collections.
+ */
+export interface RangeOptions {
+    /**
+     * Whether the bounds are included in the range. A tuple sets the lower and upper bound separately. Defaults to true.
+     */
+    inclusive?: boolean | [lower: boolean, upper: boolean];
+    /**
+     * When true, the range is yielded from the upper bound down to the lower bound.
+     */
+    reverse?: boolean;
+}
+
+export interface AvlNode<K, V> {
+    key: K;
+    value: V;
+    left: AvlNode<K, V> | undefined;
+    right: AvlNode<K, V> | undefined;
+    height: number;
+}
+
+interface Bound<K> {
+    key: K;
+    inclusive: boolean;
+}
+
+/**
+ * Orders values with the `<` and `>` operators, suitable for numbers, strings, bigints and dates.
+ */
+export function naturalComparator<T>(left: T, right: T): number {
+    return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * A self-balancing binary search tree keyed by a user-supplied comparator.
+ * Backs SortedSet and SortedMap; not part of the public surface.
+ */
+export class AvlTree<K, V> {
+    private root: AvlNode<K, V> | undefined;
+    private count = 0;
+    private version = 0;
+
+    public constructor(private readonly comparator: Comparator<K>) {
+        if (typeof comparator !== 'function') {
+            throw RefinedSetsError.invalidArgument('Expected comparator to be a function.');
+        }
+    }
+
+    public get size(): number {
+        return this.count;
+    }
+
+    /**
+     * Inserts a key, or replaces the value of an existing equal key.
+     *
+     * @returns True if a new node was added; false if an existing node was updated.
+     */
+    public set(key: K, value: V): boolean {
+        if (this.compare(key, key) !== 0) {
+            throw RefinedSetsError.invalidArgument(`Inconsistent comparator: comparing ${String(key)} with itself did not return 0.`);
+        }
+        const before = this.count;
+        this.root = this.insert(this.root, key, value);
+        if (this.count > before) {
+            this.version++;
+            return true;
+        }
+        return false;
+    }
+
+    public delete(key: K): boolean {
+        const before = this.count;
+        this.root = this.remove(this.root, key);
+        if (this.count < before) {
+            this.version++;
+            return true;
+        }
+        return false;
+    }
+
+    public clear(): void {
+        this.root = undefined;
+        this.count = 0;
+        this.version++;
+    }
+
+    public find(key: K): AvlNode<K, V> | undefined {
+        let node = this.root;
+        while (node) {
+            const c = this.compare(key, node.key);
+            if (c === 0) {
+                return node;
+            }
+            node = c < 0 ? node.left : node.right;
+        }
+        return undefined;
+    }
+
+    public min(): AvlNode<K, V> | undefined {
+        let node = this.root;
+        while (node?.left) {
+            node = node.left;
+        }
+        return node;
+    }
+
+    public max(): AvlNode<K, V> | undefined {
+        let node = this.root;
+        while (node?.right) {
+            node = node.right;
+        }
+        return node;
+    }
+
+    /**
+     * Finds the greatest node below `key` (or equal to it, when inclusive).
+     */
+    public floor(key: K, inclusive: boolean): AvlNode<K, V> | undefined {
+        let node = this.root;
+        let best: AvlNode<K, V> | undefined;
+        while (node) {
+            const c = this.compare(node.key, key);
+            if (c < 0 || (inclusive && c === 0)) {
+                best = node;
+                node = node.right;
+            } else {
+                node = node.left;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Finds the least node above `key` (or equal to it, when inclusive).
+     */
+    public ceiling(key: K, inclusive: boolean): AvlNode<K, V> | undefined {
+        let node = this.root;
+        let best: AvlNode<K, V> | undefined;
+        while (node) {
+            const c = this.compare(node.key, key);
+            if (c > 0 || (inclusive && c === 0)) {
+                best = node;
+                node = node.left;
+            } else {
+                node = node.right;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Creates an iterable over the nodes between optional bounds.
+     * Each iteration walks the tree afresh, and throws if the tree is modified while it is in progress.
+     */
+    public range(lower: Bound<K> | undefined, upper: Bound<K> | undefined, reverse: boolean): Iterable<AvlNode<K, V>> {
+        if (lower && upper && this.compare(lower.key, upper.key) > 0) {
+            throw RefinedSetsError.invalidArgument('Expected the lower bound of a range to be less than or equal to the upper bound.');
+        }
+        return {
+            [Symbol.iterator]: () => (reverse ? this.descend(lower, upper) : this.ascend(lower, upper)),
+        };
+    }
+
+    /**
+     * Resolves RangeOptions into a pair of bounds.
+     */
+    public static bounds<K>(lower: K, upper: K, options?: RangeOptions): [Bound<K>, Bound<K>] {
+        const inclusive = options?.inclusive ?? true;
+        const [lowerInclusive, upperInclusive] = Array.isArray(inclusive) ? inclusive : [inclusive, inclusive];
+        return [
+            { key: lower, inclusive: lowerInclusive },
+            { key: upper, inclusive: upperInclusive },
+        ];
+    }
+
+    private *ascend(lower: Bound<K> | undefined, upper: Bound<K> | undefined): IterableIterator<AvlNode<K, V>> {
+        const version = this.version;
+        const stack: AvlNode<K, V>[] = [];
+        let node = this.root;
+        while (node) {
+            if (!lower || this.isAbove(node.key, lower)) {
+                stack.push(node);
+                node = node.left;
+            } else {
+                node = node.right;
+            }
+        }
+        while (stack.length > 0) {
+            const next = stack.pop()!;
+            if (upper && !this.isBelow(next.key, upper)) {
+                return;
+            }
+            yield next;
+            this.assertUnmodified(version);
+            for (node = next.right; node; node = node.left) {
+                stack.push(node);
+            }
+        }
+    }
+
+    private *descend(lower: Bound<K> | undefined, upper: Bound<K> | undefined): IterableIterator<AvlNode<K, V>> {
+        const version = this.version;
+        const stack: AvlNode<K, V>[] = [];
+        let node = this.root;
+        while (node) {
+            if (!upper || this.isBelow(node.key, upper)) {
+                stack.push(node);
+                node = node.right;
+            } else {
+                node = node.left;
+            }
+        }
+        while (stack.length > 0) {
+            const next = stack.pop()!;
+            if (lower && !this.isAbove(next.key, lower)) {
+                return;
+            }
+            yield next;
+            this.assertUnmodified(version);
+            for (node = next.left; node; node = node.right) {
+                stack.push(node);
+            }
+        }
+    }
+
+    private assertUnmodified(version: number): void {
+        if (this.version !== version) {
+            throw RefinedSetsError.notSupported('The collection was modified during iteration.');
+        }
+    }
+
+    private isAbove(key: K, bound: Bound<K>): boolean {
+        const c = this.compare(key, bound.key);
+        return c > 0 || (c === 0 && bound.inclusive);
+    }
+
+    private isBelow(key: K, bound: Bound<K>): boolean {
+        const c = this.compare(key, bound.key);
+        return c < 0 || (c === 0 && bound.inclusive);
+    }
+
+    private compare(left: K, right: K): number {
+        const result = this.comparator(left, right);
+        if (typeof result !== 'number' || Number.isNaN(result)) {
+            throw RefinedSetsError.invalidArgument(`Inconsistent comparator: expected a number when comparing ${String(left)} and ${String(right)}.`);
+        }
+        return result;
+    }
+
+    private insert(node: AvlNode<K, V> | undefined, key: K, value: V): AvlNode<K, V> {
+        if (!node) {
+            this.count++;
+            return { key, value, left: undefined, right: undefined, height: 1 };
+        }
+        const c = this.compare(key, node.key);
+        if (c === 0) {
+            node.value = value;
+            return node;
+        }
+        if (c < 0) {
+            node.left = this.insert(node.left, key, value);
+        } else {
+            node.right = this.insert(node.right, key, value);
+        }
+        return AvlTree.rebalance(node);
+    }
+
+    private remove(node: AvlNode<K, V> | undefined, key: K): AvlNode<K, V> | undefined {
+        if (!node) {
+            return undefined;
+        }
+        const c = this.compare(key, node.key);
+        if (c < 0) {
+            node.left = this.remove(node.left, key);
+        } else if (c > 0) {
+            node.right = this.remove(node.right, key);
+        } else {
+            this.count--;
+            if (!node.left || !node.right) {
+                return node.left ?? node.right;
+            }
+            let successor = node.right;
+            while (successor.left) {
+                successor = successor.left;
+            }
+            node.right = AvlTree.removeMin(node.right);
+            successor.left = node.left;
+            successor.right = node.right;
+            node = successor;
+        }
+        return AvlTree.rebalance(node);
+    }
+
+    private static removeMin<K, V>(node: AvlNode<K, V>): AvlNode<K, V> | undefined {
+        if (!node.left) {
+            return node.right;
+        }
+        node.left = AvlTree.removeMin(node.left);
+        return AvlTree.rebalance(node);
+    }
+
+    private static height<K, V>(node: AvlNode<K, V> | undefined): number {
+        return node ? node.height : 0;
+    }
+
+    private static update<K, V>(node: AvlNode<K, V>): AvlNode<K, V> {
+        node.height = Math.max(AvlTree.height(node.left), AvlTree.height(node.right)) + 1;
+        return node;
+    }
+
+    private static rotateLeft<K, V>(node: AvlNode<K, V>): AvlNode<K, V> {
+        const pivot = node.right!;
+        node.right = pivot.left;
+        pivot.left = AvlTree.update(node);
+        return AvlTree.update(pivot);
+    }
+
+    private static rotateRight<K, V>(node: AvlNode<K, V>): AvlNode<K, V> {
+        const pivot = node.left!;
+        node.left = pivot.right;
+        pivot.right = AvlTree.update(node);
+        return AvlTree.update(pivot);
+    }
+
+    private static rebalance<K, V>(node: AvlNode<K, V>): AvlNode<K, V> {
+        AvlTree.update(node);
+        const balance = AvlTree.height(node.left) - AvlTree.height(node.right);
+        if (balance > 1) {
+            if (AvlTree.height(node.left!.left) < AvlTree.height(node.left!.right)) {
+                node.left = AvlTree.rotateLeft(node.left!);
+            }
+            return AvlTree.rotateRight(node);
+        }
+        if (balance < -1) {
+            if (AvlTree.height(node.right!.right) < AvlTree.height(node.right!.left)) {
+                node.right = AvlTree.rotateRight(node.right!);
+            }
+            return AvlTree.rotateLeft(node);
+        }
+        return node;
+    }
+}
@@ -0,0 +1,290 @@
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+import { LazyIterable } from '../iterable/LazyIterable';
+import { lowestBit, popcount } from './Bits';
+
+const WORD_BITS = 32;
+
+/**
+ * A set of non-negative integers stored as a bit array, one bit per possible element.
+ * Membership tests and updates are O(1), and set algebra works a word (32 elements) at a time.
+ * Elements are iterated in ascending order.
+ *
+ * Memory is dense: a set takes one bit for every integer up to its largest element, whatever its size, so a set holding only
+ * `n` uses about n / 8 bytes. Use a Set or RefinedSet for a few integers spread over a wide range.
+ */
+export class BitSet implements Iterable<number> {
+    /**
+     * The largest value a BitSet can hold. A set holding it takes 32 MiB.
+     */
+    public static readonly MAX_VALUE = 2 ** 28 - 1;
+
+    private words: Uint32Array;
+    private cachedSize: number | undefined = 0;
+
+    /**
+     * @param values (optional) Initial elements of the set.
+     */
+    public constructor(values?: Iterable<number> | null) {
+        this.words = new Uint32Array(0);
+        if (values) {
+            for (const value of values) {
+                this.add(value);
+            }
+        }
+    }
+
+    /**
+     * The number of elements in the set.
+     */
+    public get size(): number {
+        if (this.cachedSize === undefined) {
+            let size = 0;
+            for (let i = 0; i < this.words.length; i++) {
+                size += popcount(this.words[i]);
+            }
+            this.cachedSize = size;
+        }
+        return this.cachedSize;
+    }
+
+    /**
+     * Adds an integer to the set, growing the set to one bit per integer up to `value` if it is the new largest element.
+     *
+     * @param value The integer to add, from 0 to BitSet.MAX_VALUE.
+     * @returns This set.
+     */
+    public add(value: number): this {
+        BitSet.assertValue(value);
+        const index = Math.floor(value / WORD_BITS);
+        this.ensureWords(index + 1);
+        const mask = 1 << value % WORD_BITS;
+        if ((this.words[index] & mask) === 0) {
+            this.words[index] |= mask;
+            if (this.cachedSize !== undefined) {
+                this.cachedSize++;
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Determines whether an integer is in the set.
+     *
+     * @param value The integer to look for, from 0 to BitSet.MAX_VALUE.
+     * @returns True if the integer is present; otherwise, false.
+     */
+    public has(value: number): boolean {
+        BitSet.assertValue(value);
+        const index = Math.floor(value / WORD_BITS);
+        return index < this.words.length && (this.words[index] & (1 << value % WORD_BITS)) !== 0;
+    }
+
+    /**
+     * Removes an integer from the set.
+     *
+     * @param value The integer to remove, from 0 to BitSet.MAX_VALUE.
+     * @returns True if the integer was removed; otherwise, false.
+     */
+    public delete(value: number): boolean {
+        BitSet.assertValue(value);
+        const index = Math.floor(value / WORD_BITS);
+        const mask = 1 << value % WORD_BITS;
+        if (index >= this.words.length || (this.words[index] & mask) === 0) {
+            return false;
+        }
+        this.words[index] &= ~mask;
+        if (this.cachedSize !== undefined) {
+            this.cachedSize--;
+        }
+        return true;
+    }
+
+    /**
+     * Removes every element from the set.
+     */
+    public clear(): void {
+        this.words = new Uint32Array(0);
+        this.cachedSize = 0;
+    }
+
+    /**
+     * Finds the smallest element which is greater than or equal to `from`.
+     *
+     * @param from (optional) The integer to start searching from, defaults to 0.
+     * @returns The next element, or undefined if there is none.
+     */
+    public nextSetBit(from = 0): number | undefined {
+        BitSet.assertValue(from);
+        let index = Math.floor(from / WORD_BITS);
+        if (index >= this.words.length) {
+            return undefined;
+        }
+        // Clear the bits below `from` in its own word, then scan whole words.
+        let word = this.words[index] & (~0 << from % WORD_BITS);
+        while (word === 0) {
+            if (++index >= this.words.length) {
+                return undefined;
+            }
+            word = this.words[index];
+        }
+        return index * WORD_BITS + lowestBit(word);
+    }
+
+    /**
+     * Adds every element of `other` to this set.
+     *
+     * @param other A BitSet or iterable of integers.
+     * @returns This set.
+     */
+    public unionWith(other: BitSet | Iterable<number>): this {
+        const words = BitSet.wordsOf(other);
+        this.ensureWords(words.length);
+        for (let i = 0; i < words.length; i++) {
+            this.words[i] |= words[i];
+        }
+        this.cachedSize = undefined;
+        return this;
+    }
+
+    /**
+     * Removes every element of this set which is not in `other`.
+     *
+     * @param other A BitSet or iterable of integers.
+     * @returns This set.
+     */
+    public intersectWith(other: BitSet | Iterable<number>): this {
+        const words = BitSet.wordsOf(other);
+        for (let i = 0; i < this.words.length; i++) {
+            this.words[i] &= i < words.length ? words[i] : 0;
+        }
+        this.cachedSize = undefined;
+        return this;
+    }
+
+    /**
+     * Removes every element of `other` from this set.
+     *
+     * @param other A BitSet or iterable of integers.
+     * @returns This set.
+     */
+    public differenceWith(other: BitSet | Iterable<number>): this {
+        const words = BitSet.wordsOf(other);
+        for (let i = 0; i < Math.min(this.words.length, words.length); i++) {
+            this.words[i] &= ~words[i];
+        }
+        this.cachedSize = undefined;
+        return this;
+    }
+
+    /**
+     * Keeps the elements which are in exactly one of this set and `other`.
+     *
+     * @param other A BitSet or iterable of integers.
+     * @returns This set.
+     */
+    public xorWith(other: BitSet | Iterable<number>): this {
+        const words = BitSet.wordsOf(other);
+        this.ensureWords(words.length);
+        for (let i = 0; i < words.length; i++) {
+            this.words[i] ^= words[i];
+        }
+        this.cachedSize = undefined;
+        return this;
+    }
+
+    /**
+     * Creates a new set with the elements of both this set and `other`.
+     *
+     * @param other A BitSet or iterable of integers.
+     * @returns A new BitSet; this set is not modified.
+     */
+    public union(other: BitSet | Iterable<number>): BitSet {
+        return this.clone().unionWith(other);
+    }
+
+    /**
+     * Creates a new set with the elements which are in both this set and `other`.
+     *
+     * @param other A BitSet or iterable of integers.
+     * @returns A new BitSet; this set is not modified.
+     */
+    public intersection(other: BitSet | Iterable<number>): BitSet {
+        return this.clone().intersectWith(other);
+    }
+
+    /**
+     * Creates a new set with the elements of this set which are not in `other`.
+     *
+     * @param other A BitSet or iterable of integers.
+     * @returns A new BitSet; this set is not modified.
+     */
+    public difference(other: BitSet | Iterable<number>): BitSet {
+        return this.clone().differenceWith(other);
+    }
+
+    /**
+     * Creates a new set with the elements which are in exactly one of this set and `other`.
+     *
+     * @param other A BitSet or iterable of integers.
+     * @returns A new BitSet; this set is not modified.
+     */
+    public xor(other: BitSet | Iterable<number>): BitSet {
+        return this.clone().xorWith(other);
+    }
+
+    /**
+     * Creates a copy of this set.
+     */
+    public clone(): BitSet {
+        const result = new BitSet();
+        result.words = this.words.slice();
+        result.cachedSize = this.cachedSize;
+        return result;
+    }
+
+    /**
+     * Returns an iterator over the elements in ascending order.
+     */
+    public *values(): IterableIterator<number> {
+        for (let index = 0; index < this.words.length; index++) {
+            let word = this.words[index];
+            while (word !== 0) {
+                yield index * WORD_BITS + lowestBit(word);
+                word &= word - 1;
+            }
+        }
+    }
+
+    public [Symbol.iterator](): Iterator<number> {
+        return this.values();
+    }
+
+    /**
+     * Creates a LazyIterable over the elements of this set.
+     * The sequence is live: each iteration reflects the set's contents at the time it starts.
+     *
+     * @returns A LazyIterable which yields the elements in ascending order.
+     */
+    public lazy(): LazyIterable<number> {
+        return LazyIterable.from(this);
+    }
+
+    private ensureWords(length: number): void {
+        if (length > this.words.length) {
+            // Grow geometrically so that adding ascending values is amortised O(1).
+            const words = new Uint32Array(Math.max(length, Math.min(this.words.length * 2, BitSet.MAX_VALUE / WORD_BITS + 1)));
+            words.set(this.words);
+            this.words = words;
+        }
+    }
+
+    private static wordsOf(other: BitSet | Iterable<number>): Uint32Array {
+        return (other instanceof BitSet ? other : new BitSet(other)).words;
+    }
+
+    private static assertValue(value: number): void {
+        if (!Number.isInteger(value) || value < 0 || value > BitSet.MAX_VALUE) {
+            throw RefinedSetsError.invalidArgument(`Expected an integer from 0 to ${BitSet.MAX_VALUE}. Received: ${value}.`);
+        }
+    }
+}
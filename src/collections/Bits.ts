@@ -0,0 +1,16 @@
+/**
+ * The number of set bits in a 32-bit word.
+ */
+export function popcount(word: number): number {
+    word -= (word >>> 1) & 0x55555555;
+    word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+    word = (word + (word >>> 4)) & 0x0f0f0f0f;
+    return Math.imul(word, 0x01010101) >>> 24;
+}
+
+/**
+ * The position of the lowest set bit in a non-zero 32-bit word.
+ */
+export function lowestBit(word: number): number {
+    return 31 - Math.clz32(word & -word);
+}
@@ -0,0 +1,356 @@
+import { Comparator, naturalComparator } from './AvlTree';
+import { toCompositeKey } from './CompositeKey';
+
+/**
+ * Orders values of type T. Sorted collections and ordering operators accept either a Comparer or a plain Comparator function.
+ *
+ * @template T Type of values being ordered.
+ */
+export interface Comparer<T> {
+    /**
+     * Returns a negative number if `left` orders before `right`, a positive number if after, and zero if they are equivalent.
+     */
+    compare(left: T, right: T): number;
+}
+
+/**
+ * Decides when two values of type T are the same. Values whose hashes differ are never compared, so `equals(a, b)` must imply
+ * that `hash(a)` and `hash(b)` are the same. Hashes are compared with SameValueZero, except array hashes which are compared element-wise.
+ *
+ * @template T Type of values being compared.
+ */
+export interface EqualityComparer<T> {
+    equals(left: T, right: T): boolean;
+    hash(item: T): unknown;
+}
+
+type ComparerLike<T> = Comparator<T> | Comparer<T>;
+
+/**
+ * Resolves a Comparer or Comparator into a Comparator function, defaulting to `naturalComparator`.
+ */
+export function toComparator<T>(comparer: ComparerLike<T> | undefined): Comparator<T> {
+    if (comparer === undefined) {
+        return naturalComparator;
+    }
+    return typeof comparer === 'function' ? comparer : (left, right) => comparer.compare(left, right);
+}
+
+function sameValueZero(left: unknown, right: unknown): boolean {
+    return left === right || (left !== left && right !== right);
+}
+
+const defaultEquality: EqualityComparer<unknown> = { equals: sameValueZero, hash: (item) => item };
+
+function compareLowerCase(left: string, right: string): number {
+    return naturalComparator(left.toLowerCase(), right.toLowerCase());
+}
+
+/**
+ * Built-in comparers and combinators for building them.
+ */
+export const Comparer = {
+    /**
+     * Orders values with the `<` and `>` operators, suitable for numbers, strings, bigints and dates.
+     */
+    natural: { compare: naturalComparator } as Comparer<unknown>,
+
+    /**
+     * Orders strings by code unit after converting them to lower case.
+     */
+    caseInsensitive: { compare: compareLowerCase } as Comparer<string>,
+
+    /**
+     * Creates a comparer which orders strings with `Intl.Collator`.
+     *
+     * @param locales (optional) The locale or locales to collate for, defaults to the runtime's locale.
+     * @param options (optional) Collator options such as `sensitivity` or `numeric`.
+     * @returns A Comparer of strings.
+     */
+    locale(locales?: string | string[], options?: Intl.CollatorOptions): Comparer<string> {
+        const collator = new Intl.Collator(locales, options);
+        return { compare: (left, right) => collator.compare(left, right) };
+    },
+
+    /**
+     * Creates a comparer which orders values by a key.
+     *
+     * @param keySelector Function returning the key to order by.
+     * @param comparer (optional) Comparer for the keys, defaults to ordering with `<` and `>`.
+     * @returns A Comparer of values.
+     */
+    by<T, K>(keySelector: (item: T) => K, comparer?: ComparerLike<K>): Comparer<T> {
+        const compare = toComparator(comparer);
+        return { compare: (left, right) => compare(keySelector(left), keySelector(right)) };
+    },
+
+    /**
+     * Creates a comparer which orders tuples element by element, then by length.
+     *
+     * @param comparers A comparer for each position of the tuple.
+     * @returns A Comparer of tuples.
+     */
+    tuple<T extends readonly unknown[]>(...comparers: { [I in keyof T]: ComparerLike<T[I]> }): Comparer<T> {
+        const compares = comparers.map((comparer) => toComparator(comparer as ComparerLike<unknown>));
+        return {
+            compare(left, right) {
+                for (let i = 0; i < compares.length && i < left.length && i < right.length; i++) {
+                    const result = compares[i](left[i], right[i]);
+                    if (result !== 0) {
+                        return result;
+                    }
+                }
+                return Math.min(left.length, compares.length) - Math.min(right.length, compares.length);
+            },
+        };
+    },
+
+    /**
+     * Creates a comparer which orders values by several keys in turn, each ordered with `<` and `>`.
+     *
+     * @param keySelectors Functions returning each key, most significant first.
+     * @returns A Comparer of values.
+     */
+    composite<T>(...keySelectors: ((item: T) => unknown)[]): Comparer<T> {
+        return Comparer.thenBy(...keySelectors.map((keySelector) => Comparer.by(keySelector)));
+    },
+
+    /**
+     * Creates a comparer which orders values in the opposite direction.
+     *
+     * @param comparer The comparer to reverse.
+     * @returns A Comparer of values.
+     */
+    reverse<T>(comparer: ComparerLike<T>): Comparer<T> {
+        const compare = toComparator(comparer);
+        return { compare: (left, right) => compare(right, left) };
+    },
+
+    /**
+     * Creates a comparer which orders values by the first comparer, then breaks ties with each of the following comparers in turn.
+     *
+     * @param comparers The comparers, most significant first.
+     * @returns A Comparer of values.
+     */
+    thenBy<T>(...comparers: ComparerLike<T>[]): Comparer<T> {
+        const compares = comparers.map((comparer) => toComparator(comparer));
+        return {
+            compare(left, right) {
+                for (const compare of compares) {
+                    const result = compare(left, right);
+                    if (result !== 0) {
+                        return result;
+                    }
+                }
+                return 0;
+            },
+        };
+    },
+};
+
+/**
+ * Built-in equality comparers and factories for building them.
+ */
+export const EqualityComparer = {
+    /**
+     * Compares values with SameValueZero, as a native Set does.
+     */
+    default: defaultEquality,
+
+    /**
+     * Compares strings after converting them to lower case.
+     */
+    caseInsensitive: { equals: (left, right) => left.toLowerCase() === right.toLowerCase(), hash: (item) => item.toLowerCase() } as EqualityComparer<string>,
+
+    /**
+     * Compares values structurally. Arrays, typed arrays and plain objects are equal when their elements or own enumerable properties
+     * are, regardless of property order; Maps match keys with SameValueZero and compare their values structurally; Sets are equal when
+     * each element has a structurally equal counterpart. Dates and regular expressions compare by value, and objects must share a
+     * prototype. Other values are compared with SameValueZero.
+     */
+    deep: { equals: (left, right) => deepEquals(left, right, []), hash: (item) => deepHash(item, 0) } as EqualityComparer<unknown>,
+
+    /**
+     * Creates an equality comparer which compares values by a key.
+     *
+     * @param keySelector Function returning the key to compare by.
+     * @param equality (optional) Equality comparer for the keys, defaults to SameValueZero.
+     * @returns An EqualityComparer of values.
+     */
+    by<T, K>(keySelector: (item: T) => K, equality: EqualityComparer<K> = defaultEquality): EqualityComparer<T> {
+        return {
+            equals: (left, right) => equality.equals(keySelector(left), keySelector(right)),
+            hash: (item) => equality.hash(keySelector(item)),
+        };
+    },
+
+    /**
+     * Creates an equality comparer for tuples whose elements are each compared by the comparer for their position.
+     *
+     * @param equalities An equality comparer for each position of the tuple.
+     * @returns An EqualityComparer of tuples.
+     */
+    tuple<T extends readonly unknown[]>(...equalities: { [I in keyof T]: EqualityComparer<T[I]> }): EqualityComparer<T> {
+        const parts = equalities as readonly EqualityComparer<unknown>[];
+        return {
+            equals: (left, right) => left.length === right.length && parts.every((part, i) => i >= left.length || part.equals(left[i], right[i])),
+            hash: (item) => toCompositeKey(parts.map((part, i) => (i < item.length ? toCompositeKey(part.hash(item[i])) : undefined))),
+        };
+    },
+
+    /**
+     * Creates an equality comparer which compares values by several keys, each with SameValueZero.
+     *
+     * @param keySelectors Functions returning each key.
+     * @returns An EqualityComparer of values.
+     */
+    composite<T>(...keySelectors: ((item: T) => unknown)[]): EqualityComparer<T> {
+        return {
+            equals: (left, right) => keySelectors.every((keySelector) => sameValueZero(keySelector(left), keySelector(right))),
+            hash: (item) => toCompositeKey(keySelectors.map((keySelector) => keySelector(item))),
+        };
+    },
+};
+
+/**
+ * Hashing stops descending at this depth, which keeps hashing cheap and terminates on cyclic values.
+ */
+const MAX_HASH_DEPTH = 4;
+
+function deepEquals(left: unknown, right: unknown, visiting: [object, object][]): boolean {
+    if (sameValueZero(left, right)) {
+        return true;
+    }
+    if (typeof left !== 'object' || typeof right !== 'object' || left === null || right === null) {
+        return false;
+    }
+    if (Object.getPrototypeOf(left) !== Object.getPrototypeOf(right)) {
+        return false;
+    }
+    // A pair already being compared further up is assumed equal, so cyclic values compare as equal when their shapes match.
+    if (visiting.some(([a, b]) => a === left && b === right)) {
+        return true;
+    }
+    visiting.push([left, right]);
+    try {
+        return deepEqualsObjects(left, right, visiting);
+    } finally {
+        visiting.pop();
+    }
+}
+
+function deepEqualsObjects(left: object, right: object, visiting: [object, object][]): boolean {
+    if (Array.isArray(left) || (ArrayBuffer.isView(left) && !(left instanceof DataView))) {
+        const a = left as ArrayLike<unknown>;
+        const b = right as ArrayLike<unknown>;
+        if (a.length !== b.length) {
+            return false;
+        }
+        for (let i = 0; i < a.length; i++) {
+            if (!deepEquals(a[i], b[i], visiting)) {
+                return false;
+            }
+        }
+        return true;
+    }
+    if (left instanceof Date) {
+        return sameValueZero(left.getTime(), (right as Date).getTime());
+    }
+    if (left instanceof RegExp) {
+        return String(left) === String(right);
+    }
+    if (left instanceof Map) {
+        const other = right as Map<unknown, unknown>;
+        if (left.size !== other.size) {
+            return false;
+        }
+        for (const [key, value] of left) {
+            if (!other.has(key) || !deepEquals(value, other.get(key), visiting)) {
+                return false;
+            }
+        }
+        return true;
+    }
+    if (left instanceof Set) {
+        const other = right as Set<unknown>;
+        if (left.size !== other.size) {
+            return false;
+        }
+        const contains = (set: Set<unknown>, value: unknown) => set.has(value) || Array.from(set).some((candidate) => deepEquals(value, candidate, visiting));
+        return Array.from(left).every((value) => contains(other, value)) && Array.from(other).every((value) => contains(left, value));
+    }
+    const keys = Object.keys(left);
+    if (keys.length !== Object.keys(right).length) {
+        return false;
+    }
+    return keys.every(
+        (key) =>
+            Object.prototype.hasOwnProperty.call(right, key) &&
+            deepEquals((left as Record<string, unknown>)[key], (right as Record<string, unknown>)[key], visiting),
+    );
+}
+
+/**
+ * Hashes a string into an unsigned 32-bit integer.
+ */
+export function hashString(text: string): number {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function combine(hash: number, value: number): number {
+    return (Math.imul(hash, 31) + value) >>> 0;
+}
+
+function deepHash(value: unknown, depth: number): number {
+    switch (typeof value) {
+        case 'string':
+            return hashString(`s${value}`);
+        case 'number':
+            return hashString(`n${value === 0 ? 0 : value}`);
+        case 'object':
+            break;
+        default:
+            // Symbols and functions are only equal to themselves, so hashing them by type alone is consistent.
+            return hashString(typeof value === 'symbol' || typeof value === 'function' ? typeof value : `${typeof value}${String(value)}`);
+    }
+    if (value === null) {
+        return hashString('null');
+    }
+    if (depth >= MAX_HASH_DEPTH) {
+        return hashString('object');
+    }
+    if (Array.isArray(value) || (ArrayBuffer.isView(value) && !(value instanceof DataView))) {
+        let hash = hashString('array');
+        for (const element of Array.from(value as ArrayLike<unknown>)) {
+            hash = combine(hash, deepHash(element, depth + 1));
+        }
+        return hash;
+    }
+    if (value instanceof Date) {
+        return hashString(`date${value.getTime()}`);
+    }
+    if (value instanceof RegExp) {
+        return hashString(`regexp${value}`);
+    }
+    // Maps, Sets and objects ignore the order of their entries, so their hashes must too.
+    let hash = 0;
+    if (value instanceof Map) {
+        for (const [key, entry] of value) {
+            hash = (hash + combine(deepHash(key, depth + 1), deepHash(entry, depth + 1))) >>> 0;
+        }
+        return combine(hashString('map'), hash);
+    }
+    if (value instanceof Set) {
+        // A Set's element may be matched by a structurally equal element which is not at the same depth, so only its size is hashed.
+        return combine(hashString('set'), value.size);
+    }
+    for (const key of Object.keys(value)) {
+        hash = (hash + combine(hashString(key), deepHash((value as Record<string, unknown>)[key], depth + 1))) >>> 0;
+    }
+    return combine(hashString('object'), hash);
+}
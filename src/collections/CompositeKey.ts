@@ -0,0 +1,84 @@
+interface IdTable<K> {
+    get(key: K): number | undefined;
+    set(key: K, id: number): unknown;
+}
+
+const objectIds = new WeakMap<object, number>();
+/**
+ * Registered symbols (`Symbol.for`) live as long as the realm and cannot be WeakMap keys, so their ids are held strongly.
+ */
+const registeredSymbolIds = new Map<symbol, number>();
+/**
+ * Other symbols are held weakly where the runtime accepts symbols as WeakMap keys. Older runtimes fall back to a Map, which
+ * keeps every symbol ever used in a composite key alive.
+ */
+const symbolIds: IdTable<symbol> = supportsSymbolWeakKeys() ? (new WeakMap<object, number>() as unknown as IdTable<symbol>) : new Map<symbol, number>();
+let nextId = 0;
+
+/**
+ * Normalizes a key so that it can be compared with SameValueZero semantics by a native Map or Set.
+ * Array keys (such as `[tenantId, userId]`) are compared element-wise and are encoded into a string starting with `[`; objects
+ * nested inside them are still compared by reference. So that no string key equals an encoded array, strings starting with `[`
+ * or `\` are escaped with a leading `\`. Other keys are returned unchanged.
+ *
+ * @param key The key to normalize.
+ * @returns A value suitable for use as a Map or Set key.
+ */
+export function toCompositeKey(key: unknown): unknown {
+    if (typeof key === 'string') {
+        return key.charAt(0) === '[' || key.charAt(0) === '\\' ? `\\${key}` : key;
+    }
+    return Array.isArray(key) ? encode(key) : key;
+}
+
+/**
+ * Returns a number which identifies an object or symbol for as long as it lives, assigned the first time it is asked for.
+ */
+export function referenceId(key: object | symbol): number {
+    if (typeof key === 'symbol') {
+        return identify(Symbol.keyFor(key) === undefined ? symbolIds : registeredSymbolIds, key);
+    }
+    return identify(objectIds, key);
+}
+
+function encode(key: unknown): string {
+    switch (typeof key) {
+        case 'string':
+            return JSON.stringify(key);
+        case 'number':
+            return key === 0 ? 'n0' : `n${key}`;
+        case 'bigint':
+            return `b${key}`;
+        case 'boolean':
+            return key ? 't' : 'f';
+        case 'undefined':
+            return 'u';
+        case 'symbol':
+            return `y${referenceId(key)}`;
+        default:
+            if (key === null) {
+                return 'l';
+            }
+            if (Array.isArray(key)) {
+                return `[${key.map(encode).join(',')}]`;
+            }
+            return `o${referenceId(key as object)}`;
+    }
+}
+
+function identify<K>(ids: IdTable<K>, key: K): number {
+    let id = ids.get(key);
+    if (id === undefined) {
+        ids.set(key, (id = nextId++));
+    }
+    return id;
+}
+
+function supportsSymbolWeakKeys(): boolean {
+    try {
+        new WeakMap<object, number>().set(Symbol() as unknown as object, 0);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,499 @@
+import { lowestBit, popcount } from './Bits';
+import { EqualityComparer, hashString } from './Comparers';
+import { referenceId, toCompositeKey } from './CompositeKey';
+
+const BITS = 5;
+
+/**
+ * Hashes and compares the keys of a trie. Tries built with the same Hasher have the same shape for the same keys,
+ * which is what lets set algebra and equality work a subtree at a time.
+ */
+export interface Hasher<K> {
+    hash(key: K): number;
+    equals(left: K, right: K): boolean;
+}
+
+/**
+ * Marks the nodes a transient may update in place. Each transient has its own owner, so it never mutates nodes shared
+ * with persistent collections or with other transients.
+ */
+export type Owner = object;
+
+export class HamtLeaf<K, V> {
+    public constructor(
+        public readonly hash: number,
+        public readonly key: K,
+        public readonly value: V,
+    ) {}
+}
+
+/**
+ * An inner node: one bit of `bitmap` for each of the 32 hash fragments present, and a slot per bit in fragment order.
+ */
+export class BitmapNode<K, V> {
+    public constructor(
+        public bitmap: number,
+        public slots: Slot<K, V>[],
+        public size: number,
+        public owner: Owner | undefined,
+    ) {}
+}
+
+/**
+ * Holds the entries whose keys have the same full hash but are not equal.
+ */
+export class CollisionNode<K, V> {
+    public constructor(
+        public readonly hash: number,
+        public leaves: HamtLeaf<K, V>[],
+        public owner: Owner | undefined,
+    ) {}
+}
+
+export type Slot<K, V> = HamtLeaf<K, V> | BitmapNode<K, V> | CollisionNode<K, V>;
+
+/**
+ * Chooses the leaf to keep when both sides of an update or a union hold an entry for the same key.
+ */
+export type LeafResolver<K, V> = (existing: HamtLeaf<K, V>, incoming: HamtLeaf<K, V>) => HamtLeaf<K, V>;
+
+const EMPTY = new BitmapNode<never, never>(0, [], 0, undefined);
+
+const defaultHasher: Hasher<unknown> = {
+    hash: hashOf,
+    equals: EqualityComparer.default.equals,
+};
+
+/**
+ * Hashers by the comparer they were made for. Each is stored for the key type of its comparer, which the map cannot express.
+ */
+const hashers = new WeakMap<EqualityComparer<never>, Hasher<never>>();
+
+/**
+ * Returns the Hasher for an equality comparer, the same object each time, so tries built with the same comparer can be
+ * recognised as compatible.
+ */
+export function toHasher<K>(equality: EqualityComparer<K> | undefined): Hasher<K> {
+    if (equality === undefined || equality === EqualityComparer.default) {
+        return defaultHasher;
+    }
+    let hasher = hashers.get(equality) as Hasher<K> | undefined;
+    if (!hasher) {
+        hasher = { hash: (key: K) => hashOf(toCompositeKey(equality.hash(key))), equals: (left: K, right: K) => equality.equals(left, right) };
+        hashers.set(equality, hasher);
+    }
+    return hasher;
+}
+
+/**
+ * Hashes any value into an unsigned 32-bit integer consistently with SameValueZero. Objects and symbols hash by identity.
+ */
+function hashOf(key: unknown): number {
+    switch (typeof key) {
+        case 'number':
+            return (key | 0) === key ? key >>> 0 : hashString(String(key));
+        case 'string':
+            return hashString(key);
+        case 'object':
+        case 'function':
+        case 'symbol':
+            return key === null ? 0x9e3779b9 : referenceId(key as object | symbol);
+        default:
+            return hashString(`${typeof key}${String(key)}`);
+    }
+}
+
+/**
+ * Persistent operations on a hash array mapped trie. Each operation returns a new root which shares every untouched subtree
+ * with the old one, or the old root itself when nothing changed. An editor created with an owner updates the nodes carrying
+ * that owner in place instead of copying them, which is how transients batch their changes.
+ *
+ * The trie is kept canonical: an entry sits at the shallowest level where no other key shares its hash prefix, so tries with
+ * the same keys have the same shape whatever order the keys were added in.
+ *
+ * @template K Type of keys in the trie.
+ * @template V Type of values in the trie.
+ */
+export class Hamt<K, V> {
+    public constructor(
+        public readonly hasher: Hasher<K>,
+        private readonly owner?: Owner,
+    ) {}
+
+    /**
+     * The root of a trie with no entries.
+     */
+    public static empty<K, V>(): BitmapNode<K, V> {
+        return EMPTY;
+    }
+
+    public get(root: BitmapNode<K, V>, key: K): HamtLeaf<K, V> | undefined {
+        return this.find(root, 0, this.hasher.hash(key), key);
+    }
+
+    /**
+     * Stores `value` for `key`. An existing equal key is kept, and the root is returned unchanged if it already maps to the same value.
+     */
+    public set(root: BitmapNode<K, V>, key: K, value: V): BitmapNode<K, V> {
+        return this.setIn(root, 0, new HamtLeaf(this.hasher.hash(key), key, value), replaceValue) as BitmapNode<K, V>;
+    }
+
+    public delete(root: BitmapNode<K, V>, key: K): BitmapNode<K, V> {
+        return (this.deleteIn(root, 0, this.hasher.hash(key), key) as BitmapNode<K, V> | undefined) ?? Hamt.empty();
+    }
+
+    /**
+     * Combines the entries of two tries built with this editor's hasher. Subtrees present on one side only are reused as they are.
+     *
+     * @param resolve Chooses between the leaf of `left` and the leaf of `right` when both hold the key.
+     */
+    public union(left: BitmapNode<K, V>, right: BitmapNode<K, V>, resolve: LeafResolver<K, V>): BitmapNode<K, V> {
+        return this.unionIn(left, right, 0, resolve) as BitmapNode<K, V>;
+    }
+
+    /**
+     * Keeps the entries of `left` whose keys are in `right`.
+     */
+    public intersection(left: BitmapNode<K, V>, right: BitmapNode<K, V>): BitmapNode<K, V> {
+        return (this.intersectIn(left, right, 0) as BitmapNode<K, V> | undefined) ?? Hamt.empty();
+    }
+
+    /**
+     * Keeps the entries of `left` whose keys are not in `right`.
+     */
+    public difference(left: BitmapNode<K, V>, right: BitmapNode<K, V>): BitmapNode<K, V> {
+        return (this.differenceIn(left, right, 0) as BitmapNode<K, V> | undefined) ?? Hamt.empty();
+    }
+
+    /**
+     * Determines whether two tries built with this editor's hasher hold equal keys mapped to equal values.
+     * Shared subtrees are recognised by reference and not visited.
+     */
+    public equals(left: Slot<K, V>, right: Slot<K, V>, valueEquals: (left: V, right: V) => boolean): boolean {
+        if (left === right) {
+            return true;
+        }
+        if (left instanceof BitmapNode) {
+            return (
+                right instanceof BitmapNode &&
+                left.bitmap === right.bitmap &&
+                left.size === right.size &&
+                left.slots.every((slot, i) => this.equals(slot, right.slots[i], valueEquals))
+            );
+        }
+        if (left instanceof CollisionNode) {
+            return (
+                right instanceof CollisionNode &&
+                left.hash === right.hash &&
+                left.leaves.length === right.leaves.length &&
+                left.leaves.every((leaf) => right.leaves.some((other) => this.sameEntry(leaf, other, valueEquals)))
+            );
+        }
+        return right instanceof HamtLeaf && this.sameEntry(left, right, valueEquals);
+    }
+
+    /**
+     * Visits every leaf of a trie, stopping early when `visit` returns false.
+     *
+     * @returns False if the visit was stopped early; otherwise, true.
+     */
+    public static forEachLeaf<K, V>(slot: Slot<K, V>, visit: (leaf: HamtLeaf<K, V>) => boolean | void): boolean {
+        if (slot instanceof BitmapNode) {
+            for (let i = 0; i < slot.slots.length; i++) {
+                if (!Hamt.forEachLeaf(slot.slots[i], visit)) {
+                    return false;
+                }
+            }
+            return true;
+        }
+        if (slot instanceof CollisionNode) {
+            return slot.leaves.every((leaf) => visit(leaf) !== false);
+        }
+        return visit(slot) !== false;
+    }
+
+    public static *leaves<K, V>(slot: Slot<K, V>): IterableIterator<HamtLeaf<K, V>> {
+        if (slot instanceof BitmapNode) {
+            for (const child of slot.slots) {
+                yield* Hamt.leaves(child);
+            }
+        } else if (slot instanceof CollisionNode) {
+            yield* slot.leaves;
+        } else {
+            yield slot;
+        }
+    }
+
+    private find(slot: Slot<K, V>, shift: number, hash: number, key: K): HamtLeaf<K, V> | undefined {
+        while (slot instanceof BitmapNode) {
+            const bit = bitFor(hash, shift);
+            if ((slot.bitmap & bit) === 0) {
+                return undefined;
+            }
+            slot = slot.slots[indexOf(slot.bitmap, bit)];
+            shift += BITS;
+        }
+        if (slot instanceof CollisionNode) {
+            return slot.hash === hash ? slot.leaves.find((leaf) => this.hasher.equals(leaf.key, key)) : undefined;
+        }
+        return slot.hash === hash && this.hasher.equals(slot.key, key) ? slot : undefined;
+    }
+
+    private setIn(slot: Slot<K, V>, shift: number, leaf: HamtLeaf<K, V>, resolve: LeafResolver<K, V>): Slot<K, V> {
+        if (slot instanceof BitmapNode) {
+            const bit = bitFor(leaf.hash, shift);
+            const index = indexOf(slot.bitmap, bit);
+            if ((slot.bitmap & bit) === 0) {
+                const node = this.editable(slot);
+                node.bitmap |= bit;
+                node.slots.splice(index, 0, leaf);
+                node.size++;
+                return node;
+            }
+            const child = slot.slots[index];
+            const before = sizeOf(child);
+            const updated = this.setIn(child, shift + BITS, leaf, resolve);
+            // An owned child may have been updated in place, so its size tells whether anything changed.
+            return updated === child && sizeOf(updated) === before ? slot : this.replaceSlot(slot, index, updated, sizeOf(updated) - before);
+        }
+        if (slot.hash !== leaf.hash) {
+            return this.branch(shift, slot, leaf);
+        }
+        if (slot instanceof CollisionNode) {
+            const index = slot.leaves.findIndex((existing) => this.hasher.equals(existing.key, leaf.key));
+            const chosen = index < 0 ? leaf : resolve(slot.leaves[index], leaf);
+            if (index >= 0 && chosen === slot.leaves[index]) {
+                return slot;
+            }
+            const node = slot.owner !== undefined && slot.owner === this.owner ? slot : new CollisionNode(slot.hash, slot.leaves.slice(), this.owner);
+            node.leaves.splice(index < 0 ? node.leaves.length : index, index < 0 ? 0 : 1, chosen);
+            return node;
+        }
+        if (this.hasher.equals(slot.key, leaf.key)) {
+            return resolve(slot, leaf);
+        }
+        return new CollisionNode(slot.hash, [slot, leaf], this.owner);
+    }
+
+    /**
+     * Builds the smallest subtree holding an existing leaf or collision node and a new leaf with a different hash.
+     */
+    private branch(shift: number, existing: HamtLeaf<K, V> | CollisionNode<K, V>, leaf: HamtLeaf<K, V>): BitmapNode<K, V> {
+        const size = sizeOf(existing) + 1;
+        const existingFragment = (existing.hash >>> shift) & 31;
+        const leafFragment = (leaf.hash >>> shift) & 31;
+        if (existingFragment === leafFragment) {
+            return new BitmapNode(1 << existingFragment, [this.branch(shift + BITS, existing, leaf)], size, this.owner);
+        }
+        const slots = existingFragment < leafFragment ? [existing, leaf] : [leaf, existing];
+        return new BitmapNode((1 << existingFragment) | (1 << leafFragment), slots, size, this.owner);
+    }
+
+    /**
+     * Removes `key` from a subtree, returning undefined when the subtree becomes empty. Below the root, a node left with a single
+     * leaf or collision node is replaced by it, keeping the trie canonical.
+     */
+    private deleteIn(slot: Slot<K, V>, shift: number, hash: number, key: K): Slot<K, V> | undefined {
+        if (slot instanceof BitmapNode) {
+            const bit = bitFor(hash, shift);
+            if ((slot.bitmap & bit) === 0) {
+                return slot;
+            }
+            const index = indexOf(slot.bitmap, bit);
+            const child = slot.slots[index];
+            const before = sizeOf(child);
+            const updated = this.deleteIn(child, shift + BITS, hash, key);
+            if (updated === child && sizeOf(updated) === before) {
+                return slot;
+            }
+            if (updated === undefined) {
+                if (slot.slots.length === 1) {
+                    return undefined;
+                }
+                if (slot.slots.length === 2 && shift > 0 && !(slot.slots[1 - index] instanceof BitmapNode)) {
+                    return slot.slots[1 - index];
+                }
+                const node = this.editable(slot);
+                node.bitmap &= ~bit;
+                node.slots.splice(index, 1);
+                node.size--;
+                return node;
+            }
+            if (slot.slots.length === 1 && shift > 0 && !(updated instanceof BitmapNode)) {
+                return updated;
+            }
+            return this.replaceSlot(slot, index, updated, -1);
+        }
+        if (slot instanceof CollisionNode) {
+            const index = slot.hash === hash ? slot.leaves.findIndex((leaf) => this.hasher.equals(leaf.key, key)) : -1;
+            if (index < 0) {
+                return slot;
+            }
+            if (slot.leaves.length === 2) {
+                return slot.leaves[1 - index];
+            }
+            const node = slot.owner !== undefined && slot.owner === this.owner ? slot : new CollisionNode(slot.hash, slot.leaves.slice(), this.owner);
+            node.leaves.splice(index, 1);
+            return node;
+        }
+        return slot.hash === hash && this.hasher.equals(slot.key, key) ? undefined : slot;
+    }
+
+    private unionIn(left: Slot<K, V>, right: Slot<K, V>, shift: number, resolve: LeafResolver<K, V>): Slot<K, V> {
+        if (left === right) {
+            return left;
+        }
+        if (left instanceof BitmapNode && right instanceof BitmapNode) {
+            const bitmap = left.bitmap | right.bitmap;
+            const slots: Slot<K, V>[] = [];
+            let size = 0;
+            let same = bitmap === left.bitmap;
+            for (let bits = bitmap; bits !== 0; bits &= bits - 1) {
+                const bit = 1 << lowestBit(bits);
+                const leftSlot = left.bitmap & bit ? left.slots[indexOf(left.bitmap, bit)] : undefined;
+                const rightSlot = right.bitmap & bit ? right.slots[indexOf(right.bitmap, bit)] : undefined;
+                const slot = leftSlot && rightSlot ? this.unionIn(leftSlot, rightSlot, shift + BITS, resolve) : (leftSlot ?? rightSlot)!;
+                same = same && slot === leftSlot;
+                size += sizeOf(slot);
+                slots.push(slot);
+            }
+            return same ? left : new BitmapNode(bitmap, slots, size, this.owner);
+        }
+        // At least one side is a leaf or a collision node, so merging its few leaves into the other side is cheapest.
+        if (!(right instanceof BitmapNode)) {
+            let result = left;
+            for (const leaf of Hamt.leaves(right)) {
+                result = this.setIn(result, shift, leaf, resolve);
+            }
+            return result;
+        }
+        let result: Slot<K, V> = right;
+        for (const leaf of Hamt.leaves(left)) {
+            result = this.setIn(result, shift, leaf, (existing, incoming) => resolve(incoming, existing));
+        }
+        return result;
+    }
+
+    private intersectIn(left: Slot<K, V>, right: Slot<K, V>, shift: number): Slot<K, V> | undefined {
+        if (left === right) {
+            return left;
+        }
+        if (left instanceof BitmapNode && right instanceof BitmapNode) {
+            return this.combine(left, shift, (bit, slot) =>
+                right.bitmap & bit ? this.intersectIn(slot, right.slots[indexOf(right.bitmap, bit)], shift + BITS) : undefined,
+            );
+        }
+        if (!(left instanceof BitmapNode)) {
+            return this.keepLeaves(left, (leaf) => this.find(right, shift, leaf.hash, leaf.key) !== undefined);
+        }
+        const kept: HamtLeaf<K, V>[] = [];
+        for (const leaf of Hamt.leaves(right)) {
+            const found = this.find(left, shift, leaf.hash, leaf.key);
+            if (found) {
+                kept.push(found);
+            }
+        }
+        return kept.length > 1 ? new CollisionNode(kept[0].hash, kept, this.owner) : kept[0];
+    }
+
+    private differenceIn(left: Slot<K, V>, right: Slot<K, V>, shift: number): Slot<K, V> | undefined {
+        if (left === right) {
+            return undefined;
+        }
+        if (left instanceof BitmapNode && right instanceof BitmapNode) {
+            return this.combine(left, shift, (bit, slot) =>
+                right.bitmap & bit ? this.differenceIn(slot, right.slots[indexOf(right.bitmap, bit)], shift + BITS) : slot,
+            );
+        }
+        if (!(left instanceof BitmapNode)) {
+            return this.keepLeaves(left, (leaf) => this.find(right, shift, leaf.hash, leaf.key) === undefined);
+        }
+        let result: Slot<K, V> | undefined = left;
+        for (const leaf of Hamt.leaves(right)) {
+            result = result && this.deleteIn(result, shift, leaf.hash, leaf.key);
+        }
+        return result;
+    }
+
+    /**
+     * Rebuilds a node from the result of `select` for each of its slots, reusing the node when every slot is unchanged.
+     * Below the root, a result holding a single leaf or collision node is returned in place of the node.
+     */
+    private combine(node: BitmapNode<K, V>, shift: number, select: (bit: number, slot: Slot<K, V>) => Slot<K, V> | undefined): Slot<K, V> | undefined {
+        const slots: Slot<K, V>[] = [];
+        let bitmap = 0;
+        let size = 0;
+        let same = true;
+        for (let bits = node.bitmap, i = 0; bits !== 0; bits &= bits - 1, i++) {
+            const bit = 1 << lowestBit(bits);
+            const slot = select(bit, node.slots[i]);
+            same = same && slot === node.slots[i];
+            if (slot) {
+                bitmap |= bit;
+                size += sizeOf(slot);
+                slots.push(slot);
+            }
+        }
+        if (same) {
+            return node;
+        }
+        if (slots.length === 0) {
+            return undefined;
+        }
+        if (slots.length === 1 && shift > 0 && !(slots[0] instanceof BitmapNode)) {
+            return slots[0];
+        }
+        return new BitmapNode(bitmap, slots, size, this.owner);
+    }
+
+    /**
+     * Keeps the leaves of a leaf or collision node which satisfy `predicate`.
+     */
+    private keepLeaves(slot: HamtLeaf<K, V> | CollisionNode<K, V>, predicate: (leaf: HamtLeaf<K, V>) => boolean): Slot<K, V> | undefined {
+        if (slot instanceof HamtLeaf) {
+            return predicate(slot) ? slot : undefined;
+        }
+        const kept = slot.leaves.filter(predicate);
+        if (kept.length === slot.leaves.length) {
+            return slot;
+        }
+        return kept.length > 1 ? new CollisionNode(slot.hash, kept, this.owner) : kept[0];
+    }
+
+    private replaceSlot(node: BitmapNode<K, V>, index: number, slot: Slot<K, V>, sizeChange: number): BitmapNode<K, V> {
+        const result = this.editable(node);
+        result.slots[index] = slot;
+        result.size += sizeChange;
+        return result;
+    }
+
+    /**
+     * Returns the node itself if this editor owns it, or a copy it owns.
+     */
+    private editable(node: BitmapNode<K, V>): BitmapNode<K, V> {
+        if (node.owner !== undefined && node.owner === this.owner) {
+            return node;
+        }
+        return new BitmapNode(node.bitmap, node.slots.slice(), node.size, this.owner);
+    }
+
+    private sameEntry(left: HamtLeaf<K, V>, right: HamtLeaf<K, V>, valueEquals: (left: V, right: V) => boolean): boolean {
+        return left.hash === right.hash && this.hasher.equals(left.key, right.key) && valueEquals(left.value, right.value);
+    }
+}
+
+function replaceValue<K, V>(existing: HamtLeaf<K, V>, incoming: HamtLeaf<K, V>): HamtLeaf<K, V> {
+    return Object.is(existing.value, incoming.value) ? existing : new HamtLeaf(existing.hash, existing.key, incoming.value);
+}
+
+function sizeOf(slot: Slot<unknown, unknown>): number {
+    return slot instanceof BitmapNode ? slot.size : slot instanceof CollisionNode ? slot.leaves.length : 1;
+}
+
+function bitFor(hash: number, shift: number): number {
+    return 1 << ((hash >>> shift) & 31);
+}
+
+function indexOf(bitmap: number, bit: number): number {
+    return popcount(bitmap & (bit - 1));
+}
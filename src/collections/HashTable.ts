@@ -0,0 +1,191 @@
+import { toCompositeKey } from './CompositeKey';
+
+/**
+ * A hash/equals pair deciding when two keys of a HashTable are the same. Keys whose hashes differ are never compared, and
+ * without `equals`, keys are the same exactly when their hashes are.
+ *
+ * @template K Type of keys being compared.
+ */
+export interface KeyEquality<K> {
+    hash(key: K): unknown;
+    equals?(left: K, right: K): boolean;
+}
+
+interface Entry<K, V> {
+    readonly key: K;
+    value: V;
+}
+
+/**
+ * A map whose keys are matched by a hash/equals pair, shared by RefinedSet, Lookup and the keyed operators of LazyIterable.
+ * Hashes are compared with SameValueZero, except array hashes which are compared element-wise, so without an equality keys
+ * behave as they do in a native Map apart from arrays. Entries are iterated in insertion order, and the first key added for an
+ * entry is the one kept.
+ *
+ * @template K Type of keys in the table.
+ * @template V Type of values in the table.
+ */
+export class HashTable<K, V> implements Iterable<[K, V]> {
+    // Method signatures are compared bivariantly, which keeps the collections built on this table covariant, like Set<T>.
+    private readonly equality: KeyEquality<K>;
+    private readonly buckets = new Map<unknown, Entry<K, V>[]>();
+    private readonly order = new Set<Entry<K, V>>();
+
+    /**
+     * @param equality (optional) Hash/equals pair for the keys, defaults to comparing the keys themselves.
+     */
+    public constructor(equality?: KeyEquality<K>) {
+        this.equality = equality ?? { hash: (key) => key };
+    }
+
+    /**
+     * The number of entries in the table.
+     */
+    public get size(): number {
+        return this.order.size;
+    }
+
+    /**
+     * Determines whether an entry with a key equal to `key` is in the table.
+     */
+    public has(key: K): boolean {
+        return this.find(this.hashOf(key), key) !== undefined;
+    }
+
+    /**
+     * Returns the value stored under a key equal to `key`, or undefined if there is none.
+     */
+    public get(key: K): V | undefined {
+        return this.find(this.hashOf(key), key)?.value;
+    }
+
+    /**
+     * Stores `value` under `key`, replacing the value of an entry with an equal key.
+     *
+     * @returns This table.
+     */
+    public set(key: K, value: V): this {
+        const hash = this.hashOf(key);
+        const entry = this.find(hash, key);
+        if (entry) {
+            entry.value = value;
+        } else {
+            this.insert(hash, key, value);
+        }
+        return this;
+    }
+
+    /**
+     * Returns the value stored under a key equal to `key`, first storing the value `create` returns if there is none.
+     */
+    public getOrAdd(key: K, create: (key: K) => V): V {
+        const hash = this.hashOf(key);
+        const entry = this.find(hash, key);
+        return entry ? entry.value : this.insert(hash, key, create(key)).value;
+    }
+
+    /**
+     * Removes the entry with a key equal to `key`.
+     *
+     * @returns True if an entry was removed; otherwise, false.
+     */
+    public delete(key: K): boolean {
+        const hash = this.hashOf(key);
+        const bucket = this.buckets.get(hash);
+        const index = bucket ? this.indexIn(bucket, key) : -1;
+        if (!bucket || index < 0) {
+            return false;
+        }
+        this.order.delete(bucket[index]);
+        if (bucket.length === 1) {
+            this.buckets.delete(hash);
+        } else {
+            bucket.splice(index, 1);
+        }
+        return true;
+    }
+
+    /**
+     * Removes every entry from the table.
+     */
+    public clear(): void {
+        this.buckets.clear();
+        this.order.clear();
+    }
+
+    /**
+     * Returns an iterator over the stored keys in insertion order.
+     */
+    public *keys(): IterableIterator<K> {
+        for (const entry of this.order) {
+            yield entry.key;
+        }
+    }
+
+    /**
+     * Returns an iterator over the values in insertion order.
+     */
+    public *values(): IterableIterator<V> {
+        for (const entry of this.order) {
+            yield entry.value;
+        }
+    }
+
+    public *[Symbol.iterator](): Iterator<[K, V]> {
+        for (const entry of this.order) {
+            yield [entry.key, entry.value];
+        }
+    }
+
+    private hashOf(key: K): unknown {
+        return toCompositeKey(this.equality.hash(key));
+    }
+
+    private find(hash: unknown, key: K): Entry<K, V> | undefined {
+        const bucket = this.buckets.get(hash);
+        if (bucket) {
+            const index = this.indexIn(bucket, key);
+            if (index >= 0) {
+                return bucket[index];
+            }
+        }
+        return undefined;
+    }
+
+    private insert(hash: unknown, key: K, value: V): Entry<K, V> {
+        const entry = { key, value };
+        const bucket = this.buckets.get(hash);
+        if (bucket) {
+            bucket.push(entry);
+        } else {
+            this.buckets.set(hash, [entry]);
+        }
+        this.order.add(entry);
+        return entry;
+    }
+
+    private indexIn(bucket: Entry<K, V>[], key: K): number {
+        if (!this.equality.equals) {
+            return 0;
+        }
+        for (let i = 0; i < bucket.length; i++) {
+            if (this.equality.equals(bucket[i].key, key)) {
+                return i;
+            }
+        }
+        return -1;
+    }
+}
+
+/**
+ * Creates a function which returns true the first time it is called with each distinct key, comparing keys with `equality`
+ * or, without one, as a HashTable does.
+ */
+export function firstOccurrence<K>(equality?: KeyEquality<K>): (key: K) => boolean {
+    const seen = new HashTable<K, true>(equality);
+    return (key) => {
+        const size = seen.size;
+        seen.getOrAdd(key, () => true);
+        return seen.size !== size;
+    };
+}
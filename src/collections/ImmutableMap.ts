@@ -0,0 +1,249 @@
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+import { LazyIterable } from '../iterable/LazyIterable';
+import { EqualityComparer } from './Comparers';
+import { BitmapNode, Hamt, HamtLeaf, toHasher } from './Hamt';
+
+/**
+ * The mutable view of an ImmutableMap passed to `withMutations`. It may only be used until `withMutations` returns.
+ *
+ * @template K Type of keys in the map.
+ * @template V Type of values in the map.
+ */
+export interface TransientMap<K, V> {
+    readonly size: number;
+    get(key: K): V | undefined;
+    has(key: K): boolean;
+    set(key: K, value: V): this;
+    delete(key: K): boolean;
+}
+
+/**
+ * A persistent map backed by a hash array mapped trie. Updates return a new map which shares all but O(log32 n) nodes with
+ * the original, which is left unchanged. Keys are compared with SameValueZero, like a native Map, or with an equality
+ * comparer, and entries are iterated in the order of their keys' hashes rather than in insertion order.
+ *
+ * @template K Type of keys in the map.
+ * @template V Type of values in the map.
+ */
+export class ImmutableMap<K, V> implements Iterable<[K, V]> {
+    private root: BitmapNode<K, V> = Hamt.empty();
+    private hamt: Hamt<K, V>;
+
+    /**
+     * @param entries (optional) Initial entries of the map. A later entry replaces the value of an earlier one with an equal key.
+     * @param equality (optional) Equality comparer for the keys, defaults to SameValueZero.
+     */
+    public constructor(entries?: Iterable<readonly [K, V]> | null, equality?: EqualityComparer<K>) {
+        if (equality !== undefined && (typeof equality.hash !== 'function' || typeof equality.equals !== 'function')) {
+            throw RefinedSetsError.invalidArgument('Expected equality to be an object with hash and equals functions.');
+        }
+        this.hamt = new Hamt(toHasher(equality));
+        if (entries) {
+            this.root = ImmutableMap.setAll(this.hamt, this.root, entries);
+        }
+    }
+
+    /**
+     * The number of entries in the map.
+     */
+    public get size(): number {
+        return this.root.size;
+    }
+
+    /**
+     * Returns the value stored for `key`, or undefined if there is none.
+     */
+    public get(key: K): V | undefined {
+        return this.hamt.get(this.root, key)?.value;
+    }
+
+    /**
+     * Determines whether an entry for `key` is in the map.
+     */
+    public has(key: K): boolean {
+        return this.hamt.get(this.root, key) !== undefined;
+    }
+
+    /**
+     * Creates a map which stores `value` for `key`, keeping the existing key if an equal one is present.
+     *
+     * @returns A new ImmutableMap, or this map if it already stores the same value (by SameValue) for `key`.
+     */
+    public with(key: K, value: V): ImmutableMap<K, V> {
+        return this.derive(this.hamt.set(this.root, key, value));
+    }
+
+    /**
+     * Creates a map without the entry for `key`.
+     *
+     * @returns A new ImmutableMap, or this map if there is no entry for `key`.
+     */
+    public without(key: K): ImmutableMap<K, V> {
+        return this.derive(this.hamt.delete(this.root, key));
+    }
+
+    /**
+     * Applies a batch of changes through a transient copy of the map, which updates the nodes it has already copied in place
+     * rather than copying them again for each change.
+     *
+     * @param mutator Function which sets and deletes entries through the transient map.
+     * @returns A new ImmutableMap with the changes, or this map if there were none.
+     */
+    public withMutations(mutator: (map: TransientMap<K, V>) => void): ImmutableMap<K, V> {
+        const transient = new TransientMapImpl(new Hamt<K, V>(this.hamt.hasher, {}), this.root);
+        try {
+            mutator(transient);
+        } finally {
+            transient.seal();
+        }
+        return this.derive(transient.root);
+    }
+
+    /**
+     * Creates a map with the entries of both this map and `other`. When `other` is an ImmutableMap with the same equality,
+     * whole subtrees are reused from whichever map holds them, and subtrees both maps share are not visited at all.
+     *
+     * @param other An ImmutableMap or iterable of entries.
+     * @param resolve (optional) Function returning the value to keep for a key whose values differ (by SameValue) between the maps,
+     * defaults to the value in `other`. A key with the same value in both keeps it without a call.
+     * @returns A new ImmutableMap, or this map if `other` changes nothing; this map is not modified.
+     */
+    public merge(other: ImmutableMap<K, V> | Iterable<readonly [K, V]>, resolve?: (existing: V, incoming: V, key: K) => V): ImmutableMap<K, V> {
+        const resolveLeaf = (existing: HamtLeaf<K, V>, incoming: HamtLeaf<K, V>) => {
+            const value = resolve && !Object.is(existing.value, incoming.value) ? resolve(existing.value, incoming.value, existing.key) : incoming.value;
+            return Object.is(value, existing.value) ? existing : new HamtLeaf(existing.hash, existing.key, value);
+        };
+        if (other instanceof ImmutableMap && other.hamt.hasher === this.hamt.hasher) {
+            return this.derive(this.hamt.union(this.root, other.root, resolveLeaf));
+        }
+        if (!resolve) {
+            return this.derive(ImmutableMap.setAll(this.hamt, this.root, other));
+        }
+        return this.withMutations((map) => {
+            for (const [key, value] of other) {
+                const existing = map.get(key);
+                map.set(key, map.has(key) && !Object.is(existing, value) ? resolve(existing!, value, key) : value);
+            }
+        });
+    }
+
+    /**
+     * Determines whether this map and `other` hold the same keys mapped to equal values. Maps derived from one another share
+     * most of their nodes, and shared nodes are not compared, so comparing versions of a map costs time in proportion to their differences.
+     *
+     * @param other The map to compare with.
+     * @param valueEquals (optional) Function comparing two values, defaults to SameValueZero.
+     * @returns True if the maps hold equal entries; otherwise, false.
+     */
+    public equals(other: ImmutableMap<K, V>, valueEquals: (left: V, right: V) => boolean = EqualityComparer.default.equals): boolean {
+        if (this.size !== other.size) {
+            return false;
+        }
+        if (other.hamt.hasher === this.hamt.hasher) {
+            return this.hamt.equals(this.root, other.root, valueEquals);
+        }
+        return Hamt.forEachLeaf(this.root, (leaf) => other.has(leaf.key) && valueEquals(leaf.value, other.get(leaf.key)!));
+    }
+
+    /**
+     * Returns an iterator over the keys.
+     */
+    public *keys(): IterableIterator<K> {
+        for (const leaf of Hamt.leaves(this.root)) {
+            yield leaf.key;
+        }
+    }
+
+    /**
+     * Returns an iterator over the values.
+     */
+    public *values(): IterableIterator<V> {
+        for (const leaf of Hamt.leaves(this.root)) {
+            yield leaf.value;
+        }
+    }
+
+    /**
+     * Returns an iterator over the entries as `[key, value]` pairs.
+     */
+    public *entries(): IterableIterator<[K, V]> {
+        for (const leaf of Hamt.leaves(this.root)) {
+            yield [leaf.key, leaf.value];
+        }
+    }
+
+    public [Symbol.iterator](): Iterator<[K, V]> {
+        return this.entries();
+    }
+
+    /**
+     * Creates a LazyIterable over the entries of this map. As the map never changes, neither does the sequence.
+     *
+     * @returns A LazyIterable which yields `[key, value]` pairs in the order of the keys' hashes.
+     */
+    public lazy(): LazyIterable<[K, V]> {
+        return LazyIterable.from(this);
+    }
+
+    private derive(root: BitmapNode<K, V>): ImmutableMap<K, V> {
+        if (root === this.root) {
+            return this;
+        }
+        const result = new ImmutableMap<K, V>();
+        result.hamt = this.hamt;
+        result.root = root;
+        return result;
+    }
+
+    private static setAll<K, V>(hamt: Hamt<K, V>, root: BitmapNode<K, V>, entries: Iterable<readonly [K, V]>): BitmapNode<K, V> {
+        const transient = new TransientMapImpl(new Hamt<K, V>(hamt.hasher, {}), root);
+        for (const [key, value] of entries) {
+            transient.set(key, value);
+        }
+        return transient.root;
+    }
+}
+
+class TransientMapImpl<K, V> implements TransientMap<K, V> {
+    private sealed = false;
+
+    public constructor(
+        private readonly hamt: Hamt<K, V>,
+        public root: BitmapNode<K, V>,
+    ) {}
+
+    public get size(): number {
+        return this.root.size;
+    }
+
+    public get(key: K): V | undefined {
+        return this.hamt.get(this.root, key)?.value;
+    }
+
+    public has(key: K): boolean {
+        return this.hamt.get(this.root, key) !== undefined;
+    }
+
+    public set(key: K, value: V): this {
+        this.assertOpen();
+        this.root = this.hamt.set(this.root, key, value);
+        return this;
+    }
+
+    public delete(key: K): boolean {
+        this.assertOpen();
+        const size = this.root.size;
+        this.root = this.hamt.delete(this.root, key);
+        return this.root.size !== size;
+    }
+
+    public seal(): void {
+        this.sealed = true;
+    }
+
+    private assertOpen(): void {
+        if (this.sealed) {
+            throw RefinedSetsError.notSupported('A transient map cannot be changed after withMutations returns.');
+        }
+    }
+}
@@ -0,0 +1,239 @@
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+import { LazyIterable } from '../iterable/LazyIterable';
+import type { EqualityComparer } from './Comparers';
+import { BitmapNode, Hamt, HamtLeaf, toHasher } from './Hamt';
+
+/**
+ * The mutable view of an ImmutableSet passed to `withMutations`. It may only be used until `withMutations` returns.
+ *
+ * @template T Type of elements in the set.
+ */
+export interface TransientSet<T> {
+    readonly size: number;
+    has(value: T): boolean;
+    add(value: T): this;
+    delete(value: T): boolean;
+}
+
+/**
+ * A persistent set backed by a hash array mapped trie. Updates return a new set which shares all but O(log32 n) nodes with
+ * the original, which is left unchanged, so keeping every version of a set costs little more than keeping the last.
+ * Elements are compared with SameValueZero, like a native Set, or with an equality comparer, and are iterated in the order of
+ * their hashes rather than in insertion order.
+ *
+ * @template T Type of elements in the set.
+ */
+export class ImmutableSet<T> implements Iterable<T> {
+    private root: BitmapNode<T, undefined> = Hamt.empty();
+    private hamt: Hamt<T, undefined>;
+
+    /**
+     * @param values (optional) Initial elements of the set.
+     * @param equality (optional) Equality comparer for the elements, defaults to SameValueZero.
+     */
+    public constructor(values?: Iterable<T> | null, equality?: EqualityComparer<T>) {
+        if (equality !== undefined && (typeof equality.hash !== 'function' || typeof equality.equals !== 'function')) {
+            throw RefinedSetsError.invalidArgument('Expected equality to be an object with hash and equals functions.');
+        }
+        this.hamt = new Hamt(toHasher(equality));
+        if (values) {
+            this.root = ImmutableSet.addAll(this.hamt, this.root, values);
+        }
+    }
+
+    /**
+     * The number of elements in the set.
+     */
+    public get size(): number {
+        return this.root.size;
+    }
+
+    /**
+     * Determines whether an element is in the set.
+     */
+    public has(value: T): boolean {
+        return this.hamt.get(this.root, value) !== undefined;
+    }
+
+    /**
+     * Creates a set which also contains `value`.
+     *
+     * @returns A new ImmutableSet, or this set if `value` is already present.
+     */
+    public with(value: T): ImmutableSet<T> {
+        return this.derive(this.hamt.set(this.root, value, undefined));
+    }
+
+    /**
+     * Creates a set which does not contain `value`.
+     *
+     * @returns A new ImmutableSet, or this set if `value` is not present.
+     */
+    public without(value: T): ImmutableSet<T> {
+        return this.derive(this.hamt.delete(this.root, value));
+    }
+
+    /**
+     * Applies a batch of changes through a transient copy of the set, which updates the nodes it has already copied in place
+     * rather than copying them again for each change.
+     *
+     * @param mutator Function which adds and deletes elements through the transient set.
+     * @returns A new ImmutableSet with the changes, or this set if there were none.
+     */
+    public withMutations(mutator: (set: TransientSet<T>) => void): ImmutableSet<T> {
+        const transient = new TransientSetImpl(new Hamt<T, undefined>(this.hamt.hasher, {}), this.root);
+        try {
+            mutator(transient);
+        } finally {
+            transient.seal();
+        }
+        return this.derive(transient.root);
+    }
+
+    /**
+     * Creates a set with the elements of both this set and `other`. When `other` is an ImmutableSet with the same equality,
+     * whole subtrees are reused from whichever set holds them.
+     *
+     * @param other An ImmutableSet or iterable of elements.
+     * @returns A new ImmutableSet, or this set if `other` adds nothing; this set is not modified.
+     */
+    public union(other: ImmutableSet<T> | Iterable<T>): ImmutableSet<T> {
+        if (this.isCompatible(other)) {
+            return this.derive(this.hamt.union(this.root, other.root, keepExisting));
+        }
+        return this.derive(ImmutableSet.addAll(this.hamt, this.root, other));
+    }
+
+    /**
+     * Creates a set with the elements of this set which are also in `other`.
+     *
+     * @param other An ImmutableSet or iterable of elements.
+     * @returns A new ImmutableSet, or this set if every element is kept; this set is not modified.
+     */
+    public intersection(other: ImmutableSet<T> | Iterable<T>): ImmutableSet<T> {
+        const right = this.isCompatible(other) ? other.root : ImmutableSet.addAll(this.hamt, Hamt.empty(), other);
+        return this.derive(this.hamt.intersection(this.root, right));
+    }
+
+    /**
+     * Creates a set with the elements of this set which are not in `other`.
+     *
+     * @param other An ImmutableSet or iterable of elements.
+     * @returns A new ImmutableSet, or this set if no element is removed; this set is not modified.
+     */
+    public difference(other: ImmutableSet<T> | Iterable<T>): ImmutableSet<T> {
+        if (this.isCompatible(other)) {
+            return this.derive(this.hamt.difference(this.root, other.root));
+        }
+        return this.withMutations((set) => {
+            for (const value of other) {
+                set.delete(value);
+            }
+        });
+    }
+
+    /**
+     * Determines whether this set and `other` contain the same elements. Sets derived from one another share most of their
+     * nodes, and shared nodes are not compared, so comparing versions of a set costs time in proportion to their differences.
+     *
+     * @param other The set to compare with.
+     * @returns True if the sets contain the same elements; otherwise, false.
+     */
+    public equals(other: ImmutableSet<T>): boolean {
+        if (this.size !== other.size) {
+            return false;
+        }
+        if (other.hamt.hasher === this.hamt.hasher) {
+            return this.hamt.equals(this.root, other.root, () => true);
+        }
+        return Hamt.forEachLeaf(this.root, (leaf) => other.has(leaf.key));
+    }
+
+    /**
+     * Returns an iterator over the elements.
+     */
+    public *values(): IterableIterator<T> {
+        for (const leaf of Hamt.leaves(this.root)) {
+            yield leaf.key;
+        }
+    }
+
+    public [Symbol.iterator](): Iterator<T> {
+        return this.values();
+    }
+
+    /**
+     * Creates a LazyIterable over the elements of this set. As the set never changes, neither does the sequence.
+     *
+     * @returns A LazyIterable which yields the elements in the order of their hashes.
+     */
+    public lazy(): LazyIterable<T> {
+        return LazyIterable.from(this);
+    }
+
+    private derive(root: BitmapNode<T, undefined>): ImmutableSet<T> {
+        if (root === this.root) {
+            return this;
+        }
+        const result = new ImmutableSet<T>();
+        result.hamt = this.hamt;
+        result.root = root;
+        return result;
+    }
+
+    private isCompatible(other: ImmutableSet<T> | Iterable<T>): other is ImmutableSet<T> {
+        return other instanceof ImmutableSet && other.hamt.hasher === this.hamt.hasher;
+    }
+
+    private static addAll<T>(hamt: Hamt<T, undefined>, root: BitmapNode<T, undefined>, values: Iterable<T>): BitmapNode<T, undefined> {
+        const transient = new TransientSetImpl(new Hamt<T, undefined>(hamt.hasher, {}), root);
+        for (const value of values) {
+            transient.add(value);
+        }
+        return transient.root;
+    }
+}
+
+function keepExisting<T>(existing: HamtLeaf<T, undefined>): HamtLeaf<T, undefined> {
+    return existing;
+}
+
+class TransientSetImpl<T> implements TransientSet<T> {
+    private sealed = false;
+
+    public constructor(
+        private readonly hamt: Hamt<T, undefined>,
+        public root: BitmapNode<T, undefined>,
+    ) {}
+
+    public get size(): number {
+        return this.root.size;
+    }
+
+    public has(value: T): boolean {
+        return this.hamt.get(this.root, value) !== undefined;
+    }
+
+    public add(value: T): this {
+        this.assertOpen();
+        this.root = this.hamt.set(this.root, value, undefined);
+        return this;
+    }
+
+    public delete(value: T): boolean {
+        this.assertOpen();
+        const size = this.root.size;
+        this.root = this.hamt.delete(this.root, value);
+        return this.root.size !== size;
+    }
+
+    public seal(): void {
+        this.sealed = true;
+    }
+
+    private assertOpen(): void {
+        if (this.sealed) {
+            throw RefinedSetsError.notSupported('A transient set cannot be changed after withMutations returns.');
+        }
+    }
+}
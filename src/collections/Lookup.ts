@@ -0,0 +1,57 @@
+import { Grouping, LazyIterable } from '../iterable/LazyIterable';
+import { EqualityComparer } from './Comparers';
+import { HashTable } from './HashTable';
+
+/**
+ * A read-only one-to-many index produced by `LazyIterable.toLookup`.
+ * Keys are compared with an equality comparer or, without one, with SameValueZero, except array keys which are compared element-wise.
+ *
+ * @template K Type of keys in the lookup.
+ * @template T Type of elements grouped under each key.
+ */
+export class Lookup<K, T> implements Iterable<Grouping<K, T>> {
+    private readonly groupings: HashTable<K, Grouping<K, T>>;
+
+    /**
+     * @param groupings The groupings to index, which must have distinct keys.
+     * @param comparer (optional) Equality comparer for the keys.
+     */
+    public constructor(groupings: Iterable<Grouping<K, T>>, comparer?: EqualityComparer<K>) {
+        this.groupings = new HashTable(comparer);
+        for (const grouping of groupings) {
+            this.groupings.set(grouping.key, grouping);
+        }
+    }
+
+    /**
+     * The number of distinct keys in the lookup.
+     */
+    public get size(): number {
+        return this.groupings.size;
+    }
+
+    /**
+     * Determines whether any elements are grouped under `key`.
+     */
+    public has(key: K): boolean {
+        return this.groupings.has(key);
+    }
+
+    /**
+     * Returns the elements grouped under `key`, or an empty sequence if there are none.
+     */
+    public get(key: K): LazyIterable<T> {
+        return this.groupings.get(key) ?? LazyIterable.empty<T>();
+    }
+
+    /**
+     * Creates a LazyIterable over the distinct keys, in the order they were first seen.
+     */
+    public keys(): LazyIterable<K> {
+        return LazyIterable.from(this).map((g) => g.key);
+    }
+
+    public [Symbol.iterator](): Iterator<Grouping<K, T>> {
+        return this.groupings.values();
+    }
+}
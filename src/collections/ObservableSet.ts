@@ -0,0 +1,585 @@
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+import { LazyIterable } from '../iterable/LazyIterable';
+
+/**
+ * A change to the contents of a set view.
+ */
+export interface SetChange<T> {
+    readonly type: 'add' | 'delete';
+    readonly value: T;
+}
+
+/**
+ * A subscription to a live view, which stops the notifications once disposed.
+ * It works with `using` declarations where the runtime supports them.
+ */
+export interface ChangeSubscription extends Disposable {
+    readonly disposed: boolean;
+    dispose(): void;
+}
+
+function createSubscription(teardown: () => void): ChangeSubscription {
+    let disposed = false;
+    const subscription = {
+        get disposed() {
+            return disposed;
+        },
+        dispose() {
+            if (!disposed) {
+                disposed = true;
+                teardown();
+            }
+        },
+    };
+    installDispose(subscription);
+    return subscription as ChangeSubscription;
+}
+
+/**
+ * Makes `dispose` available as `Symbol.dispose`, on runtimes which define it. Installed per object rather than on prototypes,
+ * so that objects created after a polyfill defines the symbol support it too.
+ */
+function installDispose(target: { dispose(): void }): void {
+    if (typeof Symbol.dispose === 'symbol') {
+        Object.defineProperty(target, Symbol.dispose, { value: target.dispose, configurable: true, writable: true });
+    }
+}
+
+/**
+ * Notifies listeners in subscription order. Listeners may subscribe or unsubscribe while being notified.
+ * An announcement made while another is in progress waits until every listener has received the current one, so all listeners
+ * see the changes in the same order. A listener which throws does not stop the others; once the queue is empty, the first error
+ * is rethrown.
+ */
+class Emitter<A extends unknown[]> {
+    private readonly listeners = new Set<(...args: A) => void>();
+    private readonly queue: A[] = [];
+    private emitting = false;
+
+    public subscribe(listener: (...args: A) => void): ChangeSubscription {
+        if (typeof listener !== 'function') {
+            throw RefinedSetsError.invalidArgument('Expected a listener function.');
+        }
+        // Wrap the listener so that subscribing the same function twice yields two independent subscriptions.
+        const entry = (...args: A) => listener(...args);
+        this.listeners.add(entry);
+        return createSubscription(() => this.listeners.delete(entry));
+    }
+
+    public emit(...args: A): void {
+        this.queue.push(args);
+        if (this.emitting) {
+            return;
+        }
+        this.emitting = true;
+        const errors: unknown[] = [];
+        try {
+            for (let next = this.queue.shift(); next; next = this.queue.shift()) {
+                for (const listener of [...this.listeners]) {
+                    if (this.listeners.has(listener)) {
+                        try {
+                            listener(...next);
+                        } catch (error) {
+                            errors.push(error);
+                        }
+                    }
+                }
+            }
+        } finally {
+            this.emitting = false;
+        }
+        if (errors.length > 0) {
+            throw errors[0];
+        }
+    }
+
+    public clear(): void {
+        this.listeners.clear();
+    }
+}
+
+/**
+ * A read-only set which announces every change to its subscribers, and from which live views are derived.
+ * Derived views are updated from each change as it happens, so reading one never re-runs its callbacks over the whole source.
+ * Callbacks must be pure: a derived view remembers what each source element produced, and uses that when the element is deleted.
+ *
+ * @template T Type of elements in the view.
+ */
+export abstract class SetView<T> implements Iterable<T>, Disposable {
+    /**
+     * Calls dispose. Installed by the constructor on runtimes which define `Symbol.dispose`.
+     */
+    declare public readonly [Symbol.dispose]: () => void;
+
+    private readonly changes = new Emitter<[SetChange<T>]>();
+    private disposed = false;
+
+    public constructor() {
+        installDispose(this);
+    }
+
+    /**
+     * The number of elements in the view.
+     */
+    public abstract get size(): number;
+
+    /**
+     * Determines whether a value is in the view.
+     *
+     * @param value The value to look for.
+     * @returns True if the value is present; otherwise, false.
+     */
+    public abstract has(value: T): boolean;
+
+    /**
+     * Returns an iterator over the current elements.
+     */
+    public abstract values(): IterableIterator<T>;
+
+    public [Symbol.iterator](): Iterator<T> {
+        return this.values();
+    }
+
+    /**
+     * Calls `listener` after each element is added to or deleted from the view.
+     * Changes a listener makes are announced once the current change has reached every listener, and a listener which throws
+     * does not keep the change from the others; its error is rethrown to the caller which made the change.
+     *
+     * @param listener Function receiving each change.
+     * @returns A subscription which stops the notifications when disposed.
+     */
+    public subscribe(listener: (change: SetChange<T>) => void): ChangeSubscription {
+        return this.changes.subscribe(listener);
+    }
+
+    /**
+     * Creates a LazyIterable over a copy of the current elements, which later changes do not affect.
+     *
+     * @returns A LazyIterable snapshot of the view.
+     */
+    public snapshot(): LazyIterable<T> {
+        return LazyIterable.from([...this.values()]);
+    }
+
+    /**
+     * Creates a live view of the elements which satisfy `predicate`.
+     *
+     * @param predicate A function to test each element, called once when the element arrives.
+     * @returns A new live view, which must be disposed to stop it following this one.
+     */
+    public filter(predicate: (value: T) => boolean): SetView<T> {
+        return new FilteredSetView(this, predicate);
+    }
+
+    /**
+     * Creates a live view of the distinct results of `mapper`. A result stays in the view while any element maps to it.
+     *
+     * @template U Type of elements in the new view.
+     * @param mapper Function to transform each element, called once when the element arrives.
+     * @returns A new live view, which must be disposed to stop it following this one.
+     */
+    public map<U>(mapper: (value: T) => U): SetView<U> {
+        return new MappedSetView(this, mapper);
+    }
+
+    /**
+     * Creates a live view of the elements grouped by key. A group appears with its first element and disappears with its last.
+     *
+     * @template K Type of the keys.
+     * @param keySelector Function returning the key for each element, called once when the element arrives.
+     * @returns A new live view of groups, which must be disposed to stop it following this one.
+     */
+    public groupBy<K>(keySelector: (value: T) => K): GroupedSetView<K, T> {
+        return new GroupedSetViewImpl(this, keySelector);
+    }
+
+    /**
+     * Creates a live count of the elements, or of the elements which satisfy `predicate`.
+     *
+     * @param predicate (optional) A function to test each element, called once when the element arrives.
+     * @returns A new live count, which must be disposed to stop it following this view.
+     */
+    public count(predicate?: (value: T) => boolean): LiveCount {
+        return new LiveCountImpl(this, predicate);
+    }
+
+    /**
+     * Stops the view: its subscribers are dropped and, for a derived view, it stops following its source and keeps its last contents.
+     */
+    public dispose(): void {
+        if (!this.disposed) {
+            this.disposed = true;
+            this.changes.clear();
+            this.detach();
+        }
+    }
+
+    /**
+     * Releases whatever the view follows. Called once, by dispose.
+     */
+    protected detach(): void {}
+
+    protected emit(type: SetChange<T>['type'], value: T): void {
+        this.changes.emit({ type, value });
+    }
+}
+
+/**
+ * A mutable set which announces each add and delete to its subscribers and keeps its derived views up to date.
+ * Only actual changes are announced: adding a value already present, or deleting one which is absent, does nothing.
+ *
+ * @template T Type of elements in the set.
+ */
+export class ObservableSet<T> extends SetView<T> {
+    private readonly items: Set<T>;
+
+    /**
+     * @param values (optional) Initial elements of the set.
+     */
+    public constructor(values?: Iterable<T> | null) {
+        super();
+        this.items = new Set(values ?? []);
+    }
+
+    public get size(): number {
+        return this.items.size;
+    }
+
+    public has(value: T): boolean {
+        return this.items.has(value);
+    }
+
+    public values(): IterableIterator<T> {
+        return this.items.values();
+    }
+
+    /**
+     * Adds a value to the set, announcing it if it was not already present.
+     *
+     * @param value The value to add.
+     * @returns This set.
+     */
+    public add(value: T): this {
+        if (!this.items.has(value)) {
+            this.items.add(value);
+            this.emit('add', value);
+        }
+        return this;
+    }
+
+    /**
+     * Deletes a value from the set, announcing it if it was present.
+     *
+     * @param value The value to delete.
+     * @returns True if the value was deleted; otherwise, false.
+     */
+    public delete(value: T): boolean {
+        if (!this.items.delete(value)) {
+            return false;
+        }
+        this.emit('delete', value);
+        return true;
+    }
+
+    /**
+     * Deletes every value from the set, announcing each deletion.
+     */
+    public clear(): void {
+        for (const value of [...this.items]) {
+            this.delete(value);
+        }
+    }
+}
+
+/**
+ * Live view of the elements of a source which satisfy a predicate.
+ */
+class FilteredSetView<T> extends SetView<T> {
+    private readonly items = new Set<T>();
+    private readonly subscription: ChangeSubscription;
+
+    public constructor(
+        source: SetView<T>,
+        private readonly predicate: (value: T) => boolean,
+    ) {
+        super();
+        for (const value of source) {
+            if (predicate(value)) {
+                this.items.add(value);
+            }
+        }
+        this.subscription = source.subscribe((change) => this.apply(change));
+    }
+
+    public get size(): number {
+        return this.items.size;
+    }
+
+    public has(value: T): boolean {
+        return this.items.has(value);
+    }
+
+    public values(): IterableIterator<T> {
+        return this.items.values();
+    }
+
+    protected detach(): void {
+        this.subscription.dispose();
+    }
+
+    private apply({ type, value }: SetChange<T>): void {
+        if (type === 'add') {
+            if (!this.predicate(value)) {
+                return;
+            }
+            this.items.add(value);
+        } else if (!this.items.delete(value)) {
+            return;
+        }
+        this.emit(type, value);
+    }
+}
+
+/**
+ * Live view of the distinct results of mapping a source. Each result is counted by the source elements which produced it.
+ */
+class MappedSetView<T, U> extends SetView<U> {
+    private readonly results = new Map<T, U>();
+    private readonly counts = new Map<U, number>();
+    private readonly subscription: ChangeSubscription;
+
+    public constructor(
+        source: SetView<T>,
+        private readonly mapper: (value: T) => U,
+    ) {
+        super();
+        for (const value of source) {
+            this.insert(value);
+        }
+        this.subscription = source.subscribe(({ type, value }) => {
+            const result = type === 'add' ? this.insert(value) : this.remove(value);
+            if (result.changed) {
+                this.emit(type, result.value);
+            }
+        });
+    }
+
+    public get size(): number {
+        return this.counts.size;
+    }
+
+    public has(value: U): boolean {
+        return this.counts.has(value);
+    }
+
+    public values(): IterableIterator<U> {
+        return this.counts.keys();
+    }
+
+    protected detach(): void {
+        this.subscription.dispose();
+    }
+
+    private insert(value: T): { changed: boolean; value: U } {
+        const result = this.mapper(value);
+        this.results.set(value, result);
+        const count = this.counts.get(result) ?? 0;
+        this.counts.set(result, count + 1);
+        return { changed: count === 0, value: result };
+    }
+
+    private remove(value: T): { changed: boolean; value: U } {
+        const result = this.results.get(value) as U;
+        this.results.delete(value);
+        const count = this.counts.get(result)! - 1;
+        if (count === 0) {
+            this.counts.delete(result);
+        } else {
+            this.counts.set(result, count);
+        }
+        return { changed: count === 0, value: result };
+    }
+}
+
+/**
+ * One group of a GroupedSetView: a live view of the elements which share `key`.
+ */
+export interface LiveGrouping<K, T> extends SetView<T> {
+    readonly key: K;
+}
+
+/**
+ * Live view of the elements of a set view grouped by key. The view itself holds the groups, and announces each group as it
+ * appears or disappears; each group announces the changes to its own elements.
+ */
+export interface GroupedSetView<K, T> extends SetView<LiveGrouping<K, T>> {
+    /**
+     * Returns the group for a key.
+     *
+     * @param key The key of the group.
+     * @returns The live group, or undefined if no element has that key.
+     */
+    get(key: K): LiveGrouping<K, T> | undefined;
+}
+
+/**
+ * A live count of the elements of a set view, or of those which satisfy a predicate.
+ */
+export interface LiveCount extends Disposable {
+    /**
+     * The current count.
+     */
+    readonly value: number;
+    /**
+     * Calls `listener` after each change to the count.
+     *
+     * @param listener Function receiving the new and previous counts.
+     * @returns A subscription which stops the notifications when disposed.
+     */
+    subscribe(listener: (value: number, previous: number) => void): ChangeSubscription;
+    /**
+     * Stops the count following its source and drops its subscribers.
+     */
+    dispose(): void;
+}
+
+/**
+ * Group of a GroupedSetViewImpl, whose elements are managed by the grouped view.
+ */
+class LiveGroupingImpl<K, T> extends SetView<T> implements LiveGrouping<K, T> {
+    private readonly items = new Set<T>();
+
+    public constructor(public readonly key: K) {
+        super();
+    }
+
+    public get size(): number {
+        return this.items.size;
+    }
+
+    public has(value: T): boolean {
+        return this.items.has(value);
+    }
+
+    public values(): IterableIterator<T> {
+        return this.items.values();
+    }
+
+    public insert(value: T, notify: boolean): void {
+        this.items.add(value);
+        if (notify) {
+            this.emit('add', value);
+        }
+    }
+
+    public remove(value: T): void {
+        this.items.delete(value);
+        this.emit('delete', value);
+    }
+}
+
+class GroupedSetViewImpl<K, T> extends SetView<LiveGrouping<K, T>> implements GroupedSetView<K, T> {
+    private readonly groups = new Map<K, LiveGroupingImpl<K, T>>();
+    private readonly keys = new Map<T, K>();
+    private readonly subscription: ChangeSubscription;
+
+    public constructor(
+        source: SetView<T>,
+        private readonly keySelector: (value: T) => K,
+    ) {
+        super();
+        for (const value of source) {
+            this.insert(value, false);
+        }
+        this.subscription = source.subscribe(({ type, value }) => (type === 'add' ? this.insert(value, true) : this.remove(value)));
+    }
+
+    public get size(): number {
+        return this.groups.size;
+    }
+
+    public has(group: LiveGrouping<K, T>): boolean {
+        return this.groups.get(group.key) === group;
+    }
+
+    public values(): IterableIterator<LiveGrouping<K, T>> {
+        return this.groups.values();
+    }
+
+    public get(key: K): LiveGrouping<K, T> | undefined {
+        return this.groups.get(key);
+    }
+
+    protected detach(): void {
+        this.subscription.dispose();
+        for (const group of this.groups.values()) {
+            group.dispose();
+        }
+    }
+
+    private insert(value: T, notify: boolean): void {
+        const key = this.keySelector(value);
+        this.keys.set(value, key);
+        let group = this.groups.get(key);
+        if (!group) {
+            group = new LiveGroupingImpl<K, T>(key);
+            this.groups.set(key, group);
+            if (notify) {
+                this.emit('add', group);
+            }
+        }
+        group.insert(value, notify);
+    }
+
+    private remove(value: T): void {
+        const key = this.keys.get(value) as K;
+        this.keys.delete(value);
+        const group = this.groups.get(key)!;
+        group.remove(value);
+        if (group.size === 0) {
+            this.groups.delete(key);
+            this.emit('delete', group);
+        }
+    }
+}
+
+class LiveCountImpl<T> implements LiveCount {
+    declare public readonly [Symbol.dispose]: () => void;
+
+    private readonly changes = new Emitter<[number, number]>();
+    private readonly subscription: ChangeSubscription;
+    private current: number;
+
+    public constructor(source: SetView<T>, predicate: ((value: T) => boolean) | undefined) {
+        installDispose(this);
+        // With a predicate, remember which elements passed so that deleting one does not call the predicate again.
+        const counted = predicate ? new Set(LazyIterable.from(source).filter(predicate)) : undefined;
+        this.current = counted?.size ?? source.size;
+        this.subscription = source.subscribe(({ type, value }) => {
+            if (counted) {
+                if (type === 'delete' ? !counted.delete(value) : !predicate!(value)) {
+                    return;
+                }
+                if (type === 'add') {
+                    counted.add(value);
+                }
+            }
+            const previous = this.current;
+            this.current += type === 'add' ? 1 : -1;
+            this.changes.emit(this.current, previous);
+        });
+    }
+
+    public get value(): number {
+        return this.current;
+    }
+
+    public subscribe(listener: (value: number, previous: number) => void): ChangeSubscription {
+        return this.changes.subscribe(listener);
+    }
+
+    public dispose(): void {
+        this.subscription.dispose();
+        this.changes.clear();
+    }
+}
@@ -0,0 +1,323 @@
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+import { LazyIterable } from '../iterable/LazyIterable';
+import type { RangeOptions } from './AvlTree';
+
+/**
+ * An interval of numbers between `lower` and `upper`, each of which may be included or excluded.
+ * Infinite bounds are always excluded.
+ */
+export interface Interval {
+    readonly lower: number;
+    readonly upper: number;
+    readonly lowerInclusive: boolean;
+    readonly upperInclusive: boolean;
+}
+
+/**
+ * Options describing the bounds of an interval passed to a RangeSet.
+ */
+export type IntervalOptions = Pick<RangeOptions, 'inclusive'>;
+
+function isEmpty(interval: Interval): boolean {
+    return interval.lower > interval.upper || (interval.lower === interval.upper && !(interval.lowerInclusive && interval.upperInclusive));
+}
+
+/**
+ * Orders two lower bounds; an included bound starts before an excluded one at the same value.
+ */
+function compareLower(left: Interval, right: Interval): number {
+    return left.lower - right.lower || Number(right.lowerInclusive) - Number(left.lowerInclusive);
+}
+
+/**
+ * Orders two upper bounds; an included bound ends after an excluded one at the same value.
+ */
+function compareUpper(left: Interval, right: Interval): number {
+    return left.upper - right.upper || Number(left.upperInclusive) - Number(right.upperInclusive);
+}
+
+/**
+ * Determines whether `left` ends before `right` starts with a gap between them, so the two cannot be merged.
+ */
+function isSeparate(left: Interval, right: Interval): boolean {
+    return left.upper < right.lower || (left.upper === right.lower && !left.upperInclusive && !right.lowerInclusive);
+}
+
+function createInterval(lower: number, upper: number, lowerInclusive: boolean, upperInclusive: boolean): Interval {
+    return { lower, upper, lowerInclusive: lowerInclusive && lower !== -Infinity, upperInclusive: upperInclusive && upper !== Infinity };
+}
+
+/**
+ * A set of numbers stored as sorted, non-overlapping intervals, so that large ranges stay compact until they are enumerated.
+ * Intervals which overlap or touch are merged as they are added, and iteration yields the intervals in ascending order.
+ */
+export class RangeSet implements Iterable<Interval> {
+    private intervals: Interval[] = [];
+
+    /**
+     * @param intervals (optional) Initial intervals of the set, which may overlap.
+     */
+    public constructor(intervals?: Iterable<Interval> | null) {
+        if (intervals) {
+            for (const interval of intervals) {
+                this.addInterval(RangeSet.validate(interval.lower, interval.upper, interval.lowerInclusive, interval.upperInclusive));
+            }
+        }
+    }
+
+    /**
+     * The number of disjoint intervals in the set.
+     */
+    public get intervalCount(): number {
+        return this.intervals.length;
+    }
+
+    /**
+     * Adds the numbers between `lower` and `upper` to the set.
+     *
+     * @param lower The lower bound of the interval, which may be -Infinity.
+     * @param upper The upper bound of the interval, which may be Infinity.
+     * @param options (optional) Bound inclusivity, defaults to including both bounds.
+     * @returns This set.
+     */
+    public add(lower: number, upper: number, options?: IntervalOptions): this {
+        this.addInterval(RangeSet.resolve(lower, upper, options));
+        return this;
+    }
+
+    /**
+     * Removes the numbers between `lower` and `upper` from the set, splitting any interval which spans them.
+     *
+     * @param lower The lower bound of the interval, which may be -Infinity.
+     * @param upper The upper bound of the interval, which may be Infinity.
+     * @param options (optional) Bound inclusivity, defaults to including both bounds.
+     * @returns This set.
+     */
+    public remove(lower: number, upper: number, options?: IntervalOptions): this {
+        this.removeInterval(RangeSet.resolve(lower, upper, options));
+        return this;
+    }
+
+    /**
+     * Determines whether a number is in the set.
+     *
+     * @param value The number to look for.
+     * @returns True if an interval contains the number; otherwise, false.
+     */
+    public contains(value: number): boolean {
+        if (Number.isNaN(value)) {
+            return false;
+        }
+        const point = createInterval(value, value, true, true);
+        const index = this.findFirstNotBefore(point);
+        return index < this.intervals.length && compareLower(this.intervals[index], point) <= 0;
+    }
+
+    /**
+     * Removes every interval from the set.
+     */
+    public clear(): void {
+        this.intervals = [];
+    }
+
+    /**
+     * Creates a new set with the numbers in either this set or `other`.
+     *
+     * @param other The set to combine with.
+     * @returns A new RangeSet; neither set is modified.
+     */
+    public union(other: RangeSet): RangeSet {
+        const result = this.clone();
+        for (const interval of other.intervals) {
+            result.addInterval(interval);
+        }
+        return result;
+    }
+
+    /**
+     * Creates a new set with the numbers in both this set and `other`.
+     *
+     * @param other The set to intersect with.
+     * @returns A new RangeSet; neither set is modified.
+     */
+    public intersect(other: RangeSet): RangeSet {
+        const result = new RangeSet();
+        let i = 0;
+        let j = 0;
+        while (i < this.intervals.length && j < other.intervals.length) {
+            const left = this.intervals[i];
+            const right = other.intervals[j];
+            const lower = compareLower(left, right) >= 0 ? left : right;
+            const upper = compareUpper(left, right) <= 0 ? left : right;
+            const overlap = createInterval(lower.lower, upper.upper, lower.lowerInclusive, upper.upperInclusive);
+            if (!isEmpty(overlap)) {
+                result.intervals.push(overlap);
+            }
+            if (upper === left) {
+                i++;
+            } else {
+                j++;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Creates a new set with the numbers between `lower` and `upper` which are not in this set.
+     *
+     * @param lower (optional) The lower bound of the complement, defaults to -Infinity.
+     * @param upper (optional) The upper bound of the complement, defaults to Infinity.
+     * @param options (optional) Bound inclusivity, defaults to including both bounds.
+     * @returns A new RangeSet; this set is not modified.
+     */
+    public complement(lower = -Infinity, upper = Infinity, options?: IntervalOptions): RangeSet {
+        const result = new RangeSet();
+        result.addInterval(RangeSet.resolve(lower, upper, options));
+        for (const interval of this.intervals) {
+            result.removeInterval(interval);
+        }
+        return result;
+    }
+
+    /**
+     * Returns the smallest single interval which contains every number in the set.
+     *
+     * @returns The spanning interval, or undefined if the set is empty.
+     */
+    public span(): Interval | undefined {
+        if (this.intervals.length === 0) {
+            return undefined;
+        }
+        const first = this.intervals[0];
+        const last = this.intervals[this.intervals.length - 1];
+        return createInterval(first.lower, last.upper, first.lowerInclusive, last.upperInclusive);
+    }
+
+    /**
+     * Creates a copy of this set.
+     */
+    public clone(): RangeSet {
+        const result = new RangeSet();
+        result.intervals = this.intervals.slice();
+        return result;
+    }
+
+    /**
+     * Creates a LazyIterable which expands each interval into the numbers from its lower bound, counting up by `step`.
+     * An excluded lower bound starts one step above it. Each interval is expanded with `LazyIterable.fromRange`, so nothing is
+     * materialised until enumeration and an interval with an infinite upper bound yields forever.
+     *
+     * @param step (optional) The positive distance between consecutive numbers, defaults to 1.
+     * @returns A LazyIterable which yields the numbers in ascending order.
+     */
+    public toLazyIterable(step = 1): LazyIterable<number> {
+        if (!(step > 0) || step === Infinity) {
+            throw RefinedSetsError.invalidArgument(`Expected 'step' to be a positive finite number. Received: ${step}.`);
+        }
+        if (this.intervals.length > 0 && this.intervals[0].lower === -Infinity) {
+            throw RefinedSetsError.invalidArgument('Cannot enumerate a RangeSet which is unbounded below.');
+        }
+        return LazyIterable.from(this.intervals.slice()).flatMap((interval) => RangeSet.expand(interval, step));
+    }
+
+    /**
+     * Creates a LazyIterable over the intervals in ascending order.
+     */
+    public lazy(): LazyIterable<Interval> {
+        return LazyIterable.from(this);
+    }
+
+    public [Symbol.iterator](): Iterator<Interval> {
+        return this.intervals[Symbol.iterator]();
+    }
+
+    private addInterval(interval: Interval): void {
+        if (isEmpty(interval)) {
+            return;
+        }
+        let start = this.findFirstNotBefore(interval);
+        // The interval ending just before may still touch the new one, e.g. [1, 2) and [2, 3].
+        if (start > 0 && !isSeparate(this.intervals[start - 1], interval)) {
+            start--;
+        }
+        let end = start;
+        let merged = interval;
+        while (end < this.intervals.length && !isSeparate(merged, this.intervals[end])) {
+            const current = this.intervals[end++];
+            const lower = compareLower(current, merged) < 0 ? current : merged;
+            const upper = compareUpper(current, merged) > 0 ? current : merged;
+            merged = createInterval(lower.lower, upper.upper, lower.lowerInclusive, upper.upperInclusive);
+        }
+        this.intervals.splice(start, end - start, merged);
+    }
+
+    private removeInterval(removed: Interval): void {
+        if (isEmpty(removed)) {
+            return;
+        }
+        const start = this.findFirstNotBefore(removed);
+        const pieces: Interval[] = [];
+        let end = start;
+        for (; end < this.intervals.length; end++) {
+            const current = this.intervals[end];
+            if (current.lower > removed.upper || (current.lower === removed.upper && !(current.lowerInclusive && removed.upperInclusive))) {
+                break;
+            }
+            // Keep whatever lies outside the removed interval on either side.
+            const before = createInterval(current.lower, removed.lower, current.lowerInclusive, !removed.lowerInclusive);
+            const after = createInterval(removed.upper, current.upper, !removed.upperInclusive, current.upperInclusive);
+            if (!isEmpty(before)) {
+                pieces.push(before);
+            }
+            if (!isEmpty(after)) {
+                pieces.push(after);
+            }
+        }
+        this.intervals.splice(start, end - start, ...pieces);
+    }
+
+    /**
+     * Finds the index of the first interval which does not end before `interval` starts.
+     */
+    private findFirstNotBefore(interval: Interval): number {
+        let low = 0;
+        let high = this.intervals.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            const current = this.intervals[middle];
+            if (current.upper < interval.lower || (current.upper === interval.lower && !(current.upperInclusive && interval.lowerInclusive))) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low;
+    }
+
+    private static expand(interval: Interval, step: number): LazyIterable<number> {
+        const start = interval.lowerInclusive ? interval.lower : interval.lower + step;
+        if (start > interval.upper || (start === interval.upper && !interval.upperInclusive)) {
+            return LazyIterable.empty();
+        }
+        if (start === interval.upper) {
+            return LazyIterable.fromRange(start, start);
+        }
+        const range = LazyIterable.fromRange(start, interval.upper, step);
+        const count = range.count();
+        // fromRange includes its end, so drop it when it lands exactly on an excluded upper bound.
+        return !interval.upperInclusive && start + (count - 1) * step >= interval.upper ? range.take(count - 1) : range;
+    }
+
+    private static resolve(lower: number, upper: number, options: IntervalOptions | undefined): Interval {
+        const inclusive = options?.inclusive ?? true;
+        const [lowerInclusive, upperInclusive] = Array.isArray(inclusive) ? inclusive : [inclusive, inclusive];
+        return RangeSet.validate(lower, upper, lowerInclusive, upperInclusive);
+    }
+
+    private static validate(lower: number, upper: number, lowerInclusive: boolean, upperInclusive: boolean): Interval {
+        if (Number.isNaN(lower) || Number.isNaN(upper) || lower > upper) {
+            throw RefinedSetsError.invalidArgument(`Expected 'lower' to be less than or equal to 'upper'. Received: lower = ${lower}, upper = ${upper}.`);
+        }
+        return createInterval(lower, upper, lowerInclusive, upperInclusive);
+    }
+}
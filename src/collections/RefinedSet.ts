@@ -0,0 +1,134 @@
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+import { LazyIterable } from '../iterable/LazyIterable';
+import type { EqualityComparer } from './Comparers';
+import { HashTable } from './HashTable';
+
+/**
+ * A hash/equals pair describing when two elements of a RefinedSet are considered the same; the same as EqualityComparer.
+ *
+ * @template T Type of elements being compared.
+ */
+export type HashEquality<T> = EqualityComparer<T>;
+
+/**
+ * Describes element equality for a RefinedSet, either as a key selector or as an equality comparer.
+ * Keys are compared with SameValueZero, except array keys which are compared element-wise.
+ */
+export type RefinedSetEquality<T> = ((item: T) => unknown) | EqualityComparer<T>;
+
+/**
+ * A set which decides element equality with a key selector or a hash/equals pair rather than by reference.
+ * Elements are iterated in insertion order, like a native Set.
+ *
+ * @template T Type of elements in the set.
+ */
+export class RefinedSet<T> implements Iterable<T> {
+    private readonly table: HashTable<T, T>;
+
+    /**
+     * @param values (optional) Initial elements of the set.
+     * @param equality (optional) Key selector or hash/equals pair, defaults to the element itself.
+     */
+    public constructor(values?: Iterable<T> | null, equality?: RefinedSetEquality<T>) {
+        if (equality === undefined || typeof equality === 'function') {
+            this.table = new HashTable(equality && { hash: equality });
+        } else if (typeof equality.hash === 'function' && typeof equality.equals === 'function') {
+            this.table = new HashTable(equality);
+        } else {
+            throw RefinedSetsError.invalidArgument('Expected equality to be a key selector function or an object with hash and equals functions.');
+        }
+
+        if (values) {
+            for (const value of values) {
+                this.add(value);
+            }
+        }
+    }
+
+    /**
+     * The number of elements in the set.
+     */
+    public get size(): number {
+        return this.table.size;
+    }
+
+    /**
+     * Adds an element to the set, unless an equal element is already present.
+     *
+     * @param value The element to add.
+     * @returns This set.
+     */
+    public add(value: T): this {
+        this.table.getOrAdd(value, () => value);
+        return this;
+    }
+
+    /**
+     * Determines whether an element equal to `value` is in the set.
+     *
+     * @param value The element to look for.
+     * @returns True if an equal element is present; otherwise, false.
+     */
+    public has(value: T): boolean {
+        return this.table.has(value);
+    }
+
+    /**
+     * Returns the stored element which is equal to `value`.
+     *
+     * @param value The element to look for.
+     * @returns The stored element, or undefined if no equal element is present.
+     */
+    public get(value: T): T | undefined {
+        return this.table.get(value);
+    }
+
+    /**
+     * Removes the element equal to `value` from the set.
+     *
+     * @param value The element to remove.
+     * @returns True if an element was removed; otherwise, false.
+     */
+    public delete(value: T): boolean {
+        return this.table.delete(value);
+    }
+
+    /**
+     * Removes every element from the set.
+     */
+    public clear(): void {
+        this.table.clear();
+    }
+
+    /**
+     * Invokes a callback for each element in insertion order.
+     *
+     * @param callback Function to execute for each element.
+     */
+    public forEach(callback: (item: T, set: this) => void): void {
+        for (const value of this.table.values()) {
+            callback(value, this);
+        }
+    }
+
+    /**
+     * Returns an iterator over the elements in insertion order.
+     */
+    public values(): IterableIterator<T> {
+        return this.table.values();
+    }
+
+    public [Symbol.iterator](): Iterator<T> {
+        return this.values();
+    }
+
+    /**
+     * Creates a LazyIterable over the elements of this set.
+     * The sequence is live: each iteration reflects the set's contents at the time it starts.
+     *
+     * @returns A LazyIterable which yields the elements in insertion order.
+     */
+    public lazy(): LazyIterable<T> {
+        return LazyIterable.from(this);
+    }
+}
@@ -0,0 +1,165 @@
+import { LazyIterable } from '../iterable/LazyIterable';
+import { AvlTree, Comparator, RangeOptions } from './AvlTree';
+import { Comparer, toComparator } from './Comparers';
+
+/**
+ * A map which keeps its entries ordered by key, backed by a balanced binary search tree.
+ * Keys which compare as 0 are considered equal. get, set, has and delete run in O(log n).
+ *
+ * @template K Type of keys in the map.
+ * @template V Type of values in the map.
+ */
+export class SortedMap<K, V> implements Iterable<[K, V]> {
+    private readonly tree: AvlTree<K, V>;
+
+    /**
+     * @param entries (optional) Initial entries of the map.
+     * @param comparator (optional) Comparer or function which orders the keys, defaults to ordering with `<` and `>`.
+     */
+    public constructor(entries?: Iterable<readonly [K, V]> | null, comparator?: Comparator<K> | Comparer<K>) {
+        this.tree = new AvlTree(toComparator(comparator));
+        if (entries) {
+            for (const [key, value] of entries) {
+                this.set(key, value);
+            }
+        }
+    }
+
+    /**
+     * The number of entries in the map.
+     */
+    public get size(): number {
+        return this.tree.size;
+    }
+
+    /**
+     * Returns the value stored for `key`, or undefined if there is none.
+     */
+    public get(key: K): V | undefined {
+        return this.tree.find(key)?.value;
+    }
+
+    /**
+     * Stores `value` for `key`, replacing the value of an existing equal key.
+     *
+     * @returns This map.
+     */
+    public set(key: K, value: V): this {
+        this.tree.set(key, value);
+        return this;
+    }
+
+    /**
+     * Determines whether an entry with a key equal to `key` is in the map.
+     */
+    public has(key: K): boolean {
+        return this.tree.find(key) !== undefined;
+    }
+
+    /**
+     * Removes the entry for `key`.
+     *
+     * @returns True if an entry was removed; otherwise, false.
+     */
+    public delete(key: K): boolean {
+        return this.tree.delete(key);
+    }
+
+    /**
+     * Removes every entry from the map.
+     */
+    public clear(): void {
+        this.tree.clear();
+    }
+
+    /**
+     * Returns the entry with the least key, or undefined if the map is empty.
+     */
+    public first(): [K, V] | undefined {
+        return SortedMap.toEntry(this.tree.min());
+    }
+
+    /**
+     * Returns the entry with the greatest key, or undefined if the map is empty.
+     */
+    public last(): [K, V] | undefined {
+        return SortedMap.toEntry(this.tree.max());
+    }
+
+    /**
+     * Returns the entry with the greatest key less than or equal to `key`, or undefined if there is none.
+     */
+    public floor(key: K): [K, V] | undefined {
+        return SortedMap.toEntry(this.tree.floor(key, true));
+    }
+
+    /**
+     * Returns the entry with the least key greater than or equal to `key`, or undefined if there is none.
+     */
+    public ceiling(key: K): [K, V] | undefined {
+        return SortedMap.toEntry(this.tree.ceiling(key, true));
+    }
+
+    /**
+     * Returns the entry with the greatest key strictly less than `key`, or undefined if there is none.
+     */
+    public lower(key: K): [K, V] | undefined {
+        return SortedMap.toEntry(this.tree.floor(key, false));
+    }
+
+    /**
+     * Returns the entry with the least key strictly greater than `key`, or undefined if there is none.
+     */
+    public higher(key: K): [K, V] | undefined {
+        return SortedMap.toEntry(this.tree.ceiling(key, false));
+    }
+
+    /**
+     * Creates a LazyIterable over the entries whose keys lie between `lower` and `upper`.
+     *
+     * @param lower The lower bound of the range.
+     * @param upper The upper bound of the range.
+     * @param options (optional) Bound inclusivity and iteration direction.
+     * @returns A LazyIterable which yields the entries in the range.
+     */
+    public rangeBetween(lower: K, upper: K, options?: RangeOptions): LazyIterable<[K, V]> {
+        const [lowerBound, upperBound] = AvlTree.bounds(lower, upper, options);
+        return LazyIterable.from(this.tree.range(lowerBound, upperBound, options?.reverse ?? false)).map((node): [K, V] => [node.key, node.value]);
+    }
+
+    /**
+     * Creates a LazyIterable over the keys in ascending order.
+     */
+    public keys(): LazyIterable<K> {
+        return this.entries().map(([key]) => key);
+    }
+
+    /**
+     * Creates a LazyIterable over the values in ascending key order.
+     */
+    public values(): LazyIterable<V> {
+        return this.entries().map(([, value]) => value);
+    }
+
+    /**
+     * Creates a LazyIterable over the entries in ascending key order.
+     */
+    public entries(): LazyIterable<[K, V]> {
+        return LazyIterable.from(this.tree.range(undefined, undefined, false)).map((node): [K, V] => [node.key, node.value]);
+    }
+
+    /**
+     * Creates a LazyIterable over the entries in descending key order.
+     */
+    public reversed(): LazyIterable<[K, V]> {
+        return LazyIterable.from(this.tree.range(undefined, undefined, true)).map((node): [K, V] => [node.key, node.value]);
+    }
+
+    public [Symbol.iterator](): Iterator<[K, V]> {
+        return this.entries()[Symbol.iterator]();
+    }
+
+    private static toEntry<K, V>(node: { key: K; value: V } | undefined): [K, V] | undefined {
+        return node ? [node.key, node.value] : undefined;
+    }
+}
@@ -0,0 +1,149 @@
+import { LazyIterable } from '../iterable/LazyIterable';
+import { AvlTree, Comparator, RangeOptions } from './AvlTree';
+import { Comparer, toComparator } from './Comparers';
+
+/**
+ * A set which keeps its elements ordered by a comparator, backed by a balanced binary search tree.
+ * Elements which compare as 0 are considered equal. add, has and delete run in O(log n).
+ *
+ * @template T Type of elements in the set.
+ */
+export class SortedSet<T> implements Iterable<T> {
+    private readonly tree: AvlTree<T, undefined>;
+
+    /**
+     * @param values (optional) Initial elements of the set.
+     * @param comparator (optional) Comparer or function which orders the elements, defaults to ordering with `<` and `>`.
+     */
+    public constructor(values?: Iterable<T> | null, comparator?: Comparator<T> | Comparer<T>) {
+        this.tree = new AvlTree(toComparator(comparator));
+        if (values) {
+            for (const value of values) {
+                this.add(value);
+            }
+        }
+    }
+
+    /**
+     * The number of elements in the set.
+     */
+    public get size(): number {
+        return this.tree.size;
+    }
+
+    /**
+     * Adds an element to the set, unless an equal element is already present.
+     *
+     * @param value The element to add.
+     * @returns This set.
+     */
+    public add(value: T): this {
+        if (!this.tree.find(value)) {
+            this.tree.set(value, undefined);
+        }
+        return this;
+    }
+
+    /**
+     * Determines whether an element equal to `value` is in the set.
+     *
+     * @param value The element to look for.
+     * @returns True if an equal element is present; otherwise, false.
+     */
+    public has(value: T): boolean {
+        return this.tree.find(value) !== undefined;
+    }
+
+    /**
+     * Removes the element equal to `value` from the set.
+     *
+     * @param value The element to remove.
+     * @returns True if an element was removed; otherwise, false.
+     */
+    public delete(value: T): boolean {
+        return this.tree.delete(value);
+    }
+
+    /**
+     * Removes every element from the set.
+     */
+    public clear(): void {
+        this.tree.clear();
+    }
+
+    /**
+     * Returns the least element, or undefined if the set is empty.
+     */
+    public first(): T | undefined {
+        return this.tree.min()?.key;
+    }
+
+    /**
+     * Returns the greatest element, or undefined if the set is empty.
+     */
+    public last(): T | undefined {
+        return this.tree.max()?.key;
+    }
+
+    /**
+     * Returns the greatest element less than or equal to `value`, or undefined if there is none.
+     */
+    public floor(value: T): T | undefined {
+        return this.tree.floor(value, true)?.key;
+    }
+
+    /**
+     * Returns the least element greater than or equal to `value`, or undefined if there is none.
+     */
+    public ceiling(value: T): T | undefined {
+        return this.tree.ceiling(value, true)?.key;
+    }
+
+    /**
+     * Returns the greatest element strictly less than `value`, or undefined if there is none.
+     */
+    public lower(value: T): T | undefined {
+        return this.tree.floor(value, false)?.key;
+    }
+
+    /**
+     * Returns the least element strictly greater than `value`, or undefined if there is none.
+     */
+    public higher(value: T): T | undefined {
+        return this.tree.ceiling(value, false)?.key;
+    }
+
+    /**
+     * Creates a LazyIterable over the elements between `lower` and `upper`.
+     * The tree is walked lazily, so chaining `take` only visits the elements it needs.
+     *
+     * @param lower The lower bound of the range.
+     * @param upper The upper bound of the range.
+     * @param options (optional) Bound inclusivity and iteration direction.
+     * @returns A LazyIterable which yields the elements in the range.
+     */
+    public rangeBetween(lower: T, upper: T, options?: RangeOptions): LazyIterable<T> {
+        const [lowerBound, upperBound] = AvlTree.bounds(lower, upper, options);
+        return LazyIterable.from(this.tree.range(lowerBound, upperBound, options?.reverse ?? false)).map((node) => node.key);
+    }
+
+    /**
+     * Creates a LazyIterable over the elements in ascending order.
+     */
+    public lazy(): LazyIterable<T> {
+        return LazyIterable.from(this.tree.range(undefined, undefined, false)).map((node) => node.key);
+    }
+
+    /**
+     * Creates a LazyIterable over the elements in descending order.
+     */
+    public reversed(): LazyIterable<T> {
+        return LazyIterable.from(this.tree.range(undefined, undefined, true)).map((node) => node.key);
+    }
+
+    public *[Symbol.iterator](): Iterator<T> {
+        for (const node of this.tree.range(undefined, undefined, false)) {
+            yield node.key;
+        }
+    }
+}
@@ -1,16 +1,44 @@
-export const enum RefinedSetsErrorCode {
+export enum RefinedSetsErrorCode {
     InvalidArgument = 'invalid-argument',
     InternalError = 'internal-error',
     NotSupported = 'not-supported',
     Uninitialized = 'uninitialized',
+    DuplicateKey = 'duplicate-key',
+    BufferOverflow = 'buffer-overflow',
+    SequenceEmpty = 'sequence-empty',
+    ParseError = 'parse-error',
+    MoreThanOneElement = 'more-than-one-element',
+    IndexOutOfRange = 'index-out-of-range',
+    CallbackError = 'callback-error',
+    WorkerError = 'worker-error',
 }
 
-export class RefinedSetsError extends Error {
+/**
+ * Context recorded by an error raised on behalf of a user callback.
+ */
+export interface RefinedSetsErrorDetails {
+    /** Name of the operator whose callback failed, such as `map`. */
+    readonly operator?: string;
+    /** Index of the element the callback was called with. */
+    readonly index?: number;
+    /** The error the callback threw. */
+    readonly cause?: unknown;
+}
+
+export class RefinedSetsError extends Error implements RefinedSetsErrorDetails {
+    public readonly operator?: string;
+    public readonly index?: number;
+    public readonly cause?: unknown;
+
     public constructor(
         public readonly type: RefinedSetsErrorCode,
         message: string,
+        details?: RefinedSetsErrorDetails,
     ) {
         super(message);
+        this.operator = details?.operator;
+        this.index = details?.index;
+        this.cause = details?.cause;
         this.name = 'RefinedSetsError';
         Object.setPrototypeOf(this, new.target.prototype);
     }
@@ -31,4 +59,33 @@ export class RefinedSetsError extends Error {
     public static uninitialized(message: string): RefinedSetsError {
         return new RefinedSetsError(RefinedSetsErrorCode.Uninitialized, message);
     }
+    public static duplicateKey(message: string): RefinedSetsError {
+        return new RefinedSetsError(RefinedSetsErrorCode.DuplicateKey, message);
+    }
+    public static bufferOverflow(message: string): RefinedSetsError {
+        return new RefinedSetsError(RefinedSetsErrorCode.BufferOverflow, message);
+    }
+    public static sequenceEmpty(message: string): RefinedSetsError {
+        return new RefinedSetsError(RefinedSetsErrorCode.SequenceEmpty, message);
+    }
+    public static parseError(message: string): RefinedSetsError {
+        return new RefinedSetsError(RefinedSetsErrorCode.ParseError, message);
+    }
+    public static moreThanOneElement(message: string): RefinedSetsError {
+        return new RefinedSetsError(RefinedSetsErrorCode.MoreThanOneElement, message);
+    }
+    public static indexOutOfRange(message: string): RefinedSetsError {
+        return new RefinedSetsError(RefinedSetsErrorCode.IndexOutOfRange, message);
+    }
+    public static workerError(message: string, details?: RefinedSetsErrorDetails): RefinedSetsError {
+        return new RefinedSetsError(RefinedSetsErrorCode.WorkerError, message, details);
+    }
+    public static callbackError(operator: string, index: number, cause: unknown): RefinedSetsError {
+        const reason = cause instanceof Error ? cause.message : String(cause);
+        return new RefinedSetsError(RefinedSetsErrorCode.CallbackError, `The ${operator} callback threw at index ${index}: ${reason}`, {
+            operator,
+            index,
+            cause,
+        });
+    }
 }
@@ -1 +1,29 @@
 export * from './iterable/LazyIterable';
+export * from './iterable/AsyncLazyIterable';
+export * from './errors/RefinedSetsError';
+export type { CsvReadOptions, CsvWriteOptions, TextSource } from './io/Codecs';
+export type { ReadableStreamOptions } from './io/Streams';
+export type {
+    EventEmitterLike,
+    EventSequenceOptions,
+    EventTargetLike,
+    InteropObservable,
+    ObservableLike,
+    Observer,
+    OverflowStrategy,
+    PushBufferOptions,
+    Subscription,
+} from './io/Observables';
+export type { ParallelOptions, WorkerTarget } from './workers/ParallelOptions';
+export * from './collections/RefinedSet';
+export * from './collections/SortedSet';
+export * from './collections/SortedMap';
+export { naturalComparator } from './collections/AvlTree';
+export type { Comparator, RangeOptions } from './collections/AvlTree';
+export { Comparer, EqualityComparer } from './collections/Comparers';
+export * from './collections/Lookup';
+export * from './collections/BitSet';
+export * from './collections/RangeSet';
+export * from './collections/ObservableSet';
+export * from './collections/ImmutableSet';
+export * from './collections/ImmutableMap';
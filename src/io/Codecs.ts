@@ -0,0 +1,230 @@
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+
+/**
+ * Chunks of text, such as a file stream or an HTTP body. Byte chunks are decoded as UTF-8, and chunk boundaries need not fall
+ * on line boundaries.
+ */
+export type TextSource = Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>;
+
+/**
+ * Options for reading CSV.
+ */
+export interface CsvReadOptions {
+    /**
+     * The single character separating fields. Defaults to a comma.
+     */
+    delimiter?: string;
+    /**
+     * When true (the default), the first record holds the column names and each later record is yielded as an object keyed by them.
+     * An array supplies the column names instead, and false yields each record as an array of fields.
+     */
+    headers?: boolean | readonly string[];
+}
+
+/**
+ * Options for writing CSV.
+ */
+export interface CsvWriteOptions {
+    /**
+     * The single character separating fields. Defaults to a comma.
+     */
+    delimiter?: string;
+    /**
+     * The columns to write, in order. Defaults to the keys of the first record when records are objects.
+     */
+    columns?: readonly string[];
+    /**
+     * Whether to write the column names as the first line. Defaults to true.
+     */
+    header?: boolean;
+}
+
+/**
+ * Splits chunks of text into lines, without their `\n` or `\r\n` terminators.
+ */
+export async function* readLines(source: TextSource): AsyncIterableIterator<string> {
+    const decoder = new TextDecoder();
+    let pending = '';
+    for await (const chunk of source) {
+        pending += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+        let start = 0;
+        let end: number;
+        while ((end = pending.indexOf('\n', start)) >= 0) {
+            yield trimCarriageReturn(pending.slice(start, end));
+            start = end + 1;
+        }
+        pending = pending.slice(start);
+    }
+    pending += decoder.decode();
+    if (pending.length > 0) {
+        yield trimCarriageReturn(pending);
+    }
+}
+
+/**
+ * Parses each non-blank line as a JSON value.
+ */
+export async function* parseNdjson<T>(lines: AsyncIterable<string>): AsyncIterableIterator<T> {
+    let lineNumber = 0;
+    for await (const line of lines) {
+        lineNumber++;
+        if (line.trim() === '') {
+            continue;
+        }
+        let value: T;
+        try {
+            value = JSON.parse(line);
+        } catch (error) {
+            throw RefinedSetsError.parseError(`Invalid JSON at line ${lineNumber}: ${(error as Error).message}`);
+        }
+        yield value;
+    }
+}
+
+/**
+ * Serializes each element as one line of JSON, including the trailing newline.
+ */
+export async function* serializeNdjson(source: AsyncIterable<unknown>): AsyncIterableIterator<string> {
+    let index = 0;
+    for await (const item of source) {
+        const text = JSON.stringify(item);
+        if (text === undefined) {
+            throw RefinedSetsError.invalidArgument(`Expected a value which can be serialized as JSON at index ${index}. Received: ${String(item)}.`);
+        }
+        index++;
+        yield `${text}\n`;
+    }
+}
+
+/**
+ * Parses lines of CSV into records. Quoted fields may contain delimiters, doubled quotes and line breaks, which are read as `\n`.
+ * Blank lines between records are skipped.
+ */
+export async function* parseCsv(lines: AsyncIterable<string>, options?: CsvReadOptions): AsyncIterableIterator<string[] | Record<string, string>> {
+    const delimiter = resolveDelimiter(options?.delimiter);
+    const headerOption = options?.headers ?? true;
+    let headers = Array.isArray(headerOption) ? headerOption : undefined;
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let closed = false;
+    let lineNumber = 0;
+    let recordLine = 0;
+
+    for await (const line of lines) {
+        lineNumber++;
+        if (quoted) {
+            field += '\n';
+        } else if (line === '') {
+            continue;
+        } else {
+            recordLine = lineNumber;
+        }
+
+        for (let i = 0; i < line.length; i++) {
+            const char = line[i];
+            if (quoted) {
+                if (char !== '"') {
+                    field += char;
+                } else if (line[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    quoted = false;
+                    closed = true;
+                }
+            } else if (char === delimiter) {
+                fields.push(field);
+                field = '';
+                closed = false;
+            } else if (closed) {
+                throw RefinedSetsError.parseError(`Expected a delimiter after the closing quote at line ${lineNumber}, column ${i + 1}.`);
+            } else if (char === '"' && field === '') {
+                quoted = true;
+            } else if (char === '"') {
+                throw RefinedSetsError.parseError(`Unexpected quote in an unquoted field at line ${lineNumber}, column ${i + 1}.`);
+            } else {
+                field += char;
+            }
+        }
+        if (quoted) {
+            continue;
+        }
+
+        fields.push(field);
+        const record = fields;
+        fields = [];
+        field = '';
+        closed = false;
+
+        if (headerOption === false) {
+            yield record;
+        } else if (!headers) {
+            headers = record;
+        } else if (record.length !== headers.length) {
+            throw RefinedSetsError.parseError(`Expected ${headers.length} fields at line ${recordLine}. Received: ${record.length}.`);
+        } else {
+            const mapped: Record<string, string> = {};
+            for (let i = 0; i < headers.length; i++) {
+                mapped[headers[i]] = record[i];
+            }
+            yield mapped;
+        }
+    }
+
+    if (quoted) {
+        throw RefinedSetsError.parseError(`Unterminated quoted field starting at line ${recordLine}.`);
+    }
+}
+
+/**
+ * Serializes arrays or objects as lines of CSV, including the trailing newline. Fields are quoted only when they contain the
+ * delimiter, a quote or a line break; null and undefined are written as empty fields.
+ */
+export async function* serializeCsv(source: AsyncIterable<object>, options?: CsvWriteOptions): AsyncIterableIterator<string> {
+    const delimiter = resolveDelimiter(options?.delimiter);
+    const header = options?.header ?? true;
+    let columns = options?.columns;
+    if (columns && header) {
+        yield formatCsvRow(columns, delimiter);
+    }
+    for await (const record of source) {
+        if (Array.isArray(record)) {
+            yield formatCsvRow(record, delimiter);
+            continue;
+        }
+        if (!columns) {
+            columns = Object.keys(record);
+            if (header) {
+                yield formatCsvRow(columns, delimiter);
+            }
+        }
+        yield formatCsvRow(
+            columns.map((column) => (record as Record<string, unknown>)[column]),
+            delimiter,
+        );
+    }
+}
+
+function formatCsvRow(values: readonly unknown[], delimiter: string): string {
+    return `${values.map((value) => formatCsvField(value, delimiter)).join(delimiter)}\n`;
+}
+
+function formatCsvField(value: unknown, delimiter: string): string {
+    const text = value === null || value === undefined ? '' : String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function resolveDelimiter(delimiter: string | undefined): string {
+    delimiter ??= ',';
+    if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+        throw RefinedSetsError.invalidArgument(
+            `Expected 'delimiter' to be a single character other than a quote or line break. Received: ${JSON.stringify(delimiter)}.`,
+        );
+    }
+    return delimiter;
+}
+
+function trimCarriageReturn(line: string): string {
+    return line.endsWith('\r') ? line.slice(0, -1) : line;
+}
@@ -0,0 +1,27 @@
+import { Readable } from 'stream';
+
+/**
+ * Options for `toNodeReadable`.
+ */
+export interface NodeReadableOptions {
+    /**
+     * When true (the default), elements are pushed as objects. When false, elements must be strings or buffers.
+     */
+    objectMode?: boolean;
+    /**
+     * Number of elements (or bytes, outside object mode) to buffer before the sequence stops being pulled.
+     */
+    highWaterMark?: number;
+}
+
+/**
+ * Creates a Node Readable which yields the elements of `source`.
+ * The source is only pulled while the stream's buffer is below its high water mark, so a slow consumer holds back the source.
+ *
+ * @param source The sequence to read from, such as an `AsyncLazyIterable`.
+ * @param options (optional) Object mode and buffer size of the stream.
+ * @returns A Readable over `source`.
+ */
+export function toNodeReadable<T>(source: AsyncIterable<T>, options?: NodeReadableOptions): Readable {
+    return Readable.from(source, { objectMode: options?.objectMode ?? true, highWaterMark: options?.highWaterMark });
+}
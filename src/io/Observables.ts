@@ -0,0 +1,354 @@
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+
+/**
+ * What a push-based source does when more elements are waiting to be read than its buffer holds: discard the oldest waiting
+ * element, discard the new element, or fail the sequence with a `buffer-overflow` RefinedSetsError.
+ */
+export type OverflowStrategy = 'drop-oldest' | 'drop-newest' | 'error';
+
+/**
+ * Options for buffering the elements of a push-based source until the sequence reads them.
+ */
+export interface PushBufferOptions {
+    /**
+     * Maximum number of elements waiting to be read. Defaults to Infinity.
+     */
+    bufferSize?: number;
+    /**
+     * What to do with an element which arrives when the buffer is full. Defaults to `error`.
+     */
+    overflow?: OverflowStrategy;
+}
+
+/**
+ * Options for `fromEvents`.
+ */
+export interface EventSequenceOptions extends PushBufferOptions {
+    /**
+     * Ends the sequence: the name of another event on the same emitter, an AbortSignal, or a promise. A rejected promise fails
+     * the sequence instead. Without it, the sequence ends only when iteration stops.
+     */
+    until?: string | symbol | AbortSignal | PromiseLike<unknown>;
+}
+
+/**
+ * A Node-style event emitter.
+ */
+export interface EventEmitterLike {
+    on(event: string | symbol, listener: (...args: unknown[]) => void): unknown;
+    removeListener(event: string | symbol, listener: (...args: unknown[]) => void): unknown;
+}
+
+/**
+ * A DOM-style event target, such as an element, a WebSocket or an AbortSignal.
+ */
+export interface EventTargetLike {
+    addEventListener(type: string, listener: (event: unknown) => void): void;
+    removeEventListener(type: string, listener: (event: unknown) => void): void;
+}
+
+/**
+ * Receives the notifications of an observable.
+ */
+export interface Observer<T> {
+    next(value: T): void;
+    error(error: unknown): void;
+    complete(): void;
+}
+
+/**
+ * A subscription to an observable, which stops the notifications when unsubscribed.
+ */
+export interface Subscription {
+    readonly closed: boolean;
+    unsubscribe(): void;
+}
+
+/**
+ * An observable as defined by the interop protocol shared by RxJS and similar libraries. Libraries differ in what `subscribe`
+ * returns, so a subscription object, an unsubscribe function or nothing is accepted.
+ */
+export interface ObservableLike<T> {
+    subscribe(observer: Partial<Observer<T>>): { unsubscribe(): void } | (() => void) | void;
+}
+
+/**
+ * An observable which other libraries can adopt through `Symbol.observable`, or `@@observable` where that symbol is not defined.
+ */
+export interface InteropObservable<T> {
+    subscribe(observer?: Partial<Observer<T>> | ((value: T) => void)): Subscription;
+    '@@observable'(): InteropObservable<T>;
+}
+
+/**
+ * Receives the elements of a push-based source.
+ */
+interface PushSink<T> {
+    next(value: T): void;
+    error(error: unknown): void;
+    complete(): void;
+}
+
+/**
+ * The key under which observables expose themselves, as chosen by RxJS: `Symbol.observable` when a polyfill defines it.
+ */
+const observableKey: symbol | '@@observable' = (Symbol as { observable?: symbol }).observable ?? '@@observable';
+
+/**
+ * Reads a push-based source as an async sequence. The source is subscribed when iteration starts and unsubscribed when it
+ * ends, however it ends; elements pushed before they are read wait in a buffer governed by `options`.
+ *
+ * @param subscribe Function which starts the source, pushing to the sink, and returns a function which stops it.
+ */
+async function* readPushed<T>(subscribe: (sink: PushSink<T>) => () => void, options?: PushBufferOptions): AsyncIterableIterator<T> {
+    const bufferSize = options?.bufferSize ?? Infinity;
+    const overflow = options?.overflow ?? 'error';
+    const buffer: T[] = [];
+    let done = false;
+    let failure: { error: unknown } | undefined;
+    let wake: (() => void) | undefined;
+    const notify = () => {
+        const resolve = wake;
+        wake = undefined;
+        resolve?.();
+    };
+    const end = (error?: { error: unknown }) => {
+        if (!done) {
+            done = true;
+            failure = error;
+            notify();
+        }
+    };
+
+    const unsubscribe = subscribe({
+        next(value) {
+            if (done) {
+                return;
+            }
+            if (buffer.length >= bufferSize) {
+                if (overflow === 'drop-newest') {
+                    return;
+                }
+                if (overflow === 'error') {
+                    end({ error: RefinedSetsError.bufferOverflow(`More than ${bufferSize} pushed elements were waiting to be read.`) });
+                    return;
+                }
+                buffer.shift();
+            }
+            buffer.push(value);
+            notify();
+        },
+        error: (error) => end({ error }),
+        complete: () => end(),
+    });
+
+    try {
+        while (true) {
+            if (buffer.length > 0) {
+                yield buffer.shift()!;
+            } else if (done) {
+                if (failure) {
+                    throw failure.error;
+                }
+                return;
+            } else {
+                await new Promise<void>((resolve) => (wake = resolve));
+            }
+        }
+    } finally {
+        done = true;
+        unsubscribe();
+    }
+}
+
+/**
+ * Validates the arguments, then returns a function which reads the events an emitter raises with `event` name, adding its
+ * listeners afresh for each reading. Node emitters yield the first argument of each event, and an `error` event fails the
+ * sequence; event targets yield the event object.
+ */
+export function eventReader<T>(
+    emitter: EventEmitterLike | EventTargetLike,
+    event: string | symbol,
+    options?: EventSequenceOptions,
+): () => AsyncIterableIterator<T> {
+    if (!isEventTarget(emitter) && !isEventEmitter(emitter)) {
+        throw RefinedSetsError.invalidArgument('Expected an event emitter or an event target.');
+    }
+    assertPushBufferOptions(options);
+    return () =>
+        readPushed<T>((sink) => {
+            const listeners: [EventEmitterLike | EventTargetLike, string | symbol, (value: unknown) => void][] = [];
+            const listen = (target: EventEmitterLike | EventTargetLike, name: string | symbol, listener: (value: unknown) => void) => {
+                listeners.push([target, name, listener]);
+                if (isEventTarget(target)) {
+                    target.addEventListener(name as string, listener);
+                } else {
+                    target.on(name, listener);
+                }
+            };
+
+            // Event payloads are untyped; their type is the one the caller of fromEvents declares.
+            listen(emitter, event, (value) => sink.next(value as T));
+            if (isEventEmitter(emitter) && event !== 'error') {
+                listen(emitter, 'error', (error) => sink.error(error));
+            }
+            const until = options?.until;
+            if (typeof until === 'string' || typeof until === 'symbol') {
+                listen(emitter, until, () => sink.complete());
+            } else if (until && isEventTarget(until)) {
+                if ((until as Partial<AbortSignal>).aborted) {
+                    sink.complete();
+                } else {
+                    listen(until, 'abort', () => sink.complete());
+                }
+            } else if (until) {
+                until.then(
+                    () => sink.complete(),
+                    (error) => sink.error(error),
+                );
+            }
+
+            return () => {
+                for (const [target, name, listener] of listeners) {
+                    if (isEventTarget(target)) {
+                        target.removeEventListener(name as string, listener);
+                    } else {
+                        target.removeListener(name, listener);
+                    }
+                }
+            };
+        }, options);
+}
+
+/**
+ * Validates the arguments, then returns a function which reads the notifications of an observable, or of any object exposing
+ * one through `Symbol.observable` or `@@observable`, subscribing afresh for each reading.
+ */
+export function observableReader<T>(source: ObservableLike<T> | InteropObservable<T>, options?: PushBufferOptions): () => AsyncIterableIterator<T> {
+    const keys = source as unknown as Record<PropertyKey, unknown> | undefined;
+    const adopt = keys?.[observableKey] ?? keys?.['@@observable'];
+    const observable = (typeof adopt === 'function' ? adopt.call(source) : source) as ObservableLike<T>;
+    if (typeof observable?.subscribe !== 'function') {
+        throw RefinedSetsError.invalidArgument('Expected an observable with a subscribe method.');
+    }
+    assertPushBufferOptions(options);
+    return () =>
+        readPushed<T>((sink) => {
+            const subscription = observable.subscribe({
+                next: (value) => sink.next(value),
+                error: (error) => sink.error(error),
+                complete: () => sink.complete(),
+            });
+            return () => (typeof subscription === 'function' ? subscription() : subscription?.unsubscribe());
+        }, options);
+}
+
+/**
+ * Creates an observable which iterates `source` for each subscriber, pushing each element as it is read.
+ * Unsubscribing, or an observer callback which throws, closes the iterator. Errors thrown by the observer's own callbacks, and
+ * source errors with no `error` callback to receive them, are rethrown from a timer, as observables report unhandled errors; on
+ * Node this crashes the process unless an `uncaughtException` handler is installed.
+ */
+export function toObservable<T>(source: AsyncIterable<T>): InteropObservable<T> {
+    const observable: InteropObservable<T> = {
+        subscribe(observerOrNext) {
+            const observer = typeof observerOrNext === 'function' ? { next: observerOrNext } : (observerOrNext ?? {});
+            const iterator = source[Symbol.asyncIterator]();
+            let closed = false;
+            const subscription: Subscription = {
+                get closed() {
+                    return closed;
+                },
+                unsubscribe() {
+                    if (!closed) {
+                        closed = true;
+                        // Ignore cleanup failures; the subscriber has already left.
+                        Promise.resolve(iterator.return?.()).catch(() => undefined);
+                    }
+                },
+            };
+            void (async () => {
+                while (!closed) {
+                    let result: IteratorResult<T>;
+                    try {
+                        result = await iterator.next();
+                    } catch (error) {
+                        // The iterator has already finished by throwing, so there is nothing to return.
+                        if (!closed) {
+                            closed = true;
+                            if (observer.error) {
+                                notify(() => observer.error?.(error));
+                            } else {
+                                reportUnhandled(error);
+                            }
+                        }
+                        return;
+                    }
+                    if (closed) {
+                        return;
+                    }
+                    if (result.done) {
+                        closed = true;
+                        notify(() => observer.complete?.());
+                        return;
+                    }
+                    if (!notify(() => observer.next?.(result.value))) {
+                        subscription.unsubscribe();
+                    }
+                }
+            })();
+            return subscription;
+        },
+        '@@observable'() {
+            return observable;
+        },
+    };
+    if (typeof observableKey === 'symbol') {
+        Object.defineProperty(observable, observableKey, { value: () => observable });
+    }
+    return observable;
+}
+
+/**
+ * Calls an observer callback, reporting anything it throws as unhandled rather than to the observer's own `error` callback.
+ *
+ * @returns False if the callback threw.
+ */
+function notify(callback: () => void): boolean {
+    try {
+        callback();
+        return true;
+    } catch (error) {
+        reportUnhandled(error);
+        return false;
+    }
+}
+
+/**
+ * Rethrows an error outside the current call stack, where it reaches the host's uncaught error handling instead of being lost
+ * as an unhandled promise rejection.
+ */
+function reportUnhandled(error: unknown): void {
+    setTimeout(() => {
+        throw error;
+    });
+}
+
+function assertPushBufferOptions(options: PushBufferOptions | undefined): void {
+    const bufferSize = options?.bufferSize ?? Infinity;
+    if (bufferSize !== Infinity && (!Number.isInteger(bufferSize) || bufferSize < 1)) {
+        throw RefinedSetsError.invalidArgument(`Expected 'bufferSize' to be a positive integer or Infinity. Received: ${bufferSize}.`);
+    }
+    const overflow = options?.overflow ?? 'error';
+    if (overflow !== 'drop-oldest' && overflow !== 'drop-newest' && overflow !== 'error') {
+        throw RefinedSetsError.invalidArgument(`Expected 'overflow' to be 'drop-oldest', 'drop-newest' or 'error'. Received: ${String(overflow)}.`);
+    }
+}
+
+function isEventTarget(value: object): value is EventTargetLike {
+    return typeof (value as EventTargetLike).addEventListener === 'function';
+}
+
+function isEventEmitter(value: object): value is EventEmitterLike {
+    return typeof (value as EventEmitterLike).on === 'function' && typeof (value as EventEmitterLike).removeListener === 'function';
+}
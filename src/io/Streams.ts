@@ -0,0 +1,71 @@
+/**
+ * Options for `toReadableStream`.
+ */
+export interface ReadableStreamOptions {
+    /**
+     * Number of elements to buffer before the sequence stops being pulled. Defaults to 1.
+     */
+    highWaterMark?: number;
+}
+
+/**
+ * Creates a WHATWG ReadableStream which pulls from `source` only when its queue is below the high water mark.
+ * Cancelling the stream closes the source iterator.
+ */
+export function toReadableStream<T>(source: AsyncIterable<T>, options?: ReadableStreamOptions): ReadableStream<T> {
+    let iterator: AsyncIterator<T> | undefined;
+    return new ReadableStream<T>(
+        {
+            async pull(controller) {
+                iterator ??= source[Symbol.asyncIterator]();
+                const result = await iterator.next();
+                if (result.done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(result.value);
+                }
+            },
+            async cancel() {
+                await iterator?.return?.();
+            },
+        },
+        { highWaterMark: options?.highWaterMark ?? 1 },
+    );
+}
+
+/**
+ * Reads a WHATWG ReadableStream, cancelling it if iteration stops early.
+ */
+export async function* readReadableStream<T>(stream: ReadableStream<T>): AsyncIterableIterator<T> {
+    const reader = stream.getReader();
+    let done = false;
+    try {
+        while (true) {
+            const result = await reader.read();
+            if (result.done) {
+                done = true;
+                return;
+            }
+            yield result.value;
+        }
+    } finally {
+        if (!done) {
+            // An errored stream rejects the cancellation with the error already being thrown.
+            await reader.cancel().catch(() => undefined);
+        }
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Writes every element of `source` to a Node Writable or WHATWG WritableStream, waiting whenever the destination is full,
+ * then ends the destination. `stream/promises` is only loaded for Node destinations, so this module stays usable in browsers.
+ */
+export async function writeToStream<T>(source: AsyncIterable<T>, destination: NodeJS.WritableStream | WritableStream<T>): Promise<void> {
+    if ('getWriter' in destination) {
+        await toReadableStream(source).pipeTo(destination);
+    } else {
+        const { pipeline } = await import('stream/promises');
+        await pipeline(source, destination);
+    }
+}
@@ -0,0 +1,716 @@
+import { EqualityComparer } from '../collections/Comparers';
+import { KeyEquality, firstOccurrence } from '../collections/HashTable';
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+import { CsvReadOptions, CsvWriteOptions, TextSource, parseCsv, parseNdjson, readLines, serializeCsv, serializeNdjson } from '../io/Codecs';
+import {
+    EventEmitterLike,
+    EventSequenceOptions,
+    EventTargetLike,
+    InteropObservable,
+    ObservableLike,
+    PushBufferOptions,
+    eventReader,
+    observableReader,
+    toObservable,
+} from '../io/Observables';
+import { ReadableStreamOptions, readReadableStream, toReadableStream, writeToStream } from '../io/Streams';
+import { ParallelOptions, WorkerTarget, resolveParallelOptions } from '../workers/ParallelOptions';
+
+type IAsyncLazyIterable<T> = AsyncLazyIterable<T>;
+
+/**
+ * Options controlling how asynchronous callbacks are scheduled by `mapAsync` and `filterAsync`.
+ */
+export interface AsyncConcurrencyOptions {
+    /**
+     * Maximum number of callbacks which may be pending at the same time. Defaults to 1.
+     */
+    concurrency?: number;
+    /**
+     * When true (the default), results are yielded in source order. When false, results are yielded as soon as they settle.
+     */
+    ordered?: boolean;
+}
+
+type Settled<U> = { ok: true; value: U } | { ok: false; error: unknown };
+
+/**
+ * Represents a lazy-evaluated asynchronous sequence.
+ * Provides the same operators as LazyIterable, plus bounded-concurrency `mapAsync` and `filterAsync`.
+ *
+ * @template T Type of elements in the sequence.
+ */
+export abstract class AsyncLazyIterable<T> implements AsyncIterable<T> {
+    //#region Inner Classes
+
+    /**
+     * Concrete implementation backing class for AsyncLazyIterable.
+     */
+    private static AsyncLazyIterableImpl = class AsyncLazyIterableImpl<T> extends AsyncLazyIterable<T> {
+        public constructor(private readonly generator: () => AsyncIterableIterator<T>) {
+            super();
+        }
+        protected getIterator(): AsyncIterator<T> {
+            return this.generator();
+        }
+    };
+
+    //#endregion
+
+    /**
+     * Returns a fresh async iterator over the sequence.
+     *
+     * @returns Async iterator of elements in this sequence.
+     */
+    protected abstract getIterator(): AsyncIterator<T>;
+
+    /**
+     * Convenience method to extend the current sequence with a new async generator.
+     *
+     * @param generator An async generator function that yields elements of type U.
+     * @returns A new IAsyncLazyIterable of type U.
+     */
+    protected extend<U>(generator: (self: IAsyncLazyIterable<T>) => AsyncIterableIterator<U>): IAsyncLazyIterable<U> {
+        return new AsyncLazyIterable.AsyncLazyIterableImpl<U>(() => generator(this));
+    }
+
+    /**
+     * Returns a new async iterator for this sequence.
+     * This method is used to implement the async iterable protocol.
+     *
+     * @returns An async iterator that can be used to iterate over the elements.
+     */
+    public [Symbol.asyncIterator](): AsyncIterator<T> {
+        return this.getIterator();
+    }
+
+    //#region Array-like Methods
+
+    /**
+     * Projects each element of the sequence into a new form.
+     *
+     * @template U Type of elements in the result sequence.
+     * @param mapper Function to transform each element.
+     * @returns A new IAsyncLazyIterable of type U.
+     */
+    public map<U>(mapper: (item: T, index: number) => U): IAsyncLazyIterable<U> {
+        return this.extend(async function* genMap(self) {
+            let index = 0;
+            for await (const x of self) {
+                yield mapper(x, index++);
+            }
+        });
+    }
+
+    /**
+     * Returns the elements of the sequence that meet the condition specified in a callback function.
+     *
+     * @param predicate A function that accepts up to two arguments, called once for each element.
+     * @returns A new IAsyncLazyIterable containing only elements that satisfy predicate.
+     */
+    public filter(predicate: (item: T, index: number) => boolean): IAsyncLazyIterable<T> {
+        return this.extend(async function* genFilter(self) {
+            let index = 0;
+            for await (const x of self) {
+                if (predicate(x, index++)) {
+                    yield x;
+                }
+            }
+        });
+    }
+
+    /**
+     * Projects each element into a sync or async iterable and flattens the resulting sequences.
+     *
+     * @template U Type of elements in the flattened sequence.
+     * @param mapper A function that accepts up to two arguments, called once for each element.
+     * @returns A new IAsyncLazyIterable containing all values from the iterables returned by mapper.
+     */
+    public flatMap<U>(mapper: (item: T, index: number) => Iterable<U> | AsyncIterable<U>): IAsyncLazyIterable<U> {
+        return this.extend(async function* genFlatMap(self) {
+            let index = 0;
+            for await (const x of self) {
+                for await (const y of mapper(x, index++)) {
+                    yield y;
+                }
+            }
+        });
+    }
+
+    /**
+     * Projects each element through an asynchronous mapper, keeping at most `concurrency` mapper calls pending at once.
+     * The source is pulled only as fast as mapper slots become free.
+     *
+     * @template U Type of elements in the result sequence.
+     * @param mapper Function to transform each element, may return a promise.
+     * @param options Concurrency limit and output ordering.
+     * @returns A new IAsyncLazyIterable of type U.
+     */
+    public mapAsync<U>(mapper: (item: T, index: number) => U | PromiseLike<U>, options?: AsyncConcurrencyOptions): IAsyncLazyIterable<U> {
+        const { concurrency, ordered } = AsyncLazyIterable.resolveConcurrencyOptions(options);
+        return this.extend(async function* genMapAsync(self) {
+            const results = ordered ? AsyncLazyIterable.runOrdered(self, mapper, concurrency) : AsyncLazyIterable.runUnordered(self, mapper, concurrency);
+            for await (const result of results) {
+                yield result;
+            }
+        });
+    }
+
+    /**
+     * Returns the elements which satisfy an asynchronous predicate, keeping at most `concurrency` predicate calls pending at once.
+     *
+     * @param predicate Function to test each element, may return a promise.
+     * @param options Concurrency limit and output ordering.
+     * @returns A new IAsyncLazyIterable containing only elements that satisfy predicate.
+     */
+    public filterAsync(predicate: (item: T, index: number) => boolean | PromiseLike<boolean>, options?: AsyncConcurrencyOptions): IAsyncLazyIterable<T> {
+        const { concurrency, ordered } = AsyncLazyIterable.resolveConcurrencyOptions(options);
+        const test = async (item: T, index: number): Promise<[T, boolean]> => [item, await predicate(item, index)];
+        return this.extend(async function* genFilterAsync(self) {
+            const results = ordered ? AsyncLazyIterable.runOrdered(self, test, concurrency) : AsyncLazyIterable.runUnordered(self, test, concurrency);
+            for await (const [item, keep] of results) {
+                if (keep) {
+                    yield item;
+                }
+            }
+        });
+    }
+
+    /**
+     * Projects each element on a pool of worker threads, for CPU-bound work which would otherwise hold up the event loop.
+     * Elements are sent to the workers in batches, and the source is pulled only while fewer than `workers` batches are pending,
+     * so the input is never buffered as a whole. Elements and results are copied between threads, so both must be structured-cloneable.
+     * A function target is sent to the workers as source text, so it cannot use variables from its enclosing scope; use a module
+     * path for anything which needs imports. A callback error raises a `callback-error` RefinedSetsError with the index of the
+     * element, and a worker crash a `worker-error` RefinedSetsError without an index. The workers are stopped when enumeration ends.
+     *
+     * @template U Type of elements in the result sequence.
+     * @param target The path of a module exporting the mapper, or a self-contained mapper function, which may be async.
+     * @param options (optional) Number of workers, batch size and output ordering.
+     * @returns A new IAsyncLazyIterable of type U.
+     */
+    public parallelMap<U>(target: WorkerTarget<T, U>, options?: ParallelOptions): IAsyncLazyIterable<U> {
+        const { workers: requested, batchSize, ordered } = resolveParallelOptions(options);
+        return this.extend(async function* genParallelMap(self) {
+            // worker_threads is only loaded once a parallel sequence runs, so the rest of the library works outside Node.
+            const { WorkerPool, defaultWorkerCount } = await import('../workers/WorkerPool');
+            const workers = requested ?? defaultWorkerCount();
+            const pool = new WorkerPool<T, U>('parallelMap', target, workers);
+            try {
+                const batches = AsyncLazyIterable.from(AsyncLazyIterable.batch(self, batchSize)).mapAsync(
+                    (batch, index) => pool.run(batch, index * batchSize),
+                    {
+                        concurrency: workers,
+                        ordered,
+                    },
+                );
+                for await (const results of batches) {
+                    yield* results;
+                }
+            } finally {
+                await pool.terminate();
+            }
+        });
+    }
+
+    /**
+     * Returns the elements which satisfy a predicate run on a pool of worker threads. Batching, ordering, backpressure and errors
+     * work as for `parallelMap`; only the predicate's results are sent back, and the elements themselves are kept on this thread.
+     *
+     * @param target The path of a module exporting the predicate, or a self-contained predicate function, which may be async.
+     * @param options (optional) Number of workers, batch size and output ordering.
+     * @returns A new IAsyncLazyIterable containing only elements that satisfy the predicate.
+     */
+    public parallelFilter(target: WorkerTarget<T, boolean>, options?: ParallelOptions): IAsyncLazyIterable<T> {
+        const { workers: requested, batchSize, ordered } = resolveParallelOptions(options);
+        return this.extend(async function* genParallelFilter(self) {
+            const { WorkerPool, defaultWorkerCount } = await import('../workers/WorkerPool');
+            const workers = requested ?? defaultWorkerCount();
+            const pool = new WorkerPool<T, boolean>('parallelFilter', target, workers);
+            const test = async (batch: T[], index: number): Promise<[T[], boolean[]]> => [batch, await pool.run(batch, index * batchSize)];
+            try {
+                const batches = AsyncLazyIterable.from(AsyncLazyIterable.batch(self, batchSize)).mapAsync(test, { concurrency: workers, ordered });
+                for await (const [batch, keep] of batches) {
+                    for (let i = 0; i < batch.length; i++) {
+                        if (keep[i]) {
+                            yield batch[i];
+                        }
+                    }
+                }
+            } finally {
+                await pool.terminate();
+            }
+        });
+    }
+
+    /**
+     * Invokes a side-effecting callback for each element in the sequence.
+     * Enumeration occurs immediately when this method is called.
+     *
+     * @param callback Function to execute for each element.
+     * @returns A promise which resolves once every element has been visited.
+     */
+    public async forEach(callback: (item: T, index: number) => void): Promise<void> {
+        let index = 0;
+        for await (const x of this) {
+            callback(x, index++);
+        }
+    }
+
+    /**
+     * Accumulates the elements of the sequence into a single value.
+     *
+     * @param reducer A function called once for each element with the accumulated value.
+     * @param initial The initial value to start the accumulation.
+     * @returns A promise for the final accumulated value.
+     */
+    public async reduce<U>(reducer: (accumulator: U, item: T, index: number) => U, initial: U): Promise<U> {
+        let result = initial;
+        let index = 0;
+        for await (const x of this) {
+            result = reducer(result, x, index++);
+        }
+        return result;
+    }
+
+    //#endregion
+
+    //#region Extended Iterable Methods
+
+    /**
+     * Returns a sequence containing only the first `count` elements.
+     *
+     * @param count Number of elements to take.
+     * @returns A new IAsyncLazyIterable containing up to `count` elements from the start.
+     */
+    public take(count: number): IAsyncLazyIterable<T> {
+        return this.extend(async function* genTake(self) {
+            let taken = 0;
+            if (count <= 0) {
+                return;
+            }
+            for await (const x of self) {
+                yield x;
+                taken += 1;
+                if (taken >= count) {
+                    break;
+                }
+            }
+        });
+    }
+
+    /**
+     * Skips the first `count` elements and returns the remainder of the sequence.
+     *
+     * @param count Number of elements to skip.
+     * @returns A new IAsyncLazyIterable starting after the first `count` elements.
+     */
+    public skip(count: number): IAsyncLazyIterable<T> {
+        return this.extend(async function* genSkip(self) {
+            let skipped = 0;
+            for await (const x of self) {
+                if (skipped < count) {
+                    skipped += 1;
+                    continue;
+                }
+                yield x;
+            }
+        });
+    }
+
+    /**
+     * Yields the first of each group of equal elements.
+     * Elements are compared with SameValueZero, with an equality comparer, or by the key a function returns for them; array keys
+     * are compared element-wise.
+     *
+     * @param equality (optional) Equality comparer for the elements, or a function returning the key to compare by.
+     * @returns A new IAsyncLazyIterable containing the distinct elements.
+     */
+    public distinct(equality?: EqualityComparer<T> | ((item: T) => unknown)): IAsyncLazyIterable<T> {
+        // Keys returned by a function are normalized so that arrays compare element-wise, while the elements themselves keep SameValueZero.
+        const keyEquality: KeyEquality<T> = typeof equality === 'function' ? { hash: equality } : (equality ?? EqualityComparer.default);
+        return this.extend(async function* genDistinct(self) {
+            const isFirst = firstOccurrence(keyEquality);
+            for await (const x of self) {
+                if (isFirst(x)) {
+                    yield x;
+                }
+            }
+        });
+    }
+
+    /**
+     * Yields the first element for each distinct key.
+     *
+     * @template K Type of the keys.
+     * @param keySelector Function returning the key for each element.
+     * @param comparer (optional) Equality comparer for the keys, defaults to SameValueZero with array keys compared element-wise.
+     * @returns A new IAsyncLazyIterable containing the first element for each distinct key.
+     */
+    public distinctBy<K>(keySelector: (item: T) => K, comparer?: EqualityComparer<K>): IAsyncLazyIterable<T> {
+        return this.extend(async function* genDistinctBy(self) {
+            const isFirst = firstOccurrence(comparer);
+            for await (const x of self) {
+                if (isFirst(keySelector(x))) {
+                    yield x;
+                }
+            }
+        });
+    }
+
+    /**
+     * Returns the number of elements in the sequence.
+     *
+     * @returns A promise for the count of elements in this sequence.
+     */
+    public async count(): Promise<number> {
+        const iterator = this[Symbol.asyncIterator]();
+        let count = 0;
+        while (!(await iterator.next()).done) {
+            count += 1;
+        }
+        return count;
+    }
+
+    /**
+     * Returns the first element in the sequence, or undefined if the sequence is empty.
+     *
+     * @returns A promise for the first element, or undefined if the sequence is empty.
+     */
+    public async first(): Promise<T | undefined> {
+        for await (const x of this) {
+            return x;
+        }
+    }
+
+    /**
+     * Returns the last element in the sequence, or undefined if the sequence is empty.
+     *
+     * @returns A promise for the last element, or undefined if the sequence is empty.
+     */
+    public async last(): Promise<T | undefined> {
+        let last: T | undefined;
+        for await (const x of this) {
+            last = x;
+        }
+        return last;
+    }
+
+    //#endregion
+
+    //#region Construct and Convert
+
+    /**
+     * Collects all elements into an array.
+     * Enumeration occurs immediately when this method is called.
+     *
+     * @returns A promise for an array containing all elements from this sequence.
+     */
+    public async toArray(): Promise<T[]> {
+        const result: T[] = [];
+        for await (const x of this) {
+            result.push(x);
+        }
+        return result;
+    }
+
+    /**
+     * Creates a new IAsyncLazyIterable from a sync or async iterable.
+     *
+     * @template U Type of elements in the iterable.
+     * @param iterable An iterable or async iterable to convert into an IAsyncLazyIterable.
+     * @returns A new IAsyncLazyIterable containing the elements from the iterable.
+     */
+    public static from<U>(iterable: Iterable<U> | AsyncIterable<U>): IAsyncLazyIterable<U> {
+        return new AsyncLazyIterable.AsyncLazyIterableImpl<U>(async function* genFrom() {
+            for await (const item of iterable) {
+                yield item;
+            }
+        });
+    }
+
+    /**
+     * Creates an empty IAsyncLazyIterable.
+     *
+     * @template T Type of elements in the sequence.
+     * @returns An empty IAsyncLazyIterable of type T.
+     */
+    public static empty<T>(): IAsyncLazyIterable<T> {
+        return new AsyncLazyIterable.AsyncLazyIterableImpl<T>(async function* genEmpty() {});
+    }
+
+    //#endregion
+
+    //#region Streams and Codecs
+
+    /**
+     * Creates a WHATWG ReadableStream which yields the elements of this sequence.
+     * The sequence is only pulled while the stream's queue is below its high water mark, and cancelling the stream closes the sequence.
+     *
+     * @param options (optional) Buffer size of the stream.
+     * @returns A ReadableStream over this sequence.
+     */
+    public toReadableStream(options?: ReadableStreamOptions): ReadableStream<T> {
+        return toReadableStream(this, options);
+    }
+
+    /**
+     * Writes every element to a Node Writable or WHATWG WritableStream, then ends it.
+     * Writing pauses whenever the destination signals that it is full.
+     *
+     * @param destination The stream to write to.
+     * @returns A promise which resolves once the destination has finished, or rejects if either side fails.
+     */
+    public writeTo(destination: NodeJS.WritableStream | WritableStream<T>): Promise<void> {
+        return writeToStream(this, destination);
+    }
+
+    /**
+     * Serializes each element as a line of newline-delimited JSON.
+     *
+     * @returns A new IAsyncLazyIterable of lines, each ending in `\n`.
+     */
+    public toNdjson(): IAsyncLazyIterable<string> {
+        return this.extend((self) => serializeNdjson(self));
+    }
+
+    /**
+     * Serializes each element, an array of fields or an object keyed by column, as a line of CSV.
+     *
+     * @param options (optional) Delimiter, columns and whether to write a header line.
+     * @returns A new IAsyncLazyIterable of lines, each ending in `\n`.
+     */
+    public toCsv(this: AsyncLazyIterable<object>, options?: CsvWriteOptions): IAsyncLazyIterable<string> {
+        return this.extend((self) => serializeCsv(self, options));
+    }
+
+    /**
+     * Creates a new IAsyncLazyIterable which reads a WHATWG ReadableStream.
+     * The stream is locked while it is being read, and cancelled if iteration stops early.
+     * Node Readables are async iterables already, so they can be passed to `from`.
+     *
+     * @template U Type of chunks in the stream.
+     * @param stream The stream to read.
+     * @returns A new IAsyncLazyIterable containing the chunks of the stream.
+     */
+    public static fromReadableStream<U>(stream: ReadableStream<U>): IAsyncLazyIterable<U> {
+        return new AsyncLazyIterable.AsyncLazyIterableImpl(() => readReadableStream(stream));
+    }
+
+    /**
+     * Creates a new IAsyncLazyIterable which splits chunks of text into lines, without their `\n` or `\r\n` terminators.
+     * Like any sequence over a stream, it can only be enumerated once when the source is a stream.
+     *
+     * @param source Chunks of text or UTF-8 bytes, such as a Node Readable.
+     * @returns A new IAsyncLazyIterable containing each line.
+     */
+    public static fromLines(source: TextSource): IAsyncLazyIterable<string> {
+        return new AsyncLazyIterable.AsyncLazyIterableImpl(() => readLines(source));
+    }
+
+    /**
+     * Creates a new IAsyncLazyIterable which parses newline-delimited JSON. Blank lines are skipped, and a line which is not valid
+     * JSON fails the sequence with a RefinedSetsError naming the line.
+     *
+     * @template U Type of the parsed values.
+     * @param source Chunks of text or UTF-8 bytes, such as a Node Readable.
+     * @returns A new IAsyncLazyIterable containing the value of each line.
+     */
+    public static fromNdjson<U = unknown>(source: TextSource): IAsyncLazyIterable<U> {
+        return new AsyncLazyIterable.AsyncLazyIterableImpl(() => parseNdjson<U>(readLines(source)));
+    }
+
+    /**
+     * Creates a new IAsyncLazyIterable which parses CSV. By default the first record names the columns and each later record is
+     * yielded as an object. Malformed quoting, or a record whose field count differs from the header, fails the sequence with a
+     * RefinedSetsError naming the line.
+     *
+     * @param source Chunks of text or UTF-8 bytes, such as a Node Readable.
+     * @param options (optional) Delimiter and header handling.
+     * @returns A new IAsyncLazyIterable containing each record.
+     */
+    public static fromCsv(source: TextSource, options: CsvReadOptions & { headers: false }): IAsyncLazyIterable<string[]>;
+    public static fromCsv(source: TextSource, options?: CsvReadOptions & { headers?: true | readonly string[] }): IAsyncLazyIterable<Record<string, string>>;
+    public static fromCsv(source: TextSource, options?: CsvReadOptions): IAsyncLazyIterable<string[] | Record<string, string>> {
+        return new AsyncLazyIterable.AsyncLazyIterableImpl(() => parseCsv(readLines(source), options));
+    }
+
+    //#endregion
+
+    //#region Observables
+
+    /**
+     * Creates an observable which iterates this sequence for each subscriber and pushes each element as it is read.
+     * It implements the `subscribe` and `Symbol.observable` interop protocol, so observable libraries can adopt it directly.
+     * Unsubscribing, or an observer callback which throws, stops the iteration. Errors thrown by the observer, and source errors
+     * when the observer has no `error` callback, are rethrown asynchronously as unhandled errors.
+     *
+     * @returns An observable of the elements of this sequence.
+     */
+    public toObservable(): InteropObservable<T> {
+        return toObservable(this);
+    }
+
+    /**
+     * Creates a new IAsyncLazyIterable of the events an emitter raises. Listeners are added when iteration starts and removed
+     * when it ends. Events raised faster than they are read wait in a buffer, which by default is unbounded.
+     * A Node EventEmitter yields the first argument of each event, and its `error` event fails the sequence; a DOM event target
+     * yields the event objects.
+     *
+     * @template U Type of the events.
+     * @param emitter A Node EventEmitter or DOM EventTarget.
+     * @param event The name of the event to read.
+     * @param options (optional) When the sequence ends, and how events are buffered.
+     * @returns A new IAsyncLazyIterable of events.
+     */
+    public static fromEvents<U = unknown>(
+        emitter: EventEmitterLike | EventTargetLike,
+        event: string | symbol,
+        options?: EventSequenceOptions,
+    ): IAsyncLazyIterable<U> {
+        return new AsyncLazyIterable.AsyncLazyIterableImpl<U>(eventReader<U>(emitter, event, options));
+    }
+
+    /**
+     * Creates a new IAsyncLazyIterable of the values an observable emits, subscribing when iteration starts and unsubscribing
+     * when it ends. Completion ends the sequence and an error notification fails it. Values emitted faster than they are read
+     * wait in a buffer, which by default is unbounded.
+     *
+     * @template U Type of the values.
+     * @param observable An observable, or an object exposing one through `Symbol.observable`.
+     * @param options (optional) How values are buffered.
+     * @returns A new IAsyncLazyIterable of the emitted values.
+     */
+    public static fromObservable<U>(observable: ObservableLike<U> | InteropObservable<U>, options?: PushBufferOptions): IAsyncLazyIterable<U> {
+        return new AsyncLazyIterable.AsyncLazyIterableImpl<U>(observableReader(observable, options));
+    }
+
+    //#endregion
+
+    //#region Concurrency Helpers
+
+    private static resolveConcurrencyOptions(options?: AsyncConcurrencyOptions): Required<AsyncConcurrencyOptions> {
+        const concurrency = options?.concurrency ?? 1;
+        if (concurrency !== Infinity && (!Number.isInteger(concurrency) || concurrency < 1)) {
+            throw RefinedSetsError.invalidArgument(`Expected 'concurrency' to be a positive integer or Infinity. Received: ${concurrency}.`);
+        }
+        return { concurrency, ordered: options?.ordered ?? true };
+    }
+
+    /**
+     * Groups the source into arrays of `size` elements, pulling the next element only when the current batch has room.
+     */
+    private static async *batch<T>(source: AsyncIterable<T>, size: number): AsyncIterableIterator<T[]> {
+        let batch: T[] = [];
+        for await (const x of source) {
+            batch.push(x);
+            if (batch.length === size) {
+                yield batch;
+                batch = [];
+            }
+        }
+        if (batch.length > 0) {
+            yield batch;
+        }
+    }
+
+    private static settle<U>(value: U | PromiseLike<U>): Promise<Settled<U>> {
+        return Promise.resolve(value).then(
+            (value): Settled<U> => ({ ok: true, value }),
+            (error): Settled<U> => ({ ok: false, error }),
+        );
+    }
+
+    private static invoke<T, U>(callback: (item: T, index: number) => U | PromiseLike<U>, item: T, index: number): Promise<Settled<U>> {
+        try {
+            return AsyncLazyIterable.settle(callback(item, index));
+        } catch (error) {
+            return Promise.resolve({ ok: false, error });
+        }
+    }
+
+    /**
+     * Runs callback over the source with at most `concurrency` pending results, yielding in source order.
+     * Completed results which are waiting on an earlier element still occupy a slot, so the buffer never exceeds `concurrency`.
+     */
+    private static async *runOrdered<T, U>(
+        source: AsyncIterable<T>,
+        callback: (item: T, index: number) => U | PromiseLike<U>,
+        concurrency: number,
+    ): AsyncIterableIterator<U> {
+        const iterator = source[Symbol.asyncIterator]();
+        const pending: Promise<Settled<U>>[] = [];
+        let index = 0;
+        let done = false;
+        try {
+            while (true) {
+                while (!done && pending.length < concurrency) {
+                    const next = await iterator.next();
+                    if (next.done) {
+                        done = true;
+                    } else {
+                        pending.push(AsyncLazyIterable.invoke(callback, next.value, index++));
+                    }
+                }
+                const head = pending.shift();
+                if (!head) {
+                    return;
+                }
+                const result = await head;
+                if (!result.ok) {
+                    throw result.error;
+                }
+                yield result.value;
+            }
+        } finally {
+            if (!done) {
+                await iterator.return?.();
+            }
+        }
+    }
+
+    /**
+     * Runs callback over the source with at most `concurrency` pending results, yielding each result as soon as it settles.
+     */
+    private static async *runUnordered<T, U>(
+        source: AsyncIterable<T>,
+        callback: (item: T, index: number) => U | PromiseLike<U>,
+        concurrency: number,
+    ): AsyncIterableIterator<U> {
+        const iterator = source[Symbol.asyncIterator]();
+        const pending = new Map<number, Promise<[number, Settled<U>]>>();
+        let index = 0;
+        let done = false;
+        try {
+            while (true) {
+                while (!done && pending.size < concurrency) {
+                    const next = await iterator.next();
+                    if (next.done) {
+                        done = true;
+                    } else {
+                        const id = index++;
+                        pending.set(
+                            id,
+                            AsyncLazyIterable.invoke(callback, next.value, id).then((result): [number, Settled<U>] => [id, result]),
+                        );
+                    }
+                }
+                if (pending.size === 0) {
+                    return;
+                }
+                const [id, result] = await Promise.race(pending.values());
+                pending.delete(id);
+                if (!result.ok) {
+                    throw result.error;
+                }
+                yield result.value;
+            }
+        } finally {
+            if (!done) {
+                await iterator.return?.();
+            }
+        }
+    }
+
+    //#endregion
+}
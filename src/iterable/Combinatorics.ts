@@ -0,0 +1,250 @@
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+/**
+ * The index tuples of a combinatorial sequence, in lexicographic order.
+ * Tuples can be enumerated in order with `first` and `next`, or read at any position with `unrank`.
+ */
+export interface IndexSpace {
+    /** The exact number of tuples. */
+    readonly size: bigint;
+    /** Returns the first tuple, or undefined if there are none. */
+    first(): number[] | undefined;
+    /** Advances `indices` to the next tuple in place, returning false if it was the last. */
+    next(indices: number[]): boolean;
+    /** Returns the tuple at position `rank`, which must be less than `size`. */
+    unrank(rank: bigint): number[];
+}
+
+export function assertCount(name: string, value: number): void {
+    if (!Number.isInteger(value) || value < 0) {
+        throw RefinedSetsError.invalidArgument(`Expected '${name}' to be a non-negative integer. Received: ${value}.`);
+    }
+}
+
+/**
+ * The number of ways to choose `k` of `n` items, ignoring order.
+ */
+function binomial(n: number, k: number): bigint {
+    if (k < 0 || k > n) {
+        return ZERO;
+    }
+    k = Math.min(k, n - k);
+    let result = ONE;
+    for (let i = 0; i < k; i++) {
+        // Each partial result is itself a binomial coefficient, so the division is exact.
+        result = (result * BigInt(n - i)) / BigInt(i + 1);
+    }
+    return result;
+}
+
+/**
+ * The number of ways to arrange `k` of `n` items in order, n! / (n - k)!.
+ */
+function fallingFactorial(n: number, k: number): bigint {
+    if (k > n) {
+        return ZERO;
+    }
+    let result = ONE;
+    for (let i = 0; i < k; i++) {
+        result *= BigInt(n - i);
+    }
+    return result;
+}
+
+/**
+ * The number of multisets of size `k` drawn from `n` items.
+ */
+function multichoose(n: number, k: number): bigint {
+    return n === 0 ? (k === 0 ? ONE : ZERO) : binomial(n + k - 1, k);
+}
+
+function ascending(k: number): number[] {
+    return Array.from({ length: k }, (_, i) => i);
+}
+
+/**
+ * Strictly increasing (or, with repetition, non-decreasing) `k`-tuples of indices below `n`.
+ */
+export function combinationSpace(n: number, k: number, repetition: boolean): IndexSpace {
+    const size = repetition ? multichoose(n, k) : binomial(n, k);
+    return {
+        size,
+        first: () => (size === ZERO ? undefined : repetition ? new Array<number>(k).fill(0) : ascending(k)),
+        next(indices) {
+            let i = k - 1;
+            while (i >= 0 && indices[i] === (repetition ? n - 1 : n - k + i)) {
+                i--;
+            }
+            if (i < 0) {
+                return false;
+            }
+            indices[i]++;
+            for (let j = i + 1; j < k; j++) {
+                indices[j] = repetition ? indices[i] : indices[j - 1] + 1;
+            }
+            return true;
+        },
+        unrank(rank) {
+            const result: number[] = [];
+            let c = 0;
+            for (let slot = 0; slot < k; slot++) {
+                const remaining = k - slot - 1;
+                while (true) {
+                    // Tuples which put index c in this slot, given the slots filled so far.
+                    const block = repetition ? multichoose(n - c, remaining) : binomial(n - c - 1, remaining);
+                    if (rank < block) {
+                        break;
+                    }
+                    rank -= block;
+                    c++;
+                }
+                result.push(repetition ? c : c++);
+            }
+            return result;
+        },
+    };
+}
+
+/**
+ * `k`-tuples of distinct (or, with repetition, any) indices below `n`.
+ */
+export function permutationSpace(n: number, k: number, repetition: boolean): IndexSpace {
+    const size = repetition ? BigInt(n) ** BigInt(k) : fallingFactorial(n, k);
+    return {
+        size,
+        first: () => (size === ZERO ? undefined : repetition ? new Array<number>(k).fill(0) : ascending(k)),
+        next(indices) {
+            if (repetition) {
+                let i = k - 1;
+                while (i >= 0 && indices[i] === n - 1) {
+                    indices[i--] = 0;
+                }
+                if (i < 0) {
+                    return false;
+                }
+                indices[i]++;
+                return true;
+            }
+            const used = new Array<boolean>(n).fill(false);
+            for (const index of indices) {
+                used[index] = true;
+            }
+            for (let i = k - 1; i >= 0; i--) {
+                used[indices[i]] = false;
+                let candidate = indices[i] + 1;
+                while (candidate < n && used[candidate]) {
+                    candidate++;
+                }
+                if (candidate < n) {
+                    indices[i] = candidate;
+                    used[candidate] = true;
+                    for (let j = i + 1, free = 0; j < k; j++, free++) {
+                        while (used[free]) {
+                            free++;
+                        }
+                        indices[j] = free;
+                        used[free] = true;
+                    }
+                    return true;
+                }
+            }
+            return false;
+        },
+        unrank(rank) {
+            const result: number[] = [];
+            if (repetition) {
+                for (let slot = k - 1; slot >= 0; slot--) {
+                    result[slot] = Number(rank % BigInt(n));
+                    rank /= BigInt(n);
+                }
+                return result;
+            }
+            const pool = ascending(n);
+            for (let slot = 0; slot < k; slot++) {
+                const block = fallingFactorial(n - slot - 1, k - slot - 1);
+                result.push(pool.splice(Number(rank / block), 1)[0]);
+                rank %= block;
+            }
+            return result;
+        },
+    };
+}
+
+/**
+ * Strictly increasing tuples of indices below `n`, of every length from 0 to `n`.
+ */
+export function powerSetSpace(n: number): IndexSpace {
+    return {
+        size: ONE << BigInt(n),
+        first: () => [],
+        next(indices) {
+            const last = indices.length - 1;
+            if (last < 0) {
+                if (n === 0) {
+                    return false;
+                }
+                indices.push(0);
+            } else if (indices[last] < n - 1) {
+                indices.push(indices[last] + 1);
+            } else {
+                indices.pop();
+                if (last === 0) {
+                    return false;
+                }
+                indices[last - 1]++;
+            }
+            return true;
+        },
+        unrank(rank) {
+            const result: number[] = [];
+            let start = 0;
+            while (rank > ZERO) {
+                // Skip the subset which ends with the current prefix, then the subsets which continue with each smaller index.
+                rank -= ONE;
+                for (let c = start; ; c++) {
+                    const block = ONE << BigInt(n - c - 1);
+                    if (rank < block) {
+                        result.push(c);
+                        start = c + 1;
+                        break;
+                    }
+                    rank -= block;
+                }
+            }
+            return result;
+        },
+    };
+}
+
+/**
+ * Tuples holding one index below `sizes[i]` at each position `i`.
+ */
+export function productSpace(sizes: readonly number[]): IndexSpace {
+    const size = sizes.reduce((total, n) => total * BigInt(n), ONE);
+    return {
+        size,
+        first: () => (size === ZERO ? undefined : new Array<number>(sizes.length).fill(0)),
+        next(indices) {
+            let i = sizes.length - 1;
+            while (i >= 0 && indices[i] === sizes[i] - 1) {
+                indices[i--] = 0;
+            }
+            if (i < 0) {
+                return false;
+            }
+            indices[i]++;
+            return true;
+        },
+        unrank(rank) {
+            const result: number[] = [];
+            for (let slot = sizes.length - 1; slot >= 0; slot--) {
+                result[slot] = Number(rank % BigInt(sizes[slot]));
+                rank /= BigInt(sizes[slot]);
+            }
+            return result;
+        },
+    };
+}
@@ -1,7 +1,318 @@
 import { RefinedSetsError } from '../errors/RefinedSetsError';
+import { AsyncLazyIterable } from './AsyncLazyIterable';
+import { RefinedSet, RefinedSetEquality } from '../collections/RefinedSet';
+import { Comparator } from '../collections/AvlTree';
+import { Comparer, EqualityComparer, toComparator } from '../collections/Comparers';
+import { HashTable, KeyEquality, firstOccurrence } from '../collections/HashTable';
+import { Lookup } from '../collections/Lookup';
+import { BitSet } from '../collections/BitSet';
+import { ImmutableMap } from '../collections/ImmutableMap';
+import { ImmutableSet } from '../collections/ImmutableSet';
+import { toCompositeKey } from '../collections/CompositeKey';
+import { IndexSpace, assertCount, combinationSpace, permutationSpace, powerSetSpace, productSpace } from './Combinatorics';
+import type { EventEmitterLike, EventSequenceOptions, EventTargetLike, InteropObservable, ObservableLike, PushBufferOptions } from '../io/Observables';
+import type { ParallelOptions, WorkerTarget } from '../workers/ParallelOptions';
+import { OperatorNode, SKIP, SourceInfo, Stage, compileStages, formatArguments } from './OperatorChain';
 
 interface ILazyIterable<T> extends LazyIterable<T> {}
 
+/**
+ * A sequence of elements which share a common key, produced by groupBy.
+ *
+ * @template K Type of the key.
+ * @template T Type of elements in the group.
+ */
+export interface Grouping<K, T> extends LazyIterable<T> {
+    readonly key: K;
+}
+
+/**
+ * How `toMap` handles an element whose key is already in the map.
+ * `throw` raises a RefinedSetsError, `first` keeps the existing value and `last` replaces it.
+ */
+export type DuplicateKeyPolicy = 'throw' | 'first' | 'last';
+
+/**
+ * Element types the numeric aggregations work on.
+ */
+export type Numeric = number | bigint;
+
+/**
+ * How an aggregation treats an empty sequence: return undefined, or throw a `sequence-empty` RefinedSetsError.
+ */
+export type EmptyPolicy = 'undefined' | 'throw';
+
+type EmptyResult<R, E extends EmptyPolicy> = E extends 'throw' ? R : R | undefined;
+
+/**
+ * Typed arrays whose elements are numbers.
+ */
+export type NumericTypedArray = Int8Array | Uint8Array | Uint8ClampedArray | Int16Array | Uint16Array | Int32Array | Uint32Array | Float32Array | Float64Array;
+
+/**
+ * Typed arrays whose elements are bigints.
+ */
+export type BigIntTypedArray = BigInt64Array | BigUint64Array;
+
+/**
+ * The parts of a typed array used while filling it, independent of its element type.
+ */
+interface TypedArrayBuffer<T> {
+    readonly length: number;
+    [index: number]: T;
+    set(array: ArrayLike<T>): void;
+    slice(start: number, end: number): TypedArrayBuffer<T>;
+}
+
+/**
+ * Options for the combinatorial operators.
+ */
+export interface CombinatoricsOptions {
+    /** Whether an element may be chosen more than once, defaults to false. */
+    repetition?: boolean;
+}
+
+/**
+ * Order in which `LazyIterable.traverse` visits nodes: breadth-first, or depth-first with parents before (pre-order) or after
+ * (post-order) their descendants.
+ */
+export type TraversalOrder = 'bfs' | 'dfs-pre' | 'dfs-post';
+
+/**
+ * Options for `LazyIterable.traverse`.
+ */
+export interface TraversalOptions<N> {
+    /** Order in which to visit nodes, defaults to `dfs-pre`. */
+    order?: TraversalOrder;
+    /**
+     * Identifies nodes for cycle detection. When given, a node whose key has already been seen is skipped, so each node of a
+     * graph is visited once; array keys are compared element-wise. When omitted, a cyclic graph is traversed forever.
+     */
+    key?: (node: N) => unknown;
+}
+
+/**
+ * A node visited by `LazyIterable.traverse`.
+ */
+export interface TraversalNode<N> {
+    readonly node: N;
+    /** Distance from the root, which has depth 0. */
+    readonly depth: number;
+    /** The nodes from the root to this node, inclusive. */
+    readonly path: readonly N[];
+}
+
+/**
+ * Summary statistics computed in a single pass by `LazyIterable.stats`.
+ */
+export interface SequenceStats {
+    readonly count: number;
+    readonly mean: number;
+    /** Population variance. */
+    readonly variance: number;
+    /** Population standard deviation. */
+    readonly stddev: number;
+    /** Sample variance, with Bessel's correction; NaN for a single element. */
+    readonly sampleVariance: number;
+    /** Sample standard deviation; NaN for a single element. */
+    readonly sampleStddev: number;
+}
+
+/**
+ * Measurements of one operator in an instrumented chain.
+ */
+export interface StageReport {
+    /** Name of the operator, such as `genMap`. */
+    readonly name: string;
+    /** The operator's arguments, formatted as by explain. */
+    readonly args: string;
+    /** Number of elements the operator pulled from its source; zero for the sequence the chain starts from. */
+    readonly pulled: number;
+    /** Number of elements the operator yielded. */
+    readonly yielded: number;
+    /** Milliseconds spent in the operator itself, excluding the operators before it. */
+    readonly time: number;
+}
+
+/**
+ * Measurements collected by an instrumented sequence over every iteration so far.
+ */
+export interface InstrumentationReport {
+    /** One entry per operator, from the start of the chain to its end. */
+    readonly stages: readonly StageReport[];
+    /** Milliseconds spent in the whole chain. */
+    readonly time: number;
+}
+
+/**
+ * A sequence returned by `LazyIterable.instrument`, which measures each operator of its chain.
+ */
+export interface InstrumentedLazyIterable<T> extends LazyIterable<T> {
+    report(): InstrumentationReport;
+}
+
+interface ProbeStats {
+    yielded: number;
+    time: number;
+}
+
+interface StageProbe {
+    readonly node: OperatorNode;
+    readonly stats: ProbeStats;
+    readonly upstream?: ProbeStats;
+}
+
+interface SortKey<T> {
+    selector: (item: T) => unknown;
+    comparer: Comparator<unknown>;
+    descending: boolean;
+}
+
+interface SortEntry<T> {
+    item: T;
+    index: number;
+    keys: unknown[];
+}
+
+/**
+ * A sequence whose order has been set by orderBy or orderByDescending, which can be refined with further sort keys.
+ *
+ * @template T Type of elements in the sequence.
+ */
+export interface IOrderedLazyIterable<T> extends LazyIterable<T> {
+    /**
+     * Performs a subsequent ascending ordering of elements which are equal by all previous sort keys.
+     *
+     * @param keySelector Function returning the key to sort by.
+     * @param comparer (optional) Comparer or function which orders the keys, defaults to ordering with `<` and `>`.
+     * @returns A new IOrderedLazyIterable.
+     */
+    thenBy<K>(keySelector: (item: T) => K, comparer?: Comparator<K> | Comparer<K>): IOrderedLazyIterable<T>;
+
+    /**
+     * Performs a subsequent descending ordering of elements which are equal by all previous sort keys.
+     *
+     * @param keySelector Function returning the key to sort by.
+     * @param comparer (optional) Comparer or function which orders the keys, defaults to ordering with `<` and `>`.
+     * @returns A new IOrderedLazyIterable.
+     */
+    thenByDescending<K>(keySelector: (item: T) => K, comparer?: Comparator<K> | Comparer<K>): IOrderedLazyIterable<T>;
+}
+
+function siftUp<T>(heap: T[], index: number, compare: (a: T, b: T) => number): void {
+    while (index > 0) {
+        const parent = (index - 1) >> 1;
+        if (compare(heap[index], heap[parent]) <= 0) {
+            return;
+        }
+        [heap[index], heap[parent]] = [heap[parent], heap[index]];
+        index = parent;
+    }
+}
+
+function siftDown<T>(heap: T[], index: number, compare: (a: T, b: T) => number): void {
+    while (true) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let largest = index;
+        if (left < heap.length && compare(heap[left], heap[largest]) > 0) {
+            largest = left;
+        }
+        if (right < heap.length && compare(heap[right], heap[largest]) > 0) {
+            largest = right;
+        }
+        if (largest === index) {
+            return;
+        }
+        [heap[index], heap[largest]] = [heap[largest], heap[index]];
+        index = largest;
+    }
+}
+
+/**
+ * Moves the `k`th smallest value to index `k`, with smaller values before it and larger values after it (Hoare's selection).
+ */
+function selectInPlace(values: Numeric[], k: number): Numeric {
+    let left = 0;
+    let right = values.length - 1;
+    while (left < right) {
+        const pivot = values[(left + right) >> 1];
+        let i = left;
+        let j = right;
+        while (i <= j) {
+            while (values[i] < pivot) {
+                i++;
+            }
+            while (values[j] > pivot) {
+                j--;
+            }
+            if (i <= j) {
+                [values[i], values[j]] = [values[j], values[i]];
+                i++;
+                j--;
+            }
+        }
+        if (k <= j) {
+            right = j;
+        } else if (k >= i) {
+            left = i;
+        } else {
+            break;
+        }
+    }
+    return values[k];
+}
+
+/**
+ * Resolution of the interpolation fraction for bigint percentiles, which cannot be multiplied by a fraction directly.
+ */
+const BIGINT_FRACTION_SCALE = 2 ** 32;
+
+/**
+ * Adds two values of the same numeric type; like `+`, mixing number and bigint throws a TypeError.
+ */
+function add(left: Numeric, right: Numeric): Numeric {
+    return typeof left === 'bigint' ? left + (right as bigint) : left + (right as number);
+}
+
+function interpolate(lower: Numeric, upper: Numeric, fraction: number): Numeric {
+    if (typeof lower === 'bigint') {
+        return lower + (((upper as bigint) - lower) * BigInt(Math.round(fraction * BIGINT_FRACTION_SCALE))) / BigInt(BIGINT_FRACTION_SCALE);
+    }
+    return lower + ((upper as number) - lower) * fraction;
+}
+
+/**
+ * TraversalNode which links to its parent, so that paths are only built for the nodes whose path is read.
+ */
+class TraversalEntry<N> implements TraversalNode<N> {
+    private cachedPath: N[] | undefined;
+
+    public constructor(
+        public readonly node: N,
+        public readonly depth: number,
+        private readonly parent: TraversalEntry<N> | undefined,
+    ) {}
+
+    public get path(): readonly N[] {
+        const collect = (last: TraversalEntry<N>): N[] => {
+            const path = new Array<N>(last.depth + 1);
+            for (let entry: TraversalEntry<N> | undefined = last; entry; entry = entry.parent) {
+                path[entry.depth] = entry.node;
+            }
+            return path;
+        };
+        return (this.cachedPath ??= collect(this));
+    }
+}
+
+/**
+ * Installed as `Symbol.dispose` on iterators returned by LazyIterable, so that a `using` declaration closes the iterator.
+ */
+function disposeIterator(this: Iterator<unknown>): void {
+    this.return?.();
+}
+
 /**
  * Represents a lazy-evaluated sequence.
  * Provides lazy evaluated implementations of standard Array methods (map, filter, flatMap, etc.).
@@ -12,356 +323,2842 @@ export abstract class LazyIterable<T> implements Iterable<T> {
     //#region Inner Classes
 
     /**
-     * Concrete implementation backing class for LazyIterable.
-     * This constructor is protected to ensure that only this class can instantiate it.
+     * Concrete implementation backing class for LazyIterable.
+     * This constructor is protected to ensure that only this class can instantiate it.
+     */
+    private static LazyIterableImpl = class LazyIterableImpl<T, S = unknown> extends LazyIterable<T> {
+        public constructor(
+            private readonly name: string,
+            private readonly generator: (source: LazyIterable<S>) => IterableIterator<T>,
+            private readonly source?: LazyIterable<S>,
+            private readonly args: readonly unknown[] = [],
+        ) {
+            super();
+        }
+        protected getIterator(): Iterator<T> {
+            // A generator constructed without a source does not read its argument.
+            return this.generator(this.source as LazyIterable<S>);
+        }
+        protected describe(): OperatorNode<T> {
+            const { name, generator, source, args } = this;
+            if (!source) {
+                return { name, args };
+            }
+            return { name, args, source, rebuild: (upstream: LazyIterable<S>) => new LazyIterableImpl(name, generator, upstream, args) };
+        }
+    };
+
+    /**
+     * Sequence backed by an array, which knows its length and supports random access.
+     */
+    private static ArrayLazyIterableImpl = class ArrayLazyIterableImpl<T> extends LazyIterable<T> {
+        public constructor(private readonly array: readonly T[]) {
+            super();
+        }
+        protected getIterator(): Iterator<T> {
+            return this.array[Symbol.iterator]();
+        }
+        protected forEachWhile(sink: (item: T) => boolean | void): void {
+            const array = this.array;
+            for (let i = 0; i < array.length; i++) {
+                if (sink(array[i]) === false) {
+                    return;
+                }
+            }
+        }
+        protected getSourceInfo(): SourceInfo<T> {
+            const array = this.array;
+            return { length: array.length, at: (index) => array[index] };
+        }
+        protected describe(): OperatorNode<T> {
+            return { name: 'genArray', args: [this.array] };
+        }
+    };
+
+    /**
+     * Sequence backed by a typed array, read with indexed loops and supporting random access.
+     */
+    private static TypedArrayLazyIterableImpl = class TypedArrayLazyIterableImpl<T> extends LazyIterable<T> {
+        public constructor(private readonly view: ArrayLike<T> & Iterable<T>) {
+            super();
+        }
+        protected getIterator(): Iterator<T> {
+            return this.view[Symbol.iterator]();
+        }
+        protected forEachWhile(sink: (item: T) => boolean | void): void {
+            const view = this.view;
+            for (let i = 0; i < view.length; i++) {
+                if (sink(view[i]) === false) {
+                    return;
+                }
+            }
+        }
+        protected getSourceInfo(): SourceInfo<T> {
+            const view = this.view;
+            return { length: view.length, at: (index) => view[index] };
+        }
+        protected describe(): OperatorNode<T> {
+            return { name: 'genTypedArray', args: [this.view] };
+        }
+    };
+
+    /**
+     * Sequence backed by a native Set or Map, or an ImmutableSet or ImmutableMap, which knows its length.
+     */
+    private static CollectionLazyIterableImpl = class CollectionLazyIterableImpl<T> extends LazyIterable<T> {
+        public constructor(private readonly collection: Iterable<T> & { readonly size: number }) {
+            super();
+        }
+        protected getIterator(): Iterator<T> {
+            return this.collection[Symbol.iterator]();
+        }
+        protected getSourceInfo(): SourceInfo<T> {
+            return { length: this.collection.size };
+        }
+        protected describe(): OperatorNode<T> {
+            return { name: 'genCollection', args: [this.collection] };
+        }
+    };
+
+    /**
+     * Arithmetic sequence produced by fromRange and fromLength.
+     * Elements are produced by repeated addition, and random access is offered only when that is exact (integral start and step).
+     */
+    private static RangeLazyIterableImpl = class RangeLazyIterableImpl extends LazyIterable<number> {
+        public constructor(
+            private readonly start: number,
+            private readonly step: number,
+            private readonly length: number,
+        ) {
+            super();
+        }
+        protected *getIterator(): Iterator<number> {
+            let value = this.start;
+            for (let i = 0; i < this.length; i++) {
+                yield value;
+                value += this.step;
+            }
+        }
+        protected forEachWhile(sink: (item: number) => boolean | void): void {
+            let value = this.start;
+            for (let i = 0; i < this.length; i++) {
+                if (sink(value) === false) {
+                    return;
+                }
+                value += this.step;
+            }
+        }
+        protected getSourceInfo(): SourceInfo<number> {
+            const { start, step, length } = this;
+            return Number.isInteger(start) && Number.isInteger(step) ? { length, at: (index) => start + index * step } : { length };
+        }
+        protected describe(): OperatorNode<number> {
+            return { name: 'genRange', args: [this.start, this.step, this.length] };
+        }
+    };
+
+    /**
+     * Sequence produced by memoize and share, which pulls from a single source iterator on behalf of every reader.
+     * With `replay`, every element is kept and each new reader starts from the beginning. Without it, elements are dropped once
+     * every active reader has passed them, and a new reader starts from the oldest element still buffered.
+     * The source iterator is opened once and stays open until it is exhausted, so no source element is ever pulled twice.
+     */
+    private static CachedLazyIterableImpl = class CachedLazyIterableImpl<T> extends LazyIterable<T> {
+        private readonly buffer: T[] = [];
+        private readonly readers = new Set<{ position: number }>();
+        private offset = 0;
+        private iterator: Iterator<T> | undefined;
+        private done = false;
+        private failed = false;
+        private error: unknown;
+
+        public constructor(
+            private readonly source: LazyIterable<T>,
+            private readonly replay: boolean,
+            private readonly bufferSize: number,
+        ) {
+            super();
+        }
+
+        protected getIterator(): IterableIterator<T> {
+            // Readers register as soon as they are created, so elements are kept for them even before their first pull.
+            const reader = { position: this.replay ? 0 : this.offset };
+            this.readers.add(reader);
+            const iterator = this.read(reader);
+            return {
+                next: () => iterator.next(),
+                return: () => {
+                    // a generator which has not started skips its finally block, so the reader is released here as well
+                    this.release(reader);
+                    return iterator.return();
+                },
+                [Symbol.iterator]() {
+                    return this;
+                },
+            };
+        }
+
+        protected getSourceInfo(): SourceInfo<T> | undefined {
+            const buffer = this.buffer;
+            return this.replay && this.done && !this.failed ? { length: buffer.length, at: (index) => buffer[index] } : undefined;
+        }
+
+        protected describe(): OperatorNode<T> {
+            const { source, replay, bufferSize } = this;
+            return {
+                name: replay ? 'genMemoize' : 'genShare',
+                args: bufferSize === Infinity ? [] : [bufferSize],
+                source,
+                rebuild: (upstream: LazyIterable<T>) => new CachedLazyIterableImpl(upstream, replay, bufferSize),
+            };
+        }
+
+        private *read(reader: { position: number }): Generator<T, void, undefined> {
+            try {
+                while (true) {
+                    const index = reader.position - this.offset;
+                    if (index < this.buffer.length) {
+                        const value = this.buffer[index];
+                        reader.position++;
+                        this.trim();
+                        yield value;
+                    } else if (this.done) {
+                        if (this.failed) {
+                            throw this.error;
+                        }
+                        return;
+                    } else {
+                        this.pull();
+                    }
+                }
+            } finally {
+                this.release(reader);
+            }
+        }
+
+        private release(reader: { position: number }): void {
+            this.readers.delete(reader);
+            this.trim();
+        }
+
+        private pull(): void {
+            if (this.buffer.length >= this.bufferSize) {
+                throw RefinedSetsError.bufferOverflow(`A shared sequence reader fell more than ${this.bufferSize} elements behind.`);
+            }
+            try {
+                this.iterator ??= this.source[Symbol.iterator]();
+                const next = this.iterator.next();
+                if (next.done) {
+                    this.done = true;
+                } else {
+                    this.buffer.push(next.value);
+                }
+            } catch (error) {
+                this.done = true;
+                this.failed = true;
+                this.error = error;
+            }
+        }
+
+        private trim(): void {
+            if (this.replay) {
+                return;
+            }
+            let oldest = this.offset + this.buffer.length;
+            for (const reader of this.readers) {
+                oldest = Math.min(oldest, reader.position);
+            }
+            if (oldest > this.offset) {
+                this.buffer.splice(0, oldest - this.offset);
+                this.offset = oldest;
+            }
+        }
+    };
+
+    /**
+     * Pass-through sequence inserted between the operators of an instrumented chain, which counts the elements its source yields
+     * and the time spent waiting for them.
+     */
+    private static ProbeLazyIterableImpl = class ProbeLazyIterableImpl<T> extends LazyIterable<T> {
+        public constructor(
+            private readonly source: LazyIterable<T>,
+            private readonly counters: ProbeStats,
+        ) {
+            super();
+        }
+
+        protected *getIterator(): Iterator<T> {
+            const counters = this.counters;
+            const iterator = this.source[Symbol.iterator]();
+            let done = false;
+            try {
+                while (true) {
+                    const start = performance.now();
+                    let next: IteratorResult<T>;
+                    try {
+                        next = iterator.next();
+                    } finally {
+                        counters.time += performance.now() - start;
+                    }
+                    if (next.done) {
+                        done = true;
+                        return;
+                    }
+                    counters.yielded++;
+                    yield next.value;
+                }
+            } finally {
+                if (!done) {
+                    iterator.return?.();
+                }
+            }
+        }
+
+        protected describe(): OperatorNode<T> {
+            return LazyIterable.describeOf(this.source);
+        }
+    };
+
+    /**
+     * Sequence returned by instrument, which runs a copy of the chain with a probe after every operator.
+     */
+    private static InstrumentedLazyIterableImpl = class InstrumentedLazyIterableImpl<T> extends LazyIterable<T> implements InstrumentedLazyIterable<T> {
+        public constructor(
+            private readonly sequence: LazyIterable<T>,
+            private readonly probes: readonly StageProbe[],
+        ) {
+            super();
+        }
+
+        protected getIterator(): Iterator<T> {
+            return this.sequence[Symbol.iterator]();
+        }
+
+        public report(): InstrumentationReport {
+            const stages = this.probes.map(({ node, stats, upstream }) => ({
+                name: node.name,
+                args: formatArguments(node.args),
+                pulled: upstream?.yielded ?? 0,
+                yielded: stats.yielded,
+                time: stats.time - (upstream?.time ?? 0),
+            }));
+            return { stages, time: this.probes[this.probes.length - 1].stats.time };
+        }
+
+        protected describe(): OperatorNode<T> {
+            return { name: 'genInstrument', args: [], source: this.sequence };
+        }
+    };
+
+    /**
+     * Sequence produced by the combinatorial operators, which yields a tuple of elements for each tuple of indices in an IndexSpace.
+     * The sources are buffered when the sequence is read, but the tuples are never all in memory at once. Any tuple can be read by
+     * position, so skip and take sample the space without walking the tuples before them.
+     */
+    private static IndexSpaceLazyIterableImpl = class IndexSpaceLazyIterableImpl<T> extends LazyIterable<T> {
+        public constructor(
+            private readonly sources: readonly Iterable<unknown>[],
+            private readonly createSpace: (sizes: readonly number[]) => IndexSpace,
+            private readonly name: string,
+            private readonly args: readonly unknown[],
+            private readonly chained: boolean,
+        ) {
+            super();
+        }
+
+        protected *getIterator(): Iterator<T> {
+            const pools = this.sources.map((source) => Array.from(source));
+            const space = this.createSpace(pools.map((pool) => pool.length));
+            const indices = space.first();
+            if (!indices) {
+                return;
+            }
+            do {
+                yield IndexSpaceLazyIterableImpl.toTuple(indices, pools);
+            } while (space.next(indices));
+        }
+
+        protected getSourceInfo(): SourceInfo<T> | undefined {
+            const pools = this.sources.map((source) => Array.from(source));
+            const space = this.createSpace(pools.map((pool) => pool.length));
+            if (space.size > BigInt(Number.MAX_SAFE_INTEGER)) {
+                return undefined;
+            }
+            // Sequential reads, as made by toArray and slices, step to the next tuple rather than unranking each one.
+            let rank = -1;
+            let indices: number[] | undefined;
+            return {
+                length: Number(space.size),
+                at: (index) => {
+                    if (!indices || index !== rank + 1 || !space.next(indices)) {
+                        indices = space.unrank(BigInt(index));
+                    }
+                    rank = index;
+                    return IndexSpaceLazyIterableImpl.toTuple(indices, pools);
+                },
+            };
+        }
+
+        protected describe(): OperatorNode<T> {
+            const { sources, createSpace, name, args, chained } = this;
+            if (!chained) {
+                return { name, args };
+            }
+            return {
+                name,
+                args,
+                source: sources[0] as LazyIterable<unknown>,
+                rebuild: (upstream) =>
+                    new IndexSpaceLazyIterableImpl(
+                        sources.map(() => upstream),
+                        createSpace,
+                        name,
+                        args,
+                        true,
+                    ),
+            };
+        }
+
+        /**
+         * Maps a tuple of indices to elements; a single pool supplies every position.
+         */
+        private static toTuple<T>(indices: readonly number[], pools: readonly unknown[][]): T {
+            return (pools.length === 1 ? indices.map((i) => pools[0][i]) : indices.map((i, slot) => pools[slot][i])) as unknown as T;
+        }
+    };
+
+    /**
+     * Sequence of one value repeated a fixed, possibly infinite, number of times.
+     */
+    private static RepeatLazyIterableImpl = class RepeatLazyIterableImpl<T> extends LazyIterable<T> {
+        public constructor(
+            private readonly value: T,
+            private readonly length: number,
+            private readonly name: string,
+            private readonly args: readonly unknown[],
+        ) {
+            super();
+        }
+        protected *getIterator(): Iterator<T> {
+            for (let i = 0; i < this.length; i++) {
+                yield this.value;
+            }
+        }
+        protected getSourceInfo(): SourceInfo<T> {
+            const { value, length } = this;
+            return { length, at: () => value };
+        }
+        protected describe(): OperatorNode<T> {
+            return { name: this.name, args: this.args };
+        }
+    };
+
+    /**
+     * Sequence produced by consecutive map and filter calls, which runs every stage in a single loop.
+     */
+    private static FusedLazyIterableImpl = class FusedLazyIterableImpl<S, T> extends LazyIterable<T> {
+        public constructor(
+            public readonly source: LazyIterable<S>,
+            public readonly stages: readonly Stage[],
+        ) {
+            super();
+        }
+        protected *getIterator(): Iterator<T> {
+            const step = compileStages(this.stages);
+            for (const x of this.source) {
+                const result = step(x);
+                if (result !== SKIP) {
+                    yield result as T;
+                }
+            }
+        }
+        protected forEachWhile(sink: (item: T) => boolean | void): void {
+            const step = compileStages(this.stages);
+            LazyIterable.forEachWhileOf(this.source, (x) => {
+                const result = step(x);
+                return result === SKIP || sink(result as T);
+            });
+        }
+        protected describe(): OperatorNode<T> {
+            const stages = this.stages;
+            const last = stages[stages.length - 1];
+            return {
+                name: last.name,
+                args: last.args ?? [last.callback],
+                source: stages.length > 1 ? new FusedLazyIterableImpl(this.source, stages.slice(0, -1)) : this.source,
+                rebuild: (upstream) => new FusedLazyIterableImpl(upstream, [last]),
+            };
+        }
+        public append<U>(stage: Stage): ILazyIterable<U> {
+            return new FusedLazyIterableImpl<S, U>(this.source, [...this.stages, stage]);
+        }
+    };
+
+    /**
+     * Contiguous slice produced by skip and take. Consecutive skips and takes collapse into one slice, and a slice over a source
+     * with random access reads only the elements it yields.
+     */
+    private static SliceLazyIterableImpl = class SliceLazyIterableImpl<T> extends LazyIterable<T> {
+        public constructor(
+            public readonly source: LazyIterable<T>,
+            public readonly start: number,
+            public readonly limit: number,
+        ) {
+            super();
+        }
+        protected *getIterator(): Iterator<T> {
+            const { source, start, limit } = this;
+            if (limit <= 0) {
+                return;
+            }
+            const info = LazyIterable.sourceInfoOf(source);
+            if (info?.at) {
+                const end = Math.min(info.length, start + limit);
+                for (let i = start; i < end; i++) {
+                    yield info.at(i);
+                }
+                return;
+            }
+            let index = 0;
+            let taken = 0;
+            for (const x of source) {
+                if (index++ < start) {
+                    continue;
+                }
+                yield x;
+                if (++taken >= limit) {
+                    break;
+                }
+            }
+        }
+        protected forEachWhile(sink: (item: T) => boolean | void): void {
+            const { source, start, limit } = this;
+            if (limit <= 0) {
+                return;
+            }
+            const info = LazyIterable.sourceInfoOf(source);
+            if (info?.at) {
+                const end = Math.min(info.length, start + limit);
+                for (let i = start; i < end; i++) {
+                    if (sink(info.at(i)) === false) {
+                        return;
+                    }
+                }
+                return;
+            }
+            let index = 0;
+            let taken = 0;
+            LazyIterable.forEachWhileOf(source, (x) => index++ < start || (sink(x) !== false && ++taken < limit));
+        }
+        protected getSourceInfo(): SourceInfo<T> | undefined {
+            const info = LazyIterable.sourceInfoOf(this.source);
+            if (!info) {
+                return undefined;
+            }
+            const { at } = info;
+            const start = this.start;
+            const length = Math.max(0, Math.min(info.length - start, this.limit));
+            return at ? { length, at: (index) => at(start + index) } : { length };
+        }
+        protected describe(): OperatorNode<T> {
+            const { source, start, limit } = this;
+            if (limit === Infinity) {
+                return { name: 'genSkip', args: [start], source, rebuild: (upstream: LazyIterable<T>) => new SliceLazyIterableImpl(upstream, start, Infinity) };
+            }
+            return {
+                name: 'genTake',
+                args: [limit],
+                source: start > 0 ? new SliceLazyIterableImpl(source, start, Infinity) : source,
+                rebuild: (upstream: LazyIterable<T>) => new SliceLazyIterableImpl(upstream, 0, limit),
+            };
+        }
+    };
+
+    /**
+     * Group of buffered elements sharing a key, yielded by groupBy.
+     */
+    private static GroupingImpl = class GroupingImpl<K, T> extends LazyIterable<T> implements Grouping<K, T> {
+        public constructor(
+            public readonly key: K,
+            private readonly items: T[],
+        ) {
+            super();
+        }
+        protected getIterator(): Iterator<T> {
+            return this.items[Symbol.iterator]();
+        }
+        protected getSourceInfo(): SourceInfo<T> {
+            const items = this.items;
+            return { length: items.length, at: (index) => items[index] };
+        }
+        protected describe(): OperatorNode<T> {
+            return { name: 'genGrouping', args: [this.key] };
+        }
+    };
+
+    /**
+     * Sequence produced by orderBy and its variants.
+     * Buffers the source when iterated and sorts it stably by each sort key in turn; take and first select the leading elements
+     * with a bounded heap instead of sorting the whole source.
+     */
+    private static OrderedLazyIterableImpl = class OrderedLazyIterableImpl<T> extends LazyIterable<T> implements IOrderedLazyIterable<T> {
+        public constructor(
+            private readonly source: LazyIterable<T>,
+            private readonly sortKeys: SortKey<T>[],
+        ) {
+            super();
+        }
+
+        protected *getIterator(): Iterator<T> {
+            const entries = this.toEntries();
+            entries.sort((a, b) => this.compareEntries(a, b));
+            for (const entry of entries) {
+                yield entry.item;
+            }
+        }
+
+        public thenBy<K>(keySelector: (item: T) => K, comparer?: Comparator<K> | Comparer<K>): IOrderedLazyIterable<T> {
+            return this.appendKey(keySelector, comparer, false);
+        }
+
+        public thenByDescending<K>(keySelector: (item: T) => K, comparer?: Comparator<K> | Comparer<K>): IOrderedLazyIterable<T> {
+            return this.appendKey(keySelector, comparer, true);
+        }
+
+        public take(count: number): ILazyIterable<T> {
+            const selectLeading = (source: LazyIterable<T>) => this.selectLeading(count, source);
+            const selectors = this.sortKeys.map((k) => k.selector);
+            return new LazyIterable.LazyIterableImpl(
+                'genTopK',
+                function* genTopK(source: LazyIterable<T>) {
+                    if (count <= 0) {
+                        return;
+                    }
+                    for (const entry of selectLeading(source)) {
+                        yield entry.item;
+                    }
+                },
+                this.source,
+                [count, ...selectors],
+            );
+        }
+
+        public first(): T | undefined {
+            return this.selectLeading(1, this.source)[0]?.item;
+        }
+
+        protected describe(): OperatorNode<T> {
+            const { source, sortKeys } = this;
+            return {
+                name: sortKeys[0].descending ? 'genOrderByDescending' : 'genOrderBy',
+                args: sortKeys.map((k) => k.selector),
+                source,
+                rebuild: (upstream: LazyIterable<T>) => new OrderedLazyIterableImpl(upstream, sortKeys),
+            };
+        }
+
+        private appendKey<K>(keySelector: (item: T) => K, comparer: Comparator<K> | Comparer<K> | undefined, descending: boolean): IOrderedLazyIterable<T> {
+            const sortKey = { selector: keySelector, comparer: toComparator(comparer) as Comparator<unknown>, descending };
+            return new OrderedLazyIterableImpl(this.source, [...this.sortKeys, sortKey]);
+        }
+
+        private toEntry(item: T, index: number): SortEntry<T> {
+            return { item, index, keys: this.sortKeys.map((k) => k.selector(item)) };
+        }
+
+        private toEntries(): SortEntry<T>[] {
+            const entries: SortEntry<T>[] = [];
+            for (const item of this.source) {
+                entries.push(this.toEntry(item, entries.length));
+            }
+            return entries;
+        }
+
+        private compareEntries(a: SortEntry<T>, b: SortEntry<T>): number {
+            for (let i = 0; i < this.sortKeys.length; i++) {
+                const { comparer, descending } = this.sortKeys[i];
+                const c = comparer(a.keys[i], b.keys[i]);
+                if (c !== 0) {
+                    return descending ? -c : c;
+                }
+            }
+            return a.index - b.index;
+        }
+
+        /**
+         * Selects the `count` leading entries in sorted order using a max-heap of size `count`, which is O(n log count).
+         */
+        private selectLeading(count: number, source: Iterable<T>): SortEntry<T>[] {
+            const heap: SortEntry<T>[] = [];
+            const compare = (a: SortEntry<T>, b: SortEntry<T>) => this.compareEntries(a, b);
+            let index = 0;
+            for (const item of source) {
+                const entry = this.toEntry(item, index++);
+                if (heap.length < count) {
+                    heap.push(entry);
+                    siftUp(heap, heap.length - 1, compare);
+                } else if (compare(entry, heap[0]) < 0) {
+                    heap[0] = entry;
+                    siftDown(heap, 0, compare);
+                }
+            }
+            return heap.sort(compare);
+        }
+    };
+
+    //#endregion
+
+    /**
+     * Returns a fresh iterator over the sequence.
+     *
+     * @returns Iterator of elements in this sequence.
+     */
+    protected abstract getIterator(): Iterator<T>;
+
+    /**
+     * Pushes each element to `sink` until it returns false. Terminal operations use this rather than the iterator protocol, so that
+     * fused chains over arrays and ranges run as plain loops. Stopping early closes the underlying iterator.
+     *
+     * @param sink Function called with each element; returning false stops the enumeration.
+     */
+    protected forEachWhile(sink: (item: T) => boolean | void): void {
+        for (const x of this) {
+            if (sink(x) === false) {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Describes what is known about this sequence without enumerating it, so operators and terminals can take shortcuts.
+     * Sequences which can only be learned about by enumerating them return undefined.
+     *
+     * @returns The exact length, and random access where it is available; otherwise, undefined.
+     */
+    protected getSourceInfo(): SourceInfo<T> | undefined {
+        return undefined;
+    }
+
+    /**
+     * Describes the operator which produced this sequence, for explain and instrument.
+     * Sequences which are not built from another sequence describe themselves as the start of a chain; subclasses which do not
+     * override this method are shown as `genSource()`.
+     *
+     * @returns The operator's name and arguments, and the sequence it was applied to.
+     */
+    protected describe(): OperatorNode<T> {
+        return { name: 'genSource', args: [] };
+    }
+
+    /**
+     * Convenience method to extend the current sequence with a new generator.
+     * The generator should consume `self` with `for...of` or `yield*`, or close any iterator it drives by hand in a `finally` block,
+     * so that stopping early or throwing releases the upstream sources.
+     *
+     * `name` and `args` are what explain reports for the new operator. The name is passed explicitly because function names do
+     * not survive minification.
+     *
+     * @param name The operator's name, by convention the generator's name, such as `genMap`.
+     * @param generator A generator function that yields elements of type U.
+     * @param args (optional) The arguments the operator was called with.
+     * @returns A new ILazyIterable of type U.
+     */
+    protected extend<U>(name: string, generator: (self: ILazyIterable<T>) => IterableIterator<U>, args: readonly unknown[] = []): ILazyIterable<U> {
+        return new LazyIterable.LazyIterableImpl<U, T>(name, generator, this, args);
+    }
+
+    /**
+     * Reads the source info of another sequence; inner classes cannot call the protected method on instances other than their own.
+     */
+    private static sourceInfoOf<T>(sequence: LazyIterable<T>): SourceInfo<T> | undefined {
+        return sequence.getSourceInfo();
+    }
+
+    /**
+     * Returns the exact length of a sequence when it is known without enumerating it. Map chains do not report source info, as
+     * their callbacks must still run for every element, but they keep the length of their source.
+     */
+    private static knownLengthOf<T>(sequence: LazyIterable<T>): number | undefined {
+        if (sequence instanceof LazyIterable.FusedLazyIterableImpl) {
+            const mapsOnly = sequence.stages.every((stage) => stage.kind === 'map' || stage.kind === 'wrap');
+            return mapsOnly ? LazyIterable.knownLengthOf(sequence.source) : undefined;
+        }
+        return sequence.getSourceInfo()?.length;
+    }
+
+    /**
+     * Describes another sequence, for the same reason as sourceInfoOf.
+     */
+    private static describeOf<T>(sequence: LazyIterable<T>): OperatorNode<T> {
+        return sequence.describe();
+    }
+
+    /**
+     * Calls forEachWhile on another sequence, for the same reason as sourceInfoOf.
+     */
+    private static forEachWhileOf<T>(sequence: LazyIterable<T>, sink: (item: T) => boolean | void): void {
+        sequence.forEachWhile(sink);
+    }
+
+    /**
+     * Appends an element-wise stage to this sequence, merging it into the existing chain when this sequence is itself a map or filter.
+     *
+     * @param stage The map or filter stage to append.
+     * @returns A new ILazyIterable of type U.
+     */
+    private fuse<U>(stage: Stage): ILazyIterable<U> {
+        if (this instanceof LazyIterable.FusedLazyIterableImpl) {
+            return this.append<U>(stage);
+        }
+        return new LazyIterable.FusedLazyIterableImpl<T, U>(this, [stage]);
+    }
+
+    /**
+     * Returns a new iterator for this sequence.
+     * This method is used to implement the iterable protocol.
+     * On runtimes which define `Symbol.dispose`, the iterator also implements it; use disposableIterator for an iterator typed
+     * for `using` declarations.
+     *
+     * @returns An iterator that can be used to iterate over the elements.
+     *
+     */
+    public [Symbol.iterator](): Iterator<T> {
+        const iterator = this.getIterator() as Iterator<T> & Partial<Disposable>;
+        // Runtimes without explicit resource management have no Symbol.dispose to install.
+        if (typeof Symbol.dispose === 'symbol' && !iterator[Symbol.dispose]) {
+            iterator[Symbol.dispose] = disposeIterator;
+        }
+        return iterator;
+    }
+
+    /**
+     * Returns a new iterator for this sequence which closes itself, and every upstream iterator, when disposed, so that
+     * `using iterator = sequence.disposableIterator()` releases the source on scope exit.
+     * `Symbol.dispose` must be defined, natively or by a polyfill, before this method is called; without it, the iterator has no
+     * dispose member.
+     *
+     * @returns A disposable iterator over the elements.
+     */
+    public disposableIterator(): Iterator<T> & Disposable {
+        return this[Symbol.iterator]() as Iterator<T> & Disposable;
+    }
+
+    //#region Array-like Methods
+
+    /**
+     * Projects each element of the sequence into a new form.
+     *
+     * @template U Type of elements in the result sequence.
+     * @param mapper Function to transform each element.
+     * @returns A new ILazyIterable of type U.
+     */
+    public map<U>(mapper: (item: T, index: number) => U): ILazyIterable<U> {
+        return this.fuse({ kind: 'map', name: 'genMap', callback: mapper });
+    }
+
+    /**
+     * Returns the elements of an array that meet the condition specified in a callback function.
+     *
+     * @param predicate A function that accepts up to two arguments. The filter method calls the predicate function one time for each element in the array.
+     * @returns A new ILazyIterable containing only elements that satisfy predicate.
+     */
+    public filter(predicate: (item: T, index: number) => boolean): ILazyIterable<T> {
+        return this.fuse({ kind: 'filter', name: 'genFilter', callback: predicate });
+    }
+
+    /**
+     * Projects each element into an iterable and flattens the resulting sequences.
+     *
+     * @template U Type of elements in the flattened sequence.
+     * @param mapper A function that accepts up to two arguments. The flatMap method calls the callback function one time for each element in the array.
+     * @returns A new ILazyIterable containing all values from the iterables returned by mapper.
+     */
+    public flatMap<U>(mapper: (item: T, index: number) => Iterable<U>): ILazyIterable<U> {
+        return this.extend(
+            'genFlatMap',
+            function* genFlatMap(self) {
+                let index = 0;
+                for (const x of self) {
+                    for (const y of mapper(x, index++)) {
+                        yield y;
+                    }
+                }
+            },
+            [mapper],
+        );
+    }
+
+    /**
+     * Invokes a side-effecting callback for each element in the sequence.
+     * Enumeration occurs immediately when this method is called.
+     *
+     * @param callback Function to execute for each element.
+     */
+    public forEach(callback: (item: T, index: number) => void): void {
+        let index = 0;
+        this.forEachWhile((x) => {
+            callback(x, index++);
+        });
+    }
+
+    /**
+     * Determines whether any element satisfies the predicate.
+     *
+     * @param predicate A function that accepts up to twoarguments. The some method calls the predicate function for each element in the array until the
+     * predicate returns a value which is coercible to the Boolean value true, or until the end of the array.
+     * @returns True if at least one element passes the test; otherwise, false.
+     */
+    public some(predicate: (item: T, index: number) => boolean): boolean {
+        let index = 0;
+        let found = false;
+        this.forEachWhile((x) => {
+            if (predicate(x, index++)) {
+                found = true;
+                return false;
+            }
+        });
+        return found;
+    }
+
+    /**
+     * Determines whether all elements satisfy the predicate.
+     *
+     * @param predicate A function that accepts up to two arguments. The every method calls the predicate function for each element in the array until the
+     * predicate returns a value which is coercible to the Boolean value false, or until the end of the array.
+     * @returns True if every element passes the test; otherwise, false.
+     */
+    public every(predicate: (item: T, index: number) => boolean): boolean {
+        let index = 0;
+        let passed = true;
+        this.forEachWhile((x) => {
+            if (!predicate(x, index++)) {
+                passed = false;
+                return false;
+            }
+        });
+        return passed;
+    }
+
+    /**
+     * Returns the value of the first element in the array where predicate is true, and undefined otherwise.
+     *
+     * @param predicate find calls predicate once for each element of the array, in ascending order, until it finds one where predicate returns true. If such
+     * an element is found, find immediately returns that element value. Otherwise, find returns undefined.
+     * @returns The first matching element, or `undefined` if none matched.
+     */
+    public find(predicate: (item: T, index: number) => boolean): T | undefined {
+        let index = 0;
+        let found: T | undefined;
+        this.forEachWhile((x) => {
+            if (predicate(x, index++)) {
+                found = x;
+                return false;
+            }
+        });
+        return found;
+    }
+
+    /**
+     * Calls the specified callback function for all the elements in an array. The return value of the callback function is the accumulated result, and is
+     * provided as an argument in the next call to the callback function.
+     *
+     * @param reducer - A function that accepts up to four arguments. The reduce method calls the callbackfn function one time for each element in the
+     * array.
+     * @param initialValue - If initialValue is specified, it is used as the initial value to start the accumulation. The first call to the callbackfn
+     * function provides this value as an argument instead of an array value.
+     * @returns The final accumulated value.
+     */
+    public reduce<U>(reducer: (accumulator: U, item: T, index: number) => U, initial: U): U {
+        let result = initial;
+        let index = 0;
+        this.forEachWhile((x) => {
+            result = reducer(result, x, index++);
+        });
+        return result;
+    }
+
+    /**
+     * Yields the every element in the current sequence concatenated with the elements from the provided iterables.
+     *
+     * @returns The first element, or undefined if the sequence is empty.
+     */
+    public concat<U>(...iterables: Iterable<U>[]): ILazyIterable<T | U> {
+        return this.extend(
+            'genConcat',
+            function* genConcat(self) {
+                for (const x of self) {
+                    yield x;
+                }
+                for (const iterable of iterables) {
+                    for (const y of iterable) {
+                        yield y;
+                    }
+                }
+            },
+            [...iterables],
+        );
+    }
+
+    /**
+     * Yields a tuple of [index, element] for each element in the sequence
+     *
+     * @returns The first element, or undefined if the sequence is empty.
+     */
+    public entries(): ILazyIterable<[number, T]> {
+        const self = this;
+        return this.extend('genEntries', function* genEntries(self): IterableIterator<[number, T]> {
+            let index = 0;
+            for (const x of self) {
+                yield [index++, x];
+            }
+        });
+    }
+
+    //#endregion
+
+    //#region Extended Iterable Methods
+
+    /**
+     * Returns a sequence containing only the first `count` elements.
+     *
+     * @param count Number of elements to take.
+     * @returns A new ILazyIterable containing up to `count` elements from the start.
+     */
+    public take(count: number): ILazyIterable<T> {
+        const taken = count > 0 ? Math.ceil(count) : count <= 0 ? 0 : Infinity;
+        if (this instanceof LazyIterable.SliceLazyIterableImpl) {
+            return new LazyIterable.SliceLazyIterableImpl(this.source, this.start, Math.min(this.limit, taken));
+        }
+        return new LazyIterable.SliceLazyIterableImpl(this, 0, taken);
+    }
+
+    /**
+     * Skips the first `count` elements and returns the remainder of the sequence.
+     *
+     * @param count Number of elements to skip.
+     * @returns A new ILazyIterable starting after the first `count` elements.
+     */
+    public skip(count: number): ILazyIterable<T> {
+        const skipped = count > 0 ? Math.ceil(count) : 0;
+        if (this instanceof LazyIterable.SliceLazyIterableImpl) {
+            return new LazyIterable.SliceLazyIterableImpl(this.source, this.start + skipped, Math.max(0, this.limit - skipped));
+        }
+        return new LazyIterable.SliceLazyIterableImpl(this, skipped, Infinity);
+    }
+
+    /**
+     * Returns elements from the start of the sequence for as long as the predicate is satisfied.
+     *
+     * @param predicate A function called for each element until it returns false.
+     * @returns A new ILazyIterable of the leading elements which satisfy predicate.
+     */
+    public takeWhile(predicate: (item: T, index: number) => boolean): ILazyIterable<T> {
+        return this.extend(
+            'genTakeWhile',
+            function* genTakeWhile(self) {
+                let index = 0;
+                for (const x of self) {
+                    if (!predicate(x, index++)) {
+                        break;
+                    }
+                    yield x;
+                }
+            },
+            [predicate],
+        );
+    }
+
+    /**
+     * Skips elements from the start of the sequence for as long as the predicate is satisfied, then returns the remainder.
+     *
+     * @param predicate A function called for each element until it returns false.
+     * @returns A new ILazyIterable starting at the first element which does not satisfy predicate.
+     */
+    public skipWhile(predicate: (item: T, index: number) => boolean): ILazyIterable<T> {
+        return this.extend(
+            'genSkipWhile',
+            function* genSkipWhile(self) {
+                let index = 0;
+                let skipping = true;
+                for (const x of self) {
+                    if (skipping && predicate(x, index++)) {
+                        continue;
+                    }
+                    skipping = false;
+                    yield x;
+                }
+            },
+            [predicate],
+        );
+    }
+
+    /**
+     * Yields the first of each group of equal elements.
+     * Elements are compared with SameValueZero, with an equality comparer, or by the key a function returns for them; array keys
+     * are compared element-wise.
+     *
+     * @param equality (optional) Equality comparer for the elements, or a function returning the key to compare by.
+     * @returns A new ILazyIterable containing the distinct elements.
+     */
+    public distinct(equality?: EqualityComparer<T> | ((item: T) => unknown)): ILazyIterable<T> {
+        const keyEquality = LazyIterable.equalityOf(equality);
+        return this.extend(
+            'genDistinct',
+            function* genDistinct(self) {
+                const isFirst = firstOccurrence(keyEquality);
+                for (const x of self) {
+                    if (isFirst(x)) {
+                        yield x;
+                    }
+                }
+            },
+            [equality],
+        );
+    }
+
+    /**
+     * Yields the first element for each distinct key.
+     *
+     * @template K Type of the keys.
+     * @param keySelector Function returning the key for each element.
+     * @param comparer (optional) Equality comparer for the keys, defaults to SameValueZero with array keys compared element-wise.
+     * @returns A new ILazyIterable containing the first element for each distinct key.
+     */
+    public distinctBy<K>(keySelector: (item: T) => K, comparer?: EqualityComparer<K>): ILazyIterable<T> {
+        return this.extend(
+            'genDistinctBy',
+            function* genDistinctBy(self) {
+                const isFirst = firstOccurrence(comparer);
+                for (const x of self) {
+                    if (isFirst(keySelector(x))) {
+                        yield x;
+                    }
+                }
+            },
+            [keySelector, comparer],
+        );
+    }
+
+    /**
+     * Returns the number of elements in the sequence.
+     * Sequences which know their length are not enumerated, so a sequence known to be endless, such as `infinite()` or
+     * `repeat(value)`, counts as Infinity; counting any other endless sequence never returns.
+     *
+     * @returns The count of elements in this sequence.
+     */
+    public count(): number {
+        const info = this.getSourceInfo();
+        if (info) {
+            return info.length;
+        }
+        let count = 0;
+        this.forEachWhile(() => {
+            count += 1;
+        });
+        return count;
+    }
+
+    /**
+     * Returns the first element in the sequence, or undefined if the sequence is empty.
+     *
+     * @returns The first element, or undefined if the sequence is empty.
+     */
+    public first(): T | undefined {
+        let first: T | undefined;
+        this.forEachWhile((x) => {
+            first = x;
+            return false;
+        });
+        return first;
+    }
+
+    /**
+     * Returns the last element in the sequence, or undefined if the sequence is empty.
+     *
+     * @returns The last element, or undefined if the sequence is empty.
+     */
+    public last(): T | undefined {
+        const info = this.getSourceInfo();
+        if (info?.at && Number.isFinite(info.length)) {
+            return info.length > 0 ? info.at(info.length - 1) : undefined;
+        }
+        let last: T | undefined;
+        this.forEachWhile((x) => {
+            last = x;
+        });
+        return last;
+    }
+
+    /**
+     * Returns the element at `index`, or undefined if the index is out of range. Negative indices count back from the end.
+     * Sequences backed by an array or a range, and map chains over them, read the element directly instead of enumerating.
+     *
+     * @param index The zero-based position of the element.
+     * @returns The element at `index`, or undefined.
+     */
+    public at(index: number): T | undefined {
+        index = Math.trunc(index) || 0;
+        const info = this.getSourceInfo();
+        if (info?.at) {
+            const position = index < 0 ? info.length + index : index;
+            return position >= 0 && position < info.length ? info.at(position) : undefined;
+        }
+        if (index >= 0) {
+            return this.skip(index).first();
+        }
+        const tail: T[] = [];
+        for (const x of this) {
+            tail.push(x);
+            if (tail.length > -index) {
+                tail.shift();
+            }
+        }
+        return tail.length === -index ? tail[0] : undefined;
+    }
+
+    /**
+     * Returns the first element in the sequence, throwing if the sequence is empty.
+     * Unlike `first`, an undefined element is returned rather than mistaken for an empty sequence.
+     * An empty sequence raises a `sequence-empty` RefinedSetsError.
+     *
+     * @returns The first element.
+     */
+    public firstOrThrow(): T {
+        const head = this.take(1).toArray();
+        if (head.length === 0) {
+            throw RefinedSetsError.sequenceEmpty('Cannot get the first element of an empty sequence.');
+        }
+        return head[0];
+    }
+
+    /**
+     * Returns the last element in the sequence, throwing if the sequence is empty.
+     * An empty sequence raises a `sequence-empty` RefinedSetsError.
+     *
+     * @returns The last element.
+     */
+    public lastOrThrow(): T {
+        const info = this.getSourceInfo();
+        if (info?.at && Number.isFinite(info.length)) {
+            if (info.length === 0) {
+                throw RefinedSetsError.sequenceEmpty('Cannot get the last element of an empty sequence.');
+            }
+            return info.at(info.length - 1);
+        }
+        let found = false;
+        let last: T | undefined;
+        this.forEachWhile((x) => {
+            found = true;
+            last = x;
+        });
+        if (!found) {
+            throw RefinedSetsError.sequenceEmpty('Cannot get the last element of an empty sequence.');
+        }
+        return last as T;
+    }
+
+    /**
+     * Returns the only element in the sequence, or the only element which satisfies `predicate`.
+     * Enumeration stops at the second match. No match raises a `sequence-empty` RefinedSetsError, and a second match raises a
+     * `more-than-one-element` RefinedSetsError.
+     *
+     * @param predicate (optional) A function to test each element.
+     * @returns The single matching element.
+     */
+    public single(predicate?: (item: T, index: number) => boolean): T {
+        let matches = 0;
+        let match: T | undefined;
+        let index = 0;
+        this.forEachWhile((x) => {
+            if (!predicate || predicate(x, index++)) {
+                match = x;
+                return ++matches < 2;
+            }
+        });
+        if (matches === 0) {
+            throw RefinedSetsError.sequenceEmpty(predicate ? 'No element satisfies the predicate.' : 'Cannot get the single element of an empty sequence.');
+        }
+        if (matches > 1) {
+            throw RefinedSetsError.moreThanOneElement(
+                predicate ? 'More than one element satisfies the predicate.' : 'The sequence contains more than one element.',
+            );
+        }
+        return match as T;
+    }
+
+    /**
+     * Returns the element at `index`, throwing if the index is out of range. Negative indices count back from the end.
+     * Like `at`, sources with random access read the element directly. An index outside the sequence raises an
+     * `index-out-of-range` RefinedSetsError.
+     *
+     * @param index The zero-based position of the element, an integer.
+     * @returns The element at `index`.
+     */
+    public elementAt(index: number): T {
+        if (!Number.isInteger(index)) {
+            throw RefinedSetsError.invalidArgument(`Expected 'index' to be an integer. Received: ${index}.`);
+        }
+        const info = this.getSourceInfo();
+        let length = 0;
+        if (info?.at) {
+            length = info.length;
+            const position = index < 0 ? length + index : index;
+            if (position >= 0 && position < length) {
+                return info.at(position);
+            }
+        } else if (index >= 0) {
+            let element: T | undefined;
+            this.forEachWhile((x) => {
+                if (length++ === index) {
+                    element = x;
+                    return false;
+                }
+            });
+            if (length > index) {
+                return element as T;
+            }
+        } else {
+            const tail: T[] = [];
+            this.forEachWhile((x) => {
+                length++;
+                tail.push(x);
+                if (tail.length > -index) {
+                    tail.shift();
+                }
+            });
+            if (tail.length === -index) {
+                return tail[0];
+            }
+        }
+        throw RefinedSetsError.indexOutOfRange(`Index ${index} is out of range for a sequence of ${length} elements.`);
+    }
+
+    /**
+     * Evaluates the iterable immediately and returns a new ILazyIterable containing the materialized elements.
+     * This method is useful when you want to ensure that the sequence is fully evaluated and stored in memory.
+     * It can be used to avoid re-evaluating the sequence multiple times.
+     *
+     * @returns A new ILazyIterable containing all elements from this sequence.
+     */
+    public materialize(): ILazyIterable<T> {
+        return new LazyIterable.ArrayLazyIterableImpl<T>(this.toArray());
+    }
+
+    /**
+     * Returns a sequence which caches elements as they are first pulled, so the source and every upstream operator run only once.
+     * Unlike materialize, nothing is evaluated up front, so this works with expensive and infinite sources. Any number of iterators
+     * may walk the result at the same time, each at its own position; all of them share one source iterator. That iterator stays
+     * open while readers stop early, so a later reader continues from where the source left off; it is closed once exhausted.
+     *
+     * @returns A new ILazyIterable which replays cached elements and pulls further elements from the source on demand.
+     */
+    public memoize(): ILazyIterable<T> {
+        return new LazyIterable.CachedLazyIterableImpl(this, true, Infinity);
+    }
+
+    /**
+     * Returns a sequence whose iterators share one source iterator, buffering only the elements which some active reader has not
+     * yet consumed. A reader which starts late begins at the oldest element still buffered, so once every reader has finished,
+     * a new iteration continues from where the source left off rather than starting again. The source iterator stays open while
+     * readers stop early, and is closed once exhausted.
+     *
+     * @param options (optional) `bufferSize` limits how far the slowest reader may fall behind the fastest; exceeding it throws a
+     * RefinedSetsError. Defaults to no limit.
+     * @returns A new ILazyIterable shared by all of its readers.
+     */
+    public share(options?: { bufferSize?: number }): ILazyIterable<T> {
+        const bufferSize = options?.bufferSize ?? Infinity;
+        if (bufferSize !== Infinity) {
+            LazyIterable.assertPositiveInteger('bufferSize', bufferSize);
+        }
+        return new LazyIterable.CachedLazyIterableImpl(this, false, bufferSize);
+    }
+
+    /**
+     * Repeats the sequence `count` times, or forever. The first pass is buffered, so the source is enumerated only once.
+     * Cycling an empty sequence yields nothing.
+     *
+     * @param count (optional) The number of passes, defaults to Infinity.
+     * @returns A new ILazyIterable which repeats the elements of this sequence.
+     */
+    public cycle(count = Infinity): ILazyIterable<T> {
+        if (count !== Infinity && !(Number.isInteger(count) && count >= 0)) {
+            throw RefinedSetsError.invalidArgument(`Expected 'count' to be a non-negative integer or Infinity. Received: ${count}.`);
+        }
+        return this.extend(
+            'genCycle',
+            function* genCycle(self) {
+                if (count === 0) {
+                    return;
+                }
+                const buffer: T[] = [];
+                for (const x of self) {
+                    buffer.push(x);
+                    yield x;
+                }
+                for (let i = 1; i < count && buffer.length > 0; i++) {
+                    yield* buffer;
+                }
+            },
+            [count],
+        );
+    }
+
+    /**
+     * Calls `callback` once each iteration of the sequence ends, whether the source is exhausted, the consumer stops early, or an
+     * error is thrown. Iterations which never pull an element do not start, and so do not call it.
+     *
+     * @param callback Function to call when an iteration ends.
+     * @returns A new ILazyIterable containing the same elements.
+     */
+    public finally(callback: () => void): ILazyIterable<T> {
+        return this.extend(
+            'genFinally',
+            function* genFinally(self) {
+                try {
+                    yield* self;
+                } finally {
+                    callback();
+                }
+            },
+            [callback],
+        );
+    }
+
+    //#endregion
+
+    //#region Aggregation
+
+    /**
+     * Adds up the elements, or the values selected from them.
+     * Enumeration occurs immediately when this method is called.
+     *
+     * @template N Type of the values, number or bigint.
+     * @template E The empty policy.
+     * @param selector (optional) Function returning the value to add for each element, defaults to the element itself.
+     * @param onEmpty (optional) Whether an empty sequence returns undefined or throws, defaults to `undefined`.
+     * @returns The sum of the values.
+     */
+    public sum<N extends Numeric = T & Numeric, E extends EmptyPolicy = 'undefined'>(selector?: (item: T, index: number) => N, onEmpty?: E): EmptyResult<N, E> {
+        let total: Numeric = 0;
+        let index = 0;
+        this.forEachWhile((x) => {
+            const value = (selector ? selector(x, index) : x) as N;
+            total = index++ === 0 ? value : add(total, value);
+        });
+        return index === 0 ? LazyIterable.emptyResult<N, E>('sum', onEmpty) : (total as N);
+    }
+
+    /**
+     * Computes the arithmetic mean of the elements, or of the values selected from them.
+     * The mean of bigint values is rounded toward zero, as bigint division is.
+     * Enumeration occurs immediately when this method is called.
+     *
+     * @template N Type of the values, number or bigint.
+     * @template E The empty policy.
+     * @param selector (optional) Function returning the value to average for each element, defaults to the element itself.
+     * @param onEmpty (optional) Whether an empty sequence returns undefined or throws, defaults to `undefined`.
+     * @returns The mean of the values.
+     */
+    public average<N extends Numeric = T & Numeric, E extends EmptyPolicy = 'undefined'>(
+        selector?: (item: T, index: number) => N,
+        onEmpty?: E,
+    ): EmptyResult<N, E> {
+        let total: Numeric = 0;
+        let count = 0;
+        this.forEachWhile((x) => {
+            const value = (selector ? selector(x, count) : x) as N;
+            total = count++ === 0 ? value : add(total, value);
+        });
+        if (count === 0) {
+            return LazyIterable.emptyResult<N, E>('average', onEmpty);
+        }
+        return (typeof total === 'bigint' ? total / BigInt(count) : total / count) as N;
+    }
+
+    /**
+     * Returns the least of the elements, or of the values selected from them, compared with `<`.
+     * As with `Math.min`, the result is NaN if any value is NaN.
+     * Enumeration occurs immediately when this method is called.
+     *
+     * @template K Type of the values.
+     * @template E The empty policy.
+     * @param selector (optional) Function returning the value to compare for each element, defaults to the element itself.
+     * @param onEmpty (optional) Whether an empty sequence returns undefined or throws, defaults to `undefined`.
+     * @returns The least value.
+     */
+    public min<K = T, E extends EmptyPolicy = 'undefined'>(selector?: (item: T, index: number) => K, onEmpty?: E): EmptyResult<K, E> {
+        return this.extremum('min', selector, onEmpty, (value, best) => value < best);
+    }
+
+    /**
+     * Returns the greatest of the elements, or of the values selected from them, compared with `>`.
+     * As with `Math.max`, the result is NaN if any value is NaN.
+     * Enumeration occurs immediately when this method is called.
+     *
+     * @template K Type of the values.
+     * @template E The empty policy.
+     * @param selector (optional) Function returning the value to compare for each element, defaults to the element itself.
+     * @param onEmpty (optional) Whether an empty sequence returns undefined or throws, defaults to `undefined`.
+     * @returns The greatest value.
+     */
+    public max<K = T, E extends EmptyPolicy = 'undefined'>(selector?: (item: T, index: number) => K, onEmpty?: E): EmptyResult<K, E> {
+        return this.extremum('max', selector, onEmpty, (value, best) => value > best);
+    }
+
+    /**
+     * Returns the element with the least key. Of elements with equal keys, the first is returned.
+     * Enumeration occurs immediately when this method is called.
+     *
+     * @template K Type of the keys.
+     * @template E The empty policy.
+     * @param keySelector Function returning the key for each element.
+     * @param comparer (optional) Comparer or function which orders the keys, defaults to ordering with `<` and `>`.
+     * @param onEmpty (optional) Whether an empty sequence returns undefined or throws, defaults to `undefined`.
+     * @returns The element with the least key.
+     */
+    public minBy<K, E extends EmptyPolicy = 'undefined'>(
+        keySelector: (item: T, index: number) => K,
+        comparer?: Comparator<K> | Comparer<K>,
+        onEmpty?: E,
+    ): EmptyResult<T, E> {
+        const compare = toComparator(comparer);
+        return this.extremumBy('minBy', keySelector, onEmpty, (key, best) => compare(key, best) < 0);
+    }
+
+    /**
+     * Returns the element with the greatest key. Of elements with equal keys, the first is returned.
+     * Enumeration occurs immediately when this method is called.
+     *
+     * @template K Type of the keys.
+     * @template E The empty policy.
+     * @param keySelector Function returning the key for each element.
+     * @param comparer (optional) Comparer or function which orders the keys, defaults to ordering with `<` and `>`.
+     * @param onEmpty (optional) Whether an empty sequence returns undefined or throws, defaults to `undefined`.
+     * @returns The element with the greatest key.
+     */
+    public maxBy<K, E extends EmptyPolicy = 'undefined'>(
+        keySelector: (item: T, index: number) => K,
+        comparer?: Comparator<K> | Comparer<K>,
+        onEmpty?: E,
+    ): EmptyResult<T, E> {
+        const compare = toComparator(comparer);
+        return this.extremumBy('maxBy', keySelector, onEmpty, (key, best) => compare(key, best) > 0);
+    }
+
+    /**
+     * Returns the median of the elements, or of the values selected from them; the same as `percentile(50)`.
+     * Enumeration occurs immediately when this method is called.
+     *
+     * @template N Type of the values, number or bigint.
+     * @template E The empty policy.
+     * @param selector (optional) Function returning the value for each element, defaults to the element itself.
+     * @param onEmpty (optional) Whether an empty sequence returns undefined or throws, defaults to `undefined`.
+     * @returns The median value.
+     */
+    public median<N extends Numeric = T & Numeric, E extends EmptyPolicy = 'undefined'>(
+        selector?: (item: T, index: number) => N,
+        onEmpty?: E,
+    ): EmptyResult<N, E> {
+        return this.quantile('median', 50, selector, onEmpty);
+    }
+
+    /**
+     * Returns the `p`th percentile of the elements, or of the values selected from them, interpolating linearly between the two
+     * nearest values (as Excel's PERCENTILE.INC does). Interpolated bigint results are rounded down. The result is NaN if any
+     * value is NaN. Runs in expected O(n) time using selection rather than sorting.
+     * Enumeration occurs immediately when this method is called.
+     *
+     * @template N Type of the values, number or bigint.
+     * @template E The empty policy.
+     * @param p The percentile, from 0 to 100 inclusive.
+     * @param selector (optional) Function returning the value for each element, defaults to the element itself.
+     * @param onEmpty (optional) Whether an empty sequence returns undefined or throws, defaults to `undefined`.
+     * @returns The value at the percentile.
+     */
+    public percentile<N extends Numeric = T & Numeric, E extends EmptyPolicy = 'undefined'>(
+        p: number,
+        selector?: (item: T, index: number) => N,
+        onEmpty?: E,
+    ): EmptyResult<N, E> {
+        if (!(p >= 0 && p <= 100)) {
+            throw RefinedSetsError.invalidArgument(`Expected 'p' to be between 0 and 100. Received: ${p}.`);
+        }
+        return this.quantile('percentile', p, selector, onEmpty);
+    }
+
+    /**
+     * Computes the count, mean, variance and standard deviation of the elements, or of the values selected from them, in a single
+     * numerically stable pass (Welford's algorithm). bigint values are converted to numbers.
+     * Enumeration occurs immediately when this method is called.
+     *
+     * @template E The empty policy.
+     * @param selector (optional) Function returning the value for each element, defaults to the element itself.
+     * @param onEmpty (optional) Whether an empty sequence returns undefined or throws, defaults to `undefined`.
+     * @returns The summary statistics.
      */
-    private static LazyIterableImpl = class LazyIterableImpl<T> extends LazyIterable<T> {
-        public constructor(private readonly generator: () => IterableIterator<T>) {
-            super();
+    public stats<E extends EmptyPolicy = 'undefined'>(selector?: (item: T, index: number) => Numeric, onEmpty?: E): EmptyResult<SequenceStats, E> {
+        let count = 0;
+        let mean = 0;
+        let m2 = 0;
+        this.forEachWhile((x) => {
+            const value = Number(selector ? selector(x, count) : x);
+            count++;
+            const delta = value - mean;
+            mean += delta / count;
+            m2 += delta * (value - mean);
+        });
+        if (count === 0) {
+            return LazyIterable.emptyResult<SequenceStats, E>('stats', onEmpty);
         }
-        protected getIterator(): Iterator<T> {
-            return this.generator();
+        const variance = m2 / count;
+        const sampleVariance = count > 1 ? m2 / (count - 1) : NaN;
+        return { count, mean, variance, stddev: Math.sqrt(variance), sampleVariance, sampleStddev: Math.sqrt(sampleVariance) };
+    }
+
+    private extremum<K, E extends EmptyPolicy>(
+        operation: string,
+        selector: ((item: T, index: number) => K) | undefined,
+        onEmpty: E | undefined,
+        isBetter: (value: K, best: K) => boolean,
+    ): EmptyResult<K, E> {
+        let best = undefined as K;
+        let index = 0;
+        this.forEachWhile((x) => {
+            const value = (selector ? selector(x, index) : x) as K;
+            if (index++ === 0 || isBetter(value, best)) {
+                best = value;
+            } else if (value !== value) {
+                // NaN compares as neither better nor worse, so it is kept explicitly
+                best = value;
+                return false;
+            }
+        });
+        return index === 0 ? LazyIterable.emptyResult<K, E>(operation, onEmpty) : best;
+    }
+
+    private extremumBy<K, E extends EmptyPolicy>(
+        operation: string,
+        keySelector: (item: T, index: number) => K,
+        onEmpty: E | undefined,
+        isBetter: (key: K, best: K) => boolean,
+    ): EmptyResult<T, E> {
+        let best = undefined as T;
+        let bestKey = undefined as K;
+        let index = 0;
+        this.forEachWhile((x) => {
+            const key = keySelector(x, index);
+            if (index++ === 0 || isBetter(key, bestKey)) {
+                best = x;
+                bestKey = key;
+            }
+        });
+        return index === 0 ? LazyIterable.emptyResult<T, E>(operation, onEmpty) : best;
+    }
+
+    private quantile<N extends Numeric, E extends EmptyPolicy>(
+        operation: string,
+        p: number,
+        selector: ((item: T, index: number) => N) | undefined,
+        onEmpty: E | undefined,
+    ): EmptyResult<N, E> {
+        const values = (selector ? this.map(selector) : this).toArray() as Numeric[];
+        if (values.length === 0) {
+            return LazyIterable.emptyResult<N, E>(operation, onEmpty);
         }
-    };
+        if (values.some((x) => x !== x)) {
+            return NaN as N;
+        }
+        const position = (p / 100) * (values.length - 1);
+        const k = Math.floor(position);
+        const lower = selectInPlace(values, k);
+        if (position === k) {
+            return lower as N;
+        }
+        let upper = values[k + 1];
+        for (let i = k + 2; i < values.length; i++) {
+            if (values[i] < upper) {
+                upper = values[i];
+            }
+        }
+        return interpolate(lower, upper, position - k) as N;
+    }
+
+    /**
+     * Returns undefined for an empty sequence, or throws when the policy is `throw`; the result type follows the policy.
+     */
+    private static emptyResult<R, E extends EmptyPolicy>(operation: string, onEmpty: E | undefined): EmptyResult<R, E> {
+        if (onEmpty === 'throw') {
+            throw RefinedSetsError.sequenceEmpty(`Cannot compute the ${operation} of an empty sequence.`);
+        }
+        return undefined as EmptyResult<R, E>;
+    }
 
     //#endregion
 
+    //#region Ordering
+
     /**
-     * Returns a fresh iterator over the sequence.
+     * Sorts the elements in ascending order by a key. The sort is stable.
+     * Chaining `take(k)` or `first()` selects the leading elements with a bounded heap rather than sorting the whole sequence.
      *
-     * @returns Iterator of elements in this sequence.
+     * @param keySelector Function returning the key to sort by.
+     * @param comparer (optional) Comparer or function which orders the keys, defaults to ordering with `<` and `>`.
+     * @returns A new IOrderedLazyIterable which can be refined with thenBy and thenByDescending.
      */
-    protected abstract getIterator(): Iterator<T>;
+    public orderBy<K>(keySelector: (item: T) => K, comparer?: Comparator<K> | Comparer<K>): IOrderedLazyIterable<T> {
+        return new LazyIterable.OrderedLazyIterableImpl<T>(this, [
+            { selector: keySelector, comparer: toComparator(comparer) as Comparator<unknown>, descending: false },
+        ]);
+    }
 
     /**
-     * Convenience method to extend the current sequence with a new generator.
+     * Sorts the elements in descending order by a key. The sort is stable.
      *
-     * @param generator A generator function that yields elements of type U.
-     * @returns A new ILazyIterable of type U.
+     * @param keySelector Function returning the key to sort by.
+     * @param comparer (optional) Comparer or function which orders the keys, defaults to ordering with `<` and `>`.
+     * @returns A new IOrderedLazyIterable which can be refined with thenBy and thenByDescending.
      */
-    protected extend<U>(generator: (self: ILazyIterable<T>) => IterableIterator<U>): ILazyIterable<U> {
-        const self = this;
-        return new LazyIterable.LazyIterableImpl<U>(() => generator(self));
+    public orderByDescending<K>(keySelector: (item: T) => K, comparer?: Comparator<K> | Comparer<K>): IOrderedLazyIterable<T> {
+        return new LazyIterable.OrderedLazyIterableImpl<T>(this, [
+            { selector: keySelector, comparer: toComparator(comparer) as Comparator<unknown>, descending: true },
+        ]);
     }
 
+    //#endregion
+
+    //#region Grouping
+
     /**
-     * Returns a new iterator for this sequence.
-     * This method is used to implement the iterable protocol.
+     * Groups the elements by key. Groups are yielded in the order their keys are first seen, and elements keep their source order.
+     * The source is buffered when iteration starts. Without a comparer, array keys (such as `[tenantId, userId]`) are compared element-wise.
      *
-     * @returns An iterator that can be used to iterate over the elements.
+     * @template K Type of the grouping key.
+     * @template E Type of elements in each group.
+     * @param keySelector Function returning the key to group by.
+     * @param elementSelector (optional) Function projecting each element before it is added to its group.
+     * @param comparer (optional) Equality comparer for the keys, defaults to SameValueZero.
+     * @returns A new ILazyIterable of groupings, each of which is itself a LazyIterable.
+     */
+    public groupBy<K, E = T>(
+        keySelector: (item: T, index: number) => K,
+        elementSelector?: (item: T, index: number) => E,
+        comparer?: EqualityComparer<K>,
+    ): ILazyIterable<Grouping<K, E>> {
+        return this.extend(
+            'genGroupBy',
+            function* genGroupBy(self): IterableIterator<Grouping<K, E>> {
+                for (const [key, items] of LazyIterable.collectGroups(self, keySelector, elementSelector, comparer)) {
+                    yield new LazyIterable.GroupingImpl(key, items);
+                }
+            },
+            [keySelector, elementSelector, comparer],
+        );
+    }
+
+    /**
+     * Groups the elements by key into a Lookup, which can be queried by key.
+     * Enumeration occurs immediately when this method is called.
      *
+     * @template K Type of the grouping key.
+     * @template E Type of elements in each group.
+     * @param keySelector Function returning the key to group by.
+     * @param elementSelector (optional) Function projecting each element before it is added to its group.
+     * @param comparer (optional) Equality comparer for the keys, defaults to SameValueZero with array keys compared element-wise.
+     * @returns A Lookup from each key to its elements.
      */
-    public [Symbol.iterator](): Iterator<T> {
-        return this.getIterator();
+    public toLookup<K, E = T>(
+        keySelector: (item: T, index: number) => K,
+        elementSelector?: (item: T, index: number) => E,
+        comparer?: EqualityComparer<K>,
+    ): Lookup<K, E> {
+        return new Lookup(this.groupBy(keySelector, elementSelector, comparer), comparer);
     }
 
-    //#region Array-like Methods
+    /**
+     * Collects the elements into a Map.
+     * Enumeration occurs immediately when this method is called. Without a comparer, array keys are compared element-wise; the first
+     * key seen is the one stored.
+     *
+     * @template K Type of keys in the map.
+     * @template V Type of values in the map.
+     * @param keySelector Function returning the key for each element.
+     * @param valueSelector (optional) Function returning the value for each element, defaults to the element itself.
+     * @param onDuplicate (optional) How to handle a key which is already in the map, defaults to `throw`.
+     * @param comparer (optional) Equality comparer deciding which keys are duplicates, defaults to SameValueZero.
+     * @returns A Map from each key to its value.
+     */
+    public toMap<K, V = T>(
+        keySelector: (item: T, index: number) => K,
+        valueSelector?: (item: T, index: number) => V,
+        onDuplicate: DuplicateKeyPolicy = 'throw',
+        comparer?: EqualityComparer<K>,
+    ): Map<K, V> {
+        const result = new Map<K, V>();
+        const keys = new HashTable<K, K>(comparer);
+        let index = 0;
+        for (const x of this) {
+            const key = keySelector(x, index);
+            const value = valueSelector ? valueSelector(x, index) : (x as unknown as V);
+            index++;
+            if (!keys.has(key)) {
+                keys.set(key, key);
+                result.set(key, value);
+            } else if (onDuplicate === 'throw') {
+                throw RefinedSetsError.duplicateKey(`An element with the key ${String(key)} has already been added to the map.`);
+            } else if (onDuplicate === 'last') {
+                result.set(keys.get(key)!, value);
+            }
+        }
+        return result;
+    }
 
     /**
-     * Projects each element of the sequence into a new form.
+     * Splits the elements into those which satisfy the predicate and those which do not.
+     * Enumeration occurs immediately when this method is called.
      *
-     * @template U Type of elements in the result sequence.
-     * @param mapper Function to transform each element.
-     * @returns A new ILazyIterable of type U.
+     * @param predicate A function called once for each element.
+     * @returns A `[matches, rest]` pair of arrays, each in source order.
      */
-    public map<U>(mapper: (item: T, index: number) => U): ILazyIterable<U> {
-        return this.extend(function* genMap(self) {
-            let index = 0;
+    public partition<S extends T>(predicate: (item: T, index: number) => item is S): [S[], Exclude<T, S>[]];
+    public partition(predicate: (item: T, index: number) => boolean): [T[], T[]];
+    public partition(predicate: (item: T, index: number) => boolean): [T[], T[]] {
+        const matches: T[] = [];
+        const rest: T[] = [];
+        let index = 0;
+        for (const x of this) {
+            (predicate(x, index++) ? matches : rest).push(x);
+        }
+        return [matches, rest];
+    }
+
+    /**
+     * Counts the elements for each key.
+     * Enumeration occurs immediately when this method is called. Without a comparer, array keys are compared element-wise.
+     *
+     * @template K Type of the key.
+     * @param keySelector Function returning the key for each element.
+     * @param comparer (optional) Equality comparer for the keys, defaults to SameValueZero.
+     * @returns A Map from each key to the number of elements with that key, in the order keys were first seen.
+     */
+    public countBy<K>(keySelector: (item: T, index: number) => K, comparer?: EqualityComparer<K>): Map<K, number> {
+        const counts = new HashTable<K, number>(comparer);
+        let index = 0;
+        for (const x of this) {
+            const key = keySelector(x, index++);
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+        }
+        return new Map(counts);
+    }
+
+    private static collectGroups<T, K, E>(
+        source: Iterable<T>,
+        keySelector: (item: T, index: number) => K,
+        elementSelector?: (item: T, index: number) => E,
+        comparer?: EqualityComparer<K>,
+    ): HashTable<K, E[]> {
+        const groups = new HashTable<K, E[]>(comparer);
+        let index = 0;
+        for (const x of source) {
+            const key = keySelector(x, index);
+            const element = elementSelector ? elementSelector(x, index) : (x as unknown as E);
+            index++;
+            groups.getOrAdd(key, () => []).push(element);
+        }
+        return groups;
+    }
+
+    //#endregion
+
+    //#region Joins
+
+    /**
+     * Correlates the elements of this sequence with the elements of `inner` which have an equal key (an inner hash join).
+     * `inner` is buffered into a hash table once per iteration, this sequence is streamed.
+     *
+     * @template I Type of elements in the inner sequence.
+     * @template K Type of the join key.
+     * @template R Type of elements in the result sequence.
+     * @param inner The sequence to join with.
+     * @param outerKeySelector Function returning the join key of an element of this sequence.
+     * @param innerKeySelector Function returning the join key of an element of `inner`.
+     * @param resultSelector Function creating a result from a matching pair.
+     * @param comparer (optional) Equality comparer for the join keys, defaults to SameValueZero with array keys compared element-wise.
+     * @returns A new ILazyIterable with one result for each matching pair.
+     */
+    public join<I, K, R>(
+        inner: Iterable<I>,
+        outerKeySelector: (item: T) => K,
+        innerKeySelector: (item: I) => K,
+        resultSelector: (outer: T, inner: I) => R,
+        comparer?: EqualityComparer<K>,
+    ): ILazyIterable<R> {
+        return this.extend(
+            'genJoin',
+            function* genJoin(self) {
+                const lookup = LazyIterable.collectGroups<I, K, I>(inner, innerKeySelector, undefined, comparer);
+                for (const x of self) {
+                    const group = lookup.get(outerKeySelector(x));
+                    if (group) {
+                        for (const y of group) {
+                            yield resultSelector(x, y);
+                        }
+                    }
+                }
+            },
+            [inner, outerKeySelector, innerKeySelector, resultSelector, comparer],
+        );
+    }
+
+    /**
+     * Correlates the elements of this sequence with the elements of `inner` which have an equal key, keeping elements of this sequence which
+     * have no match (a left outer hash join). `inner` is buffered once per iteration, this sequence is streamed.
+     *
+     * @template I Type of elements in the inner sequence.
+     * @template K Type of the join key.
+     * @template R Type of elements in the result sequence.
+     * @param inner The sequence to join with.
+     * @param outerKeySelector Function returning the join key of an element of this sequence.
+     * @param innerKeySelector Function returning the join key of an element of `inner`.
+     * @param resultSelector Function creating a result from a matching pair, called with `undefined` for an unmatched element.
+     * @param comparer (optional) Equality comparer for the join keys, defaults to SameValueZero with array keys compared element-wise.
+     * @returns A new ILazyIterable with one result for each matching pair and each unmatched element of this sequence.
+     */
+    public leftJoin<I, K, R>(
+        inner: Iterable<I>,
+        outerKeySelector: (item: T) => K,
+        innerKeySelector: (item: I) => K,
+        resultSelector: (outer: T, inner: I | undefined) => R,
+        comparer?: EqualityComparer<K>,
+    ): ILazyIterable<R> {
+        return this.extend(
+            'genLeftJoin',
+            function* genLeftJoin(self) {
+                const lookup = LazyIterable.collectGroups<I, K, I>(inner, innerKeySelector, undefined, comparer);
+                for (const x of self) {
+                    const group = lookup.get(outerKeySelector(x));
+                    if (group) {
+                        for (const y of group) {
+                            yield resultSelector(x, y);
+                        }
+                    } else {
+                        yield resultSelector(x, undefined);
+                    }
+                }
+            },
+            [inner, outerKeySelector, innerKeySelector, resultSelector, comparer],
+        );
+    }
+
+    /**
+     * Correlates each element of this sequence with the group of elements of `inner` which have an equal key.
+     * `inner` is buffered once per iteration, this sequence is streamed.
+     *
+     * @template I Type of elements in the inner sequence.
+     * @template K Type of the join key.
+     * @template R Type of elements in the result sequence.
+     * @param inner The sequence to join with.
+     * @param outerKeySelector Function returning the join key of an element of this sequence.
+     * @param innerKeySelector Function returning the join key of an element of `inner`.
+     * @param resultSelector Function creating a result from an element and its (possibly empty) group of matches.
+     * @param comparer (optional) Equality comparer for the join keys, defaults to SameValueZero with array keys compared element-wise.
+     * @returns A new ILazyIterable with one result for each element of this sequence.
+     */
+    public groupJoin<I, K, R>(
+        inner: Iterable<I>,
+        outerKeySelector: (item: T) => K,
+        innerKeySelector: (item: I) => K,
+        resultSelector: (outer: T, inners: ILazyIterable<I>) => R,
+        comparer?: EqualityComparer<K>,
+    ): ILazyIterable<R> {
+        return this.extend(
+            'genGroupJoin',
+            function* genGroupJoin(self) {
+                const lookup = LazyIterable.collectGroups<I, K, I>(inner, innerKeySelector, undefined, comparer);
+                for (const x of self) {
+                    const group = lookup.get(outerKeySelector(x));
+                    yield resultSelector(x, group ? LazyIterable.from(group) : LazyIterable.empty<I>());
+                }
+            },
+            [inner, outerKeySelector, innerKeySelector, resultSelector, comparer],
+        );
+    }
+
+    /**
+     * Correlates the elements of both sequences by key, keeping unmatched elements from either side (a full outer hash join).
+     * Results for this sequence are streamed first, followed by the unmatched elements of `inner` in their original order.
+     *
+     * @template I Type of elements in the inner sequence.
+     * @template K Type of the join key.
+     * @template R Type of elements in the result sequence.
+     * @param inner The sequence to join with.
+     * @param outerKeySelector Function returning the join key of an element of this sequence.
+     * @param innerKeySelector Function returning the join key of an element of `inner`.
+     * @param resultSelector Function creating a result from a matching pair, called with `undefined` for the missing side.
+     * @param comparer (optional) Equality comparer for the join keys, defaults to SameValueZero with array keys compared element-wise.
+     * @returns A new ILazyIterable with one result for each matching pair and each unmatched element of either sequence.
+     */
+    public fullOuterJoin<I, K, R>(
+        inner: Iterable<I>,
+        outerKeySelector: (item: T) => K,
+        innerKeySelector: (item: I) => K,
+        resultSelector: (outer: T | undefined, inner: I | undefined) => R,
+        comparer?: EqualityComparer<K>,
+    ): ILazyIterable<R> {
+        return this.extend(
+            'genFullOuterJoin',
+            function* genFullOuterJoin(self) {
+                const lookup = new HashTable<K, I[]>(comparer);
+                const inners: [I, I[]][] = [];
+                for (const y of inner) {
+                    const group = lookup.getOrAdd(innerKeySelector(y), () => []);
+                    group.push(y);
+                    inners.push([y, group]);
+                }
+                const matched = new Set<I[]>();
+                for (const x of self) {
+                    const group = lookup.get(outerKeySelector(x));
+                    if (group) {
+                        matched.add(group);
+                        for (const y of group) {
+                            yield resultSelector(x, y);
+                        }
+                    } else {
+                        yield resultSelector(x, undefined);
+                    }
+                }
+                for (const [y, group] of inners) {
+                    if (!matched.has(group)) {
+                        yield resultSelector(undefined, y);
+                    }
+                }
+            },
+            [inner, outerKeySelector, innerKeySelector, resultSelector, comparer],
+        );
+    }
+
+    /**
+     * Pairs every element of this sequence with every element of `inner` (a cartesian product).
+     * `inner` is buffered once per iteration, this sequence is streamed.
+     *
+     * @template I Type of elements in the inner sequence.
+     * @param inner The sequence to pair with.
+     * @returns A new ILazyIterable of `[outer, inner]` tuples.
+     */
+    public crossJoin<I>(inner: Iterable<I>): ILazyIterable<[T, I]>;
+    /**
+     * Pairs every element of this sequence with every element of `inner` (a cartesian product).
+     * `inner` is buffered once per iteration, this sequence is streamed.
+     *
+     * @template I Type of elements in the inner sequence.
+     * @template R Type of elements in the result sequence.
+     * @param inner The sequence to pair with.
+     * @param resultSelector Function creating a result from each pair.
+     * @returns A new ILazyIterable with one result for each pair.
+     */
+    public crossJoin<I, R>(inner: Iterable<I>, resultSelector: (outer: T, inner: I) => R): ILazyIterable<R>;
+    public crossJoin<I, R>(inner: Iterable<I>, resultSelector?: (outer: T, inner: I) => R): ILazyIterable<R | [T, I]> {
+        const select = resultSelector ?? ((x: T, y: I): [T, I] => [x, y]);
+        return this.extend(
+            'genCrossJoin',
+            function* genCrossJoin(self) {
+                const buffered = [...inner];
+                for (const x of self) {
+                    for (const y of buffered) {
+                        yield select(x, y);
+                    }
+                }
+            },
+            [inner, resultSelector],
+        );
+    }
+
+    //#endregion
+
+    //#region Sequence Shaping
+
+    /**
+     * Splits the sequence into consecutive arrays of `size` elements. The final chunk may be shorter.
+     *
+     * @param size A positive integer, the number of elements in each chunk.
+     * @returns A new ILazyIterable of chunks.
+     */
+    public chunk(size: number): ILazyIterable<T[]> {
+        LazyIterable.assertPositiveInteger('size', size);
+        return this.extend(
+            'genChunk',
+            function* genChunk(self) {
+                let chunk: T[] = [];
+                for (const x of self) {
+                    chunk.push(x);
+                    if (chunk.length === size) {
+                        yield chunk;
+                        chunk = [];
+                    }
+                }
+                if (chunk.length > 0) {
+                    yield chunk;
+                }
+            },
+            [size],
+        );
+    }
+
+    /**
+     * Yields sliding windows of `size` elements, starting a new window every `step` elements.
+     *
+     * @param size A positive integer, the number of elements in each window.
+     * @param step (optional) A positive integer, the distance between the starts of consecutive windows, defaults to 1.
+     * @param options (optional) Set `partial` to also yield the shorter windows which start near the end of the sequence.
+     * @returns A new ILazyIterable of windows.
+     */
+    public window(size: number, step = 1, options?: { partial?: boolean }): ILazyIterable<T[]> {
+        LazyIterable.assertPositiveInteger('size', size);
+        LazyIterable.assertPositiveInteger('step', step);
+        const partial = options?.partial ?? false;
+        return this.extend(
+            'genWindow',
+            function* genWindow(self) {
+                const buffer: T[] = [];
+                let toSkip = 0;
+                for (const x of self) {
+                    if (toSkip > 0) {
+                        toSkip--;
+                        continue;
+                    }
+                    buffer.push(x);
+                    if (buffer.length === size) {
+                        yield buffer.slice();
+                        toSkip = Math.max(0, step - size);
+                        buffer.splice(0, step);
+                    }
+                }
+                while (partial && buffer.length > 0) {
+                    yield buffer.slice();
+                    buffer.splice(0, step);
+                }
+            },
+            [size, step, options],
+        );
+    }
+
+    /**
+     * Yields each element paired with the element before it. A sequence of n elements yields n - 1 pairs.
+     *
+     * @returns A new ILazyIterable of `[previous, current]` tuples.
+     */
+    public pairwise(): ILazyIterable<[T, T]> {
+        return this.extend('genPairwise', function* genPairwise(self): IterableIterator<[T, T]> {
+            let hasPrevious = false;
+            let previous: T;
             for (const x of self) {
-                yield mapper(x, index++);
+                if (hasPrevious) {
+                    yield [previous!, x];
+                }
+                previous = x;
+                hasPrevious = true;
             }
         });
     }
 
     /**
-     * Returns the elements of an array that meet the condition specified in a callback function.
+     * Yields the running accumulation of the sequence, like a reduce which yields every intermediate result.
      *
-     * @param predicate A function that accepts up to two arguments. The filter method calls the predicate function one time for each element in the array.
-     * @returns A new ILazyIterable containing only elements that satisfy predicate.
+     * @template U Type of the accumulated value.
+     * @param reducer A function called once for each element with the accumulated value.
+     * @param seed The initial accumulated value, which is not itself yielded.
+     * @returns A new ILazyIterable of accumulated values, one for each element.
      */
-    public filter(predicate: (item: T, index: number) => boolean): ILazyIterable<T> {
-        return this.extend(function* genFilter(self) {
-            let index = 0;
-            for (const x of self) {
-                if (predicate(x, index++)) {
-                    yield x;
+    public scan<U>(reducer: (accumulator: U, item: T, index: number) => U, seed: U): ILazyIterable<U> {
+        return this.extend(
+            'genScan',
+            function* genScan(self) {
+                let accumulator = seed;
+                let index = 0;
+                for (const x of self) {
+                    accumulator = reducer(accumulator, x, index++);
+                    yield accumulator;
+                }
+            },
+            [reducer, seed],
+        );
+    }
+
+    /**
+     * Combines this sequence with other iterables element by element, stopping when the shortest is exhausted.
+     *
+     * @param others The iterables to combine with.
+     * @returns A new ILazyIterable of tuples, one element from each sequence.
+     */
+    public zip<U extends unknown[]>(...others: { [K in keyof U]: Iterable<U[K]> }): ILazyIterable<[T, ...U]> {
+        return this.extend(
+            'genZip',
+            function* genZip(self) {
+                yield* LazyIterable.zipIterables([self, ...others], false) as IterableIterator<[T, ...U]>;
+            },
+            [...others],
+        );
+    }
+
+    /**
+     * Combines this sequence with other iterables element by element, continuing until the longest is exhausted.
+     * Exhausted sequences contribute `undefined`.
+     *
+     * @param others The iterables to combine with.
+     * @returns A new ILazyIterable of tuples, one element (or `undefined`) from each sequence.
+     */
+    public zipLongest<U extends unknown[]>(
+        ...others: { [K in keyof U]: Iterable<U[K]> }
+    ): ILazyIterable<[T | undefined, ...{ [K in keyof U]: U[K] | undefined }]> {
+        return this.extend(
+            'genZipLongest',
+            function* genZipLongest(self) {
+                yield* LazyIterable.zipIterables([self, ...others], true) as IterableIterator<[T | undefined, ...{ [K in keyof U]: U[K] | undefined }]>;
+            },
+            [...others],
+        );
+    }
+
+    /**
+     * Alternates between the elements of this sequence and other iterables, one element from each in turn.
+     * Exhausted sequences are dropped from the rotation.
+     *
+     * @param others The iterables to interleave with.
+     * @returns A new ILazyIterable of the interleaved elements.
+     */
+    public interleave<U>(...others: Iterable<U>[]): ILazyIterable<T | U> {
+        return this.extend(
+            'genInterleave',
+            function* genInterleave(self) {
+                let iterators: Iterator<T | U>[] = [];
+                try {
+                    for (const iterable of [self, ...others]) {
+                        iterators.push(iterable[Symbol.iterator]());
+                    }
+                    while (iterators.length > 0) {
+                        const active: Iterator<T | U>[] = [];
+                        for (const iterator of iterators) {
+                            const next = iterator.next();
+                            if (!next.done) {
+                                active.push(iterator);
+                                yield next.value;
+                            }
+                        }
+                        iterators = active;
+                    }
+                } finally {
+                    for (const iterator of iterators) {
+                        iterator.return?.();
+                    }
                 }
+            },
+            [...others],
+        );
+    }
+
+    private static *zipIterables(iterables: Iterable<unknown>[], longest: boolean): IterableIterator<unknown[]> {
+        const iterators: Iterator<unknown>[] = [];
+        const done = iterables.map(() => false);
+        let remaining = iterables.length;
+        try {
+            for (const iterable of iterables) {
+                iterators.push(iterable[Symbol.iterator]());
             }
-        });
+            while (true) {
+                const tuple: unknown[] = [];
+                for (let i = 0; i < iterators.length; i++) {
+                    const next = done[i] ? undefined : iterators[i].next();
+                    if (next && !next.done) {
+                        tuple.push(next.value);
+                        continue;
+                    }
+                    if (next) {
+                        done[i] = true;
+                        remaining--;
+                    }
+                    if (!longest || remaining === 0) {
+                        return;
+                    }
+                    tuple.push(undefined);
+                }
+                yield tuple;
+            }
+        } finally {
+            iterators.forEach((iterator, i) => {
+                if (!done[i]) {
+                    iterator.return?.();
+                }
+            });
+        }
+    }
+
+    private static assertPositiveInteger(name: string, value: number): void {
+        if (!Number.isInteger(value) || value < 1) {
+            throw RefinedSetsError.invalidArgument(`Expected '${name}' to be a positive integer. Received: ${value}.`);
+        }
+    }
+
+    //#endregion
+
+    //#region Error Handling
+
+    /**
+     * Recovers from an error thrown while enumerating this sequence, whether by the source or by a callback of an earlier operator.
+     * The elements yielded before the error are kept, then `handler` is called and the sequence continues with the elements it
+     * returns, or ends if it returns nothing. The failed enumeration cannot be resumed; use `onErrorSkip` to drop only the failing
+     * elements of a map or filter chain, or `retry` to enumerate the source again.
+     *
+     * @template U Type of elements in the fallback sequence.
+     * @param handler Function called with the error and the number of elements yielded before it, returning a fallback sequence.
+     * @returns A new ILazyIterable of the elements up to the error followed by the fallback elements.
+     */
+    public catchError<U = T>(handler: (error: unknown, index: number) => Iterable<U> | void): ILazyIterable<T | U> {
+        return this.extend<T | U>(
+            'genCatchError',
+            function* genCatchError(self) {
+                let index = 0;
+                let fallback: Iterable<U> | void;
+                try {
+                    for (const x of self) {
+                        yield x;
+                        index++;
+                    }
+                    return;
+                } catch (error) {
+                    fallback = handler(error, index);
+                }
+                if (fallback) {
+                    yield* fallback;
+                }
+            },
+            [handler],
+        );
+    }
+
+    /**
+     * Drops the elements for which a map or filter callback throws, and continues with the next element.
+     * Only the map and filter calls chained directly before this one are covered, since they run as a single loop which can
+     * resume; an error from the source or another operator ends the enumeration, so it is rethrown.
+     *
+     * @param onError (optional) Function called with each error and the position of the dropped element among those reaching the chain.
+     * @returns A new ILazyIterable without the elements whose callbacks threw.
+     */
+    public onErrorSkip(onError?: (error: unknown, index: number) => void): ILazyIterable<T> {
+        return this.fuse({ kind: 'catch', name: 'genOnErrorSkip', callback: onError ?? (() => undefined), args: [onError] });
+    }
+
+    /**
+     * Rethrows errors from the map and filter callbacks chained directly before this call as `callback-error` RefinedSetsErrors,
+     * which record the operator name, the index the callback was called with and the original error as `cause`.
+     * Errors from the source or other operators are rethrown unchanged.
+     *
+     * @returns A new ILazyIterable with the same elements.
+     */
+    public wrapErrors(): ILazyIterable<T> {
+        return this.fuse({ kind: 'wrap', name: 'genWrapErrors', callback: () => undefined, args: [] });
+    }
+
+    /**
+     * Enumerates this sequence again when it throws, up to `count` more times. The source must be re-iterable and yield the same
+     * elements each time: a retry skips the elements already yielded, so each position is yielded once. The error is rethrown once
+     * the retries are used up.
+     *
+     * @param count The number of times to retry, a non-negative integer.
+     * @returns A new ILazyIterable with the same elements.
+     */
+    public retry(count: number): ILazyIterable<T> {
+        assertCount('count', count);
+        return this.extend(
+            'genRetry',
+            function* genRetry(self) {
+                let yielded = 0;
+                for (let attempt = 0; ; attempt++) {
+                    let index = 0;
+                    try {
+                        for (const x of self) {
+                            if (index++ >= yielded) {
+                                yielded++;
+                                yield x;
+                            }
+                        }
+                        return;
+                    } catch (error) {
+                        if (attempt >= count) {
+                            throw error;
+                        }
+                    }
+                }
+            },
+            [count],
+        );
+    }
+
+    //#endregion
+
+    //#region Combinatorics
+
+    /**
+     * Yields every way to choose `k` elements, as arrays in lexicographic order of their positions in this sequence; without
+     * repetition, each array keeps the elements in sequence order. Elements are distinguished by position, not by value.
+     * This sequence is buffered when the result is read; the combinations are produced one at a time, and `skip` jumps straight
+     * to a position, so large spaces can be sampled with `skip` and `take`.
+     *
+     * @param k The number of elements in each combination.
+     * @param options (optional) Whether an element may be chosen more than once.
+     * @returns A new ILazyIterable of combinations.
+     */
+    public combinations(k: number, options?: CombinatoricsOptions): ILazyIterable<T[]> {
+        assertCount('k', k);
+        const repetition = options?.repetition ?? false;
+        return new LazyIterable.IndexSpaceLazyIterableImpl<T[]>([this], ([n]) => combinationSpace(n, k, repetition), 'genCombinations', [k, options], true);
+    }
+
+    /**
+     * Yields every ordered arrangement of `k` elements, as arrays in lexicographic order of their positions in this sequence.
+     * Elements are distinguished by position, not by value. Like combinations, the space is never held in memory and `skip`
+     * jumps straight to a position.
+     *
+     * @param k (optional) The number of elements in each permutation, defaults to the length of this sequence.
+     * @param options (optional) Whether an element may be chosen more than once.
+     * @returns A new ILazyIterable of permutations.
+     */
+    public permutations(k?: number, options?: CombinatoricsOptions): ILazyIterable<T[]> {
+        if (k !== undefined) {
+            assertCount('k', k);
+        }
+        const repetition = options?.repetition ?? false;
+        return new LazyIterable.IndexSpaceLazyIterableImpl<T[]>(
+            [this],
+            ([n]) => permutationSpace(n, k ?? n, repetition),
+            'genPermutations',
+            [k, options],
+            true,
+        );
+    }
+
+    /**
+     * Yields every subset of the elements, as arrays in lexicographic order of their positions in this sequence, starting with
+     * the empty array. Like combinations, the space is never held in memory and `skip` jumps straight to a position.
+     *
+     * @returns A new ILazyIterable of the 2^n subsets.
+     */
+    public powerSet(): ILazyIterable<T[]> {
+        return new LazyIterable.IndexSpaceLazyIterableImpl<T[]>([this], ([n]) => powerSetSpace(n), 'genPowerSet', [], true);
+    }
+
+    /**
+     * Creates a new ILazyIterable over the cartesian product of `iterables`: one tuple for each way of taking an element from
+     * each, in lexicographic order, so the last iterable varies fastest. The iterables are buffered when the result is read.
+     *
+     * @template U Types of elements in each iterable.
+     * @param iterables The iterables to combine.
+     * @returns A new ILazyIterable of tuples.
+     */
+    public static product<U extends unknown[]>(...iterables: { [K in keyof U]: Iterable<U[K]> }): ILazyIterable<U> {
+        return new LazyIterable.IndexSpaceLazyIterableImpl<U>(iterables, productSpace, 'genProduct', iterables, false);
+    }
+
+    /**
+     * Returns the exact number of combinations of `k` elements from `n`, which `combinations` would yield.
+     *
+     * @param n The number of elements to choose from.
+     * @param k The number of elements in each combination.
+     * @param options (optional) Whether an element may be chosen more than once.
+     * @returns The number of combinations.
+     */
+    public static combinationCount(n: number, k: number, options?: CombinatoricsOptions): bigint {
+        assertCount('n', n);
+        assertCount('k', k);
+        return combinationSpace(n, k, options?.repetition ?? false).size;
+    }
+
+    /**
+     * Returns the exact number of permutations of `k` elements from `n`, which `permutations` would yield.
+     *
+     * @param n The number of elements to choose from.
+     * @param k (optional) The number of elements in each permutation, defaults to `n`.
+     * @param options (optional) Whether an element may be chosen more than once.
+     * @returns The number of permutations.
+     */
+    public static permutationCount(n: number, k = n, options?: CombinatoricsOptions): bigint {
+        assertCount('n', n);
+        assertCount('k', k);
+        return permutationSpace(n, k, options?.repetition ?? false).size;
+    }
+
+    //#endregion
+
+    //#region Set Operations
+
+    /**
+     * Yields the distinct elements which appear in either this sequence or `other`.
+     * This sequence is streamed first, then `other` is streamed, skipping elements equal to one already yielded.
+     *
+     * @param other The sequence to union with.
+     * @param equality (optional) Equality comparer for the elements, or a function returning the key to compare by, defaults to SameValueZero.
+     * @returns A new ILazyIterable containing the set union of both sequences.
+     */
+    public union(other: Iterable<T>, equality?: EqualityComparer<T> | ((item: T) => unknown)): ILazyIterable<T> {
+        const keyEquality = LazyIterable.equalityOf(equality);
+        return this.extend(
+            'genUnion',
+            function* genUnion(self) {
+                const isFirst = firstOccurrence(keyEquality);
+                for (const source of [self, other]) {
+                    for (const x of source) {
+                        if (isFirst(x)) {
+                            yield x;
+                        }
+                    }
+                }
+            },
+            [other, equality],
+        );
+    }
+
+    /**
+     * Yields the distinct elements of this sequence which also appear in `other`.
+     * `other` is buffered into a hash table when iteration starts, this sequence is streamed.
+     *
+     * @param other The sequence to intersect with.
+     * @param equality (optional) Equality comparer for the elements, or a function returning the key to compare by, defaults to SameValueZero.
+     * @returns A new ILazyIterable containing the set intersection of both sequences.
+     */
+    public intersect(other: Iterable<T>, equality?: EqualityComparer<T> | ((item: T) => unknown)): ILazyIterable<T> {
+        const keyEquality = LazyIterable.equalityOf(equality);
+        return this.extend(
+            'genIntersect',
+            function* genIntersect(self) {
+                const remaining = LazyIterable.toHashTable(other, keyEquality);
+                for (const x of self) {
+                    if (remaining.delete(x)) {
+                        yield x;
+                    }
+                }
+            },
+            [other, equality],
+        );
     }
 
     /**
-     * Projects each element into an iterable and flattens the resulting sequences.
+     * Yields the distinct elements of this sequence which do not appear in `other`.
+     * `other` is buffered into a hash table when iteration starts, this sequence is streamed.
      *
-     * @template U Type of elements in the flattened sequence.
-     * @param mapper A function that accepts up to two arguments. The flatMap method calls the callback function one time for each element in the array.
-     * @returns A new ILazyIterable containing all values from the iterables returned by mapper.
+     * @param other The sequence whose elements are excluded.
+     * @param equality (optional) Equality comparer for the elements, or a function returning the key to compare by, defaults to SameValueZero.
+     * @returns A new ILazyIterable containing the set difference of this sequence and `other`.
      */
-    public flatMap<U>(mapper: (item: T, index: number) => Iterable<U>): ILazyIterable<U> {
-        const self = this;
-        return this.extend(function* genFlatMap() {
-            let index = 0;
-            for (const x of self) {
-                for (const y of mapper(x, index++)) {
-                    yield y;
+    public except(other: Iterable<T>, equality?: EqualityComparer<T> | ((item: T) => unknown)): ILazyIterable<T> {
+        const keyEquality = LazyIterable.equalityOf(equality);
+        return this.extend(
+            'genExcept',
+            function* genExcept(self) {
+                const excluded = LazyIterable.toHashTable(other, keyEquality);
+                for (const x of self) {
+                    if (!excluded.has(x)) {
+                        excluded.set(x, true);
+                        yield x;
+                    }
                 }
-            }
-        });
+            },
+            [other, equality],
+        );
     }
 
     /**
-     * Invokes a side-effecting callback for each element in the sequence.
-     * Enumeration occurs immediately when this method is called.
+     * Yields the distinct elements which appear in exactly one of this sequence and `other`.
+     * Elements of this sequence are streamed first, followed by the unmatched elements of `other`, which is buffered when iteration starts.
      *
-     * @param callback Function to execute for each element.
+     * @param other The sequence to compare with.
+     * @param equality (optional) Equality comparer for the elements, or a function returning the key to compare by, defaults to SameValueZero.
+     * @returns A new ILazyIterable containing the symmetric difference of both sequences.
      */
-    public forEach(callback: (item: T, index: number) => void): void {
-        let index = 0;
-        for (const x of this) {
-            callback(x, index++);
-        }
+    public symmetricDifference(other: Iterable<T>, equality?: EqualityComparer<T> | ((item: T) => unknown)): ILazyIterable<T> {
+        const keyEquality = LazyIterable.equalityOf(equality);
+        return this.extend(
+            'genSymmetricDifference',
+            function* genSymmetricDifference(self) {
+                const right = LazyIterable.toHashTable(other, keyEquality);
+                const seen = new HashTable<T, true>(keyEquality);
+                for (const x of self) {
+                    if (!seen.has(x)) {
+                        seen.set(x, true);
+                        if (!right.has(x)) {
+                            yield x;
+                        }
+                    }
+                }
+                for (const x of right.keys()) {
+                    if (!seen.has(x)) {
+                        yield x;
+                    }
+                }
+            },
+            [other, equality],
+        );
     }
 
     /**
-     * Determines whether any element satisfies the predicate.
+     * Determines whether every element of this sequence appears in `other`.
+     * Enumeration stops at the first element which is missing from `other`.
      *
-     * @param predicate A function that accepts up to twoarguments. The some method calls the predicate function for each element in the array until the
-     * predicate returns a value which is coercible to the Boolean value true, or until the end of the array.
-     * @returns True if at least one element passes the test; otherwise, false.
+     * @param other The candidate superset.
+     * @param equality (optional) Equality comparer for the elements, or a function returning the key to compare by, defaults to SameValueZero.
+     * @returns True if this sequence is a subset of `other`; otherwise, false.
      */
-    public some(predicate: (item: T, index: number) => boolean): boolean {
-        let index = 0;
-        for (const x of this) {
-            if (predicate(x, index++)) {
-                return true;
-            }
-        }
-        return false;
+    public isSubsetOf(other: Iterable<T>, equality?: EqualityComparer<T> | ((item: T) => unknown)): boolean {
+        const elements = LazyIterable.toHashTable(other, LazyIterable.equalityOf(equality));
+        return this.every((x) => elements.has(x));
     }
 
     /**
-     * Determines whether all elements satisfy the predicate.
+     * Determines whether every element of `other` appears in this sequence.
+     * Enumeration stops as soon as every element of `other` has been found.
      *
-     * @param predicate A function that accepts up to two arguments. The every method calls the predicate function for each element in the array until the
-     * predicate returns a value which is coercible to the Boolean value false, or until the end of the array.
-     * @returns True if every element passes the test; otherwise, false.
+     * @param other The candidate subset.
+     * @param equality (optional) Equality comparer for the elements, or a function returning the key to compare by, defaults to SameValueZero.
+     * @returns True if this sequence is a superset of `other`; otherwise, false.
      */
-    public every(predicate: (item: T, index: number) => boolean): boolean {
-        let index = 0;
-        for (const x of this) {
-            if (!predicate(x, index++)) {
-                return false;
-            }
+    public isSupersetOf(other: Iterable<T>, equality?: EqualityComparer<T> | ((item: T) => unknown)): boolean {
+        const missing = LazyIterable.toHashTable(other, LazyIterable.equalityOf(equality));
+        if (missing.size === 0) {
+            return true;
         }
-        return true;
+        return this.some((x) => missing.delete(x) && missing.size === 0);
     }
 
     /**
-     * Returns the value of the first element in the array where predicate is true, and undefined otherwise.
+     * Determines whether this sequence and `other` have no elements in common.
+     * Enumeration stops at the first shared element.
      *
-     * @param predicate find calls predicate once for each element of the array, in ascending order, until it finds one where predicate returns true. If such
-     * an element is found, find immediately returns that element value. Otherwise, find returns undefined.
-     * @returns The first matching element, or `undefined` if none matched.
+     * @param other The sequence to compare with.
+     * @param equality (optional) Equality comparer for the elements, or a function returning the key to compare by, defaults to SameValueZero.
+     * @returns True if no element of this sequence appears in `other`; otherwise, false.
      */
-    public find(predicate: (item: T, index: number) => boolean): T | undefined {
-        let index = 0;
-        for (const x of this) {
-            if (predicate(x, index++)) {
-                return x;
-            }
-        }
-        return undefined;
+    public isDisjointFrom(other: Iterable<T>, equality?: EqualityComparer<T> | ((item: T) => unknown)): boolean {
+        const elements = LazyIterable.toHashTable(other, LazyIterable.equalityOf(equality));
+        return !this.some((x) => elements.has(x));
     }
 
     /**
-     * Calls the specified callback function for all the elements in an array. The return value of the callback function is the accumulated result, and is
-     * provided as an argument in the next call to the callback function.
-     *
-     * @param reducer - A function that accepts up to four arguments. The reduce method calls the callbackfn function one time for each element in the
-     * array.
-     * @param initialValue - If initialValue is specified, it is used as the initial value to start the accumulation. The first call to the callbackfn
-     * function provides this value as an argument instead of an array value.
-     * @returns The final accumulated value.
+     * Returns the equality distinct and the set operations compare elements with. Keys returned by a function are normalized with
+     * toCompositeKey, so that array keys are compared element-wise, while elements compared without one keep SameValueZero.
      */
-    public reduce<U>(reducer: (accumulator: U, item: T, index: number) => U, initial: U): U {
-        let result = initial;
-        let index = 0;
-        for (const x of this) {
-            result = reducer(result, x, index++);
+    private static equalityOf<T>(equality: EqualityComparer<T> | ((item: T) => unknown) | undefined): KeyEquality<T> {
+        return typeof equality === 'function' ? { hash: equality } : (equality ?? EqualityComparer.default);
+    }
+
+    private static toHashTable<T>(iterable: Iterable<T>, equality: KeyEquality<T>): HashTable<T, true> {
+        const table = new HashTable<T, true>(equality);
+        for (const x of iterable) {
+            table.set(x, true);
         }
-        return result;
+        return table;
     }
 
+    //#endregion
+
+    //#region Diagnostics
+
     /**
-     * Yields the every element in the current sequence concatenated with the elements from the provided iterables.
+     * Calls `callback` with each element as it passes through, without changing the sequence. Useful for logging the elements
+     * at some point of a chain.
      *
-     * @returns The first element, or undefined if the sequence is empty.
+     * @param callback Function called with each element and its index.
+     * @returns A new ILazyIterable containing the same elements.
      */
-    public concat<U>(...iterables: Iterable<U>[]): ILazyIterable<T | U> {
-        return this.extend(function* genConcat(self) {
-            for (const x of self) {
-                yield x;
-            }
-            for (const iterable of iterables) {
-                for (const y of iterable) {
-                    yield y;
+    public tap(callback: (item: T, index: number) => void): ILazyIterable<T> {
+        return this.extend(
+            'genTap',
+            function* genTap(self) {
+                let index = 0;
+                for (const x of self) {
+                    callback(x, index++);
+                    yield x;
                 }
-            }
-        });
+            },
+            [callback],
+        );
     }
 
     /**
-     * Yields a tuple of [index, element] for each element in the sequence
+     * Describes the chain of operators which produces this sequence, one operator per line from the start of the chain, with the
+     * arguments each was called with. Consecutive skips and takes are shown separately even though they run as one operator.
      *
-     * @returns The first element, or undefined if the sequence is empty.
+     * @returns A description such as `genArray(Array(3))\n  -> genMap((x) => x * 2)`.
      */
-    public entries(): ILazyIterable<[number, T]> {
-        const self = this;
-        return this.extend(function* genEntries(self): IterableIterator<[number, T]> {
-            let index = 0;
-            for (const x of self) {
-                yield [index++, x];
-            }
-        });
+    public explain(): string {
+        const lines: string[] = [];
+        for (let node: OperatorNode | undefined = this.describe(); node; node = node.source && LazyIterable.describeOf(node.source)) {
+            lines.unshift(`${node.name}(${formatArguments(node.args)})`);
+        }
+        return lines.join('\n  -> ');
+    }
+
+    /**
+     * Returns a copy of this chain which records, for each operator, the elements it pulls and yields and the time spent in it.
+     * Measurements accumulate over every iteration of the returned sequence and are read with `report()`.
+     * Probing each operator has a cost, and disables shortcuts such as O(1) `count`, so only instrument chains being investigated.
+     * Iterables passed as arguments, such as the inner sequence of a join, are not instrumented.
+     *
+     * @returns A new InstrumentedLazyIterable containing the same elements.
+     */
+    public instrument(): InstrumentedLazyIterable<T> {
+        const probes: StageProbe[] = [];
+        const sequence = LazyIterable.probeChain(this, probes);
+        return new LazyIterable.InstrumentedLazyIterableImpl(sequence, probes);
+    }
+
+    private static probeChain<T>(sequence: LazyIterable<T>, probes: StageProbe[]): LazyIterable<T> {
+        const node = sequence.describe();
+        const stats = { yielded: 0, time: 0 };
+        if (!node.source || !node.rebuild) {
+            probes.push({ node, stats });
+            return new LazyIterable.ProbeLazyIterableImpl(sequence, stats);
+        }
+        const upstream = LazyIterable.probeChain(node.source, probes);
+        probes.push({ node, stats, upstream: probes[probes.length - 1].stats });
+        return new LazyIterable.ProbeLazyIterableImpl(node.rebuild(upstream), stats);
     }
 
     //#endregion
 
-    //#region Extended Iterable Methods
+    //#region Construct and Convert
 
     /**
-     * Returns a sequence containing only the first `count` elements.
+     * Collects all elements into an array.
+     * Enumeration occurs immediately when this method is called.
      *
-     * @param count Number of elements to take.
-     * @returns A new ILazyIterable containing up to `count` elements from the start.
+     * @returns An array containing all elements from this sequence.
      */
-    public take(count: number): ILazyIterable<T> {
-        return this.extend(function* genTake(self) {
-            let taken = 0;
-            if (count <= 0) {
-                return;
-            }
-            for (const x of self) {
-                yield x;
-                taken += 1;
-                if (taken >= count) {
-                    break;
-                }
+    public toArray(): T[] {
+        const info = this.getSourceInfo();
+        if (info?.at && Number.isFinite(info.length)) {
+            const result = new Array<T>(info.length);
+            for (let i = 0; i < info.length; i++) {
+                result[i] = info.at(i);
             }
+            return result;
+        }
+        const result: T[] = [];
+        this.forEachWhile((x) => {
+            result.push(x);
         });
+        return result;
     }
 
     /**
-     * Skips the first `count` elements and returns the remainder of the sequence.
+     * Collects all elements into a RefinedSet.
+     * Enumeration occurs immediately when this method is called.
      *
-     * @param count Number of elements to skip.
-     * @returns A new ILazyIterable starting after the first `count` elements.
+     * @param equality (optional) Key selector or hash/equals pair used to compare elements, defaults to the element itself.
+     * @returns A RefinedSet containing the distinct elements of this sequence.
      */
-    public skip(count: number): ILazyIterable<T> {
-        return this.extend(function* gen(self) {
-            let skipped = 0;
-            for (const x of self) {
-                if (skipped < count) {
-                    skipped += 1;
-                    continue;
-                }
-                yield x;
-            }
-        });
+    public toRefinedSet(equality?: RefinedSetEquality<T>): RefinedSet<T> {
+        return new RefinedSet(this, equality);
     }
 
     /**
-     * Yield deduplicated elements, optionally based on a key.
+     * Collects all elements into a BitSet.
+     * Enumeration occurs immediately when this method is called, and throws if an element is not an integer from 0 to BitSet.MAX_VALUE.
      *
-     * @param predicate Function invoked on each element.
-     * @returns The index of the first matching element, or -1 if none matched.
+     * @returns A BitSet containing the elements of this sequence.
      */
-    public distinct(distinctBy?: (item: T) => any): ILazyIterable<T> {
-        distinctBy ??= (x: T) => x;
-        return this.extend(function* genDistint(self) {
-            const seen = new Set();
-            for (const x of self) {
-                const key = distinctBy!(x);
-                if (!seen.has(key)) {
-                    seen.add(key);
-                    yield x;
-                }
-            }
-        });
+    public toBitSet(this: LazyIterable<number>): BitSet {
+        return new BitSet(this);
     }
 
     /**
-     * Returns the number of elements in the sequence.
+     * Collects all elements into a new typed array of the given type.
+     * When the length is known in advance, as it is for typed arrays, arrays, ranges and map chains over them, the elements are
+     * written straight into a preallocated typed array; otherwise the buffer grows as elements arrive and is trimmed at the end.
+     * Values are converted as assigning to the typed array converts them, so they may be truncated or wrap around.
+     * Enumeration occurs immediately when this method is called.
      *
-     * @returns The count of elements in this sequence.
+     * @template A Type of the typed array.
+     * @param ctor The typed array constructor, such as Float64Array.
+     * @returns A typed array containing all elements from this sequence.
      */
-    public count(): number {
-        let count = 0;
-        for (const _ of this) {
-            count += 1;
+    public toTypedArray<A extends NumericTypedArray>(this: LazyIterable<number>, ctor: new (length: number) => A): A;
+    public toTypedArray<A extends BigIntTypedArray>(this: LazyIterable<bigint>, ctor: new (length: number) => A): A;
+    public toTypedArray(ctor: new (length: number) => NumericTypedArray | BigIntTypedArray): NumericTypedArray | BigIntTypedArray {
+        const create = ctor as unknown as new (length: number) => TypedArrayBuffer<T>;
+        const info = this.getSourceInfo();
+        let length = 0;
+        if (info?.at && Number.isFinite(info.length)) {
+            const result = new create(info.length);
+            for (; length < info.length; length++) {
+                result[length] = info.at(length);
+            }
+            return result as unknown as NumericTypedArray | BigIntTypedArray;
         }
-        return count;
+        const known = LazyIterable.knownLengthOf(this);
+        let result = new create(known !== undefined && Number.isFinite(known) ? known : 16);
+        this.forEachWhile((x) => {
+            if (length === result.length) {
+                const grown = new create(Math.max(length * 2, 16));
+                grown.set(result);
+                result = grown;
+            }
+            result[length++] = x;
+        });
+        return (length === result.length ? result : result.slice(0, length)) as unknown as NumericTypedArray | BigIntTypedArray;
     }
 
     /**
-     * Returns the first element in the sequence, or undefined if the sequence is empty.
+     * Creates an standard JS iterable which yields each element from this sequence
      *
-     * @returns The first element, or undefined if the sequence is empty.
+     * @returns An iterable that yields each element from this sequence.
      */
-    public first(): T | undefined {
-        for (const x of this) {
-            return x;
+    public *asIterable(): Iterable<T> {
+        for (const item of this) {
+            yield item;
         }
     }
 
     /**
-     * Returns the last element in the sequence, or undefined if the sequence is empty.
+     * Projects each element on a pool of worker threads, continuing the pipeline asynchronously.
+     * The source is pulled in batches only as the workers keep up; see `AsyncLazyIterable.parallelMap`.
      *
-     * @returns The last element, or undefined if the sequence is empty.
+     * @template U Type of elements in the result sequence.
+     * @param target The path of a module exporting the mapper, or a self-contained mapper function, which may be async.
+     * @param options (optional) Number of workers, batch size and output ordering.
+     * @returns A new AsyncLazyIterable of type U.
      */
-    public last(): T | undefined {
-        let last: T | undefined;
-        for (const x of this) {
-            last = x;
-        }
-        return last;
+    public parallelMap<U>(target: WorkerTarget<T, U>, options?: ParallelOptions): AsyncLazyIterable<U> {
+        return this.toAsync().parallelMap(target, options);
     }
 
     /**
-     * Evaluates the iterable immediately and returns a new ILazyIterable containing the materialized elements.
-     * This method is useful when you want to ensure that the sequence is fully evaluated and stored in memory.
-     * It can be used to avoid re-evaluating the sequence multiple times.
+     * Returns the elements which satisfy a predicate run on a pool of worker threads, continuing the pipeline asynchronously.
+     * See `AsyncLazyIterable.parallelFilter`.
      *
-     * @returns A new ILazyIterable containing all elements from this sequence.
+     * @param target The path of a module exporting the predicate, or a self-contained predicate function, which may be async.
+     * @param options (optional) Number of workers, batch size and output ordering.
+     * @returns A new AsyncLazyIterable containing only elements that satisfy the predicate.
      */
-    public materialize(): ILazyIterable<T> {
-        const materialized = this.toArray();
-        return new LazyIterable.LazyIterableImpl<T>(materialized[Symbol.iterator].bind(materialized));
+    public parallelFilter(target: WorkerTarget<T, boolean>, options?: ParallelOptions): AsyncLazyIterable<T> {
+        return this.toAsync().parallelFilter(target, options);
     }
 
-    //#endregion
-
-    //#region Construct and Convert
-
     /**
-     * Collects all elements into an array.
-     * Enumeration occurs immediately when this method is called.
+     * Creates an observable which iterates this sequence for each subscriber, implementing the `subscribe` and
+     * `Symbol.observable` interop protocol. Elements are pushed asynchronously; see `AsyncLazyIterable.toObservable`.
      *
-     * @returns An array containing all elements from this sequence.
+     * @returns An observable of the elements of this sequence.
      */
-    public toArray(): T[] {
-        return [...this];
+    public toObservable(): InteropObservable<T> {
+        return this.toAsync().toObservable();
     }
 
     /**
-     * Creates an standard JS iterable which yields each element from this sequence
+     * Creates an AsyncLazyIterable which yields each element from this sequence.
+     * Use this to continue a pipeline once it needs to `await`.
      *
-     * @returns An iterable that yields each element from this sequence.
+     * @returns A new AsyncLazyIterable containing the elements from this sequence.
      */
-    public *asIterable(): Iterable<T> {
-        for (const item of this) {
-            yield item;
-        }
+    public toAsync(): AsyncLazyIterable<T> {
+        return AsyncLazyIterable.from(this);
     }
 
     /**
@@ -372,13 +3169,103 @@ export abstract class LazyIterable<T> implements Iterable<T> {
      * @returns A new ILazyIterable containing the elements from the iterable.
      */
     public static from<U>(iterable: Iterable<U>): ILazyIterable<U> {
-        return new LazyIterable.LazyIterableImpl<U>(function* genFrom() {
+        if (Array.isArray(iterable)) {
+            return new LazyIterable.ArrayLazyIterableImpl<U>(iterable);
+        }
+        if (iterable instanceof Set || iterable instanceof Map || iterable instanceof ImmutableSet || iterable instanceof ImmutableMap) {
+            return new LazyIterable.CollectionLazyIterableImpl<U>(iterable as Iterable<U> & { readonly size: number });
+        }
+        if (ArrayBuffer.isView(iterable)) {
+            return new LazyIterable.TypedArrayLazyIterableImpl<U>(iterable as unknown as ArrayLike<U> & Iterable<U>);
+        }
+        return new LazyIterable.LazyIterableImpl<U>('genFrom', function* genFrom() {
             for (const item of iterable) {
                 yield item;
             }
         });
     }
 
+    /**
+     * Creates a new AsyncLazyIterable from an async iterable, such as a paged API client or a database cursor.
+     *
+     * @template U Type of elements in the iterable.
+     * @param iterable An async (or sync) iterable to convert into an AsyncLazyIterable.
+     * @returns A new AsyncLazyIterable containing the elements from the iterable.
+     */
+    public static fromAsync<U>(iterable: AsyncIterable<U> | Iterable<U>): AsyncLazyIterable<U> {
+        return AsyncLazyIterable.from(iterable);
+    }
+
+    /**
+     * Creates a new AsyncLazyIterable of the events an emitter raises, listening only while it is iterated.
+     * See `AsyncLazyIterable.fromEvents`.
+     *
+     * @template U Type of the events.
+     * @param emitter A Node EventEmitter or DOM EventTarget.
+     * @param event The name of the event to read.
+     * @param options (optional) When the sequence ends, and how events are buffered.
+     * @returns A new AsyncLazyIterable of events.
+     */
+    public static fromEvents<U = unknown>(
+        emitter: EventEmitterLike | EventTargetLike,
+        event: string | symbol,
+        options?: EventSequenceOptions,
+    ): AsyncLazyIterable<U> {
+        return AsyncLazyIterable.fromEvents<U>(emitter, event, options);
+    }
+
+    /**
+     * Creates a new AsyncLazyIterable of the values an observable emits, subscribed only while it is iterated.
+     * See `AsyncLazyIterable.fromObservable`.
+     *
+     * @template U Type of the values.
+     * @param observable An observable, or an object exposing one through `Symbol.observable`.
+     * @param options (optional) How values are buffered.
+     * @returns A new AsyncLazyIterable of the emitted values.
+     */
+    public static fromObservable<U>(observable: ObservableLike<U> | InteropObservable<U>, options?: PushBufferOptions): AsyncLazyIterable<U> {
+        return AsyncLazyIterable.fromObservable(observable, options);
+    }
+
+    /**
+     * Creates a new ILazyIterable over a resource, such as a file handle or a database cursor, which is acquired when an iteration
+     * starts and released exactly once when it ends, however it ends. Every iteration acquires its own resource.
+     *
+     * @template R Type of the resource.
+     * @template U Type of elements read from the resource.
+     * @param acquire Function which opens the resource.
+     * @param toIterable Function which reads the elements from the resource.
+     * @param release Function which closes the resource.
+     * @returns A new ILazyIterable containing the elements read from the resource.
+     */
+    public static using<R, U>(acquire: () => R, toIterable: (resource: R) => Iterable<U>, release: (resource: R) => void): ILazyIterable<U> {
+        return new LazyIterable.LazyIterableImpl<U>('genUsing', function* genUsing() {
+            const resource = acquire();
+            try {
+                yield* toIterable(resource);
+            } finally {
+                release(resource);
+            }
+        });
+    }
+
+    /**
+     * Creates a new ILazyIterable over the elements of a typed array.
+     * The sequence knows its length and reads elements by index, so counting, indexing, slicing and fused map/filter chains over
+     * it run as indexed loops. Later changes to the typed array are visible to the sequence.
+     *
+     * @param view The typed array to read.
+     * @returns A new ILazyIterable containing the elements of the typed array.
+     */
+    public static fromTypedArray(view: BigIntTypedArray): ILazyIterable<bigint>;
+    public static fromTypedArray(view: NumericTypedArray): ILazyIterable<number>;
+    public static fromTypedArray(view: NumericTypedArray | BigIntTypedArray): ILazyIterable<number> | ILazyIterable<bigint> {
+        if (!ArrayBuffer.isView(view) || view instanceof DataView) {
+            throw RefinedSetsError.invalidArgument('Expected a typed array.');
+        }
+        return new LazyIterable.TypedArrayLazyIterableImpl<number>(view as NumericTypedArray);
+    }
+
     /**
      * Creates a new ILazyIterable which yields the numbers from zero to `length` (exclusive).
      *
@@ -386,11 +3273,7 @@ export abstract class LazyIterable<T> implements Iterable<T> {
      * @returns A new ILazyIterable containing the elements from the array.
      */
     public static fromLength(length: number): ILazyIterable<number> {
-        return new LazyIterable.LazyIterableImpl<number>(function* genFromLength() {
-            for (let i = 0; i < length; i++) {
-                yield i;
-            }
-        });
+        return new LazyIterable.RangeLazyIterableImpl(0, 1, length > 0 ? Math.ceil(length) : 0);
     }
 
     /**
@@ -415,15 +3298,7 @@ export abstract class LazyIterable<T> implements Iterable<T> {
         incrementBy ??= direction;
         const count = Math.floor(Math.abs(difference) / Math.abs(incrementBy));
 
-        return new LazyIterable.LazyIterableImpl<number>(function* genFromRange() {
-            let value = start;
-            let remaining = count;
-            do {
-                yield value;
-                value += incrementBy;
-                remaining--;
-            } while (remaining >= 0);
-        });
+        return new LazyIterable.RangeLazyIterableImpl(start, incrementBy, Number.isNaN(count) ? 1 : count + 1);
     }
 
     /**
@@ -433,7 +3308,7 @@ export abstract class LazyIterable<T> implements Iterable<T> {
      * @returns An empty ILazyIterable of type T.
      */
     public static empty<T>(): ILazyIterable<T> {
-        return new LazyIterable.LazyIterableImpl<T>(function* genEmpty() {});
+        return new LazyIterable.ArrayLazyIterableImpl<T>([]);
     }
 
     /**
@@ -442,9 +3317,137 @@ export abstract class LazyIterable<T> implements Iterable<T> {
      * @returns A new ILazyIterable containing the elements from the array.
      */
     public static infinite(): ILazyIterable<void> {
-        return new LazyIterable.LazyIterableImpl<void>(function* genInfinite() {
+        return new LazyIterable.RepeatLazyIterableImpl<void>(undefined, Infinity, 'genInfinite', []);
+    }
+
+    /**
+     * Creates a new ILazyIterable by repeatedly applying `step` to a state, which returns the next element and the next state,
+     * or undefined to end the sequence.
+     *
+     * @template S Type of the state.
+     * @template U Type of elements in the sequence.
+     * @param seed The initial state.
+     * @param step Function returning an `[element, nextState]` pair, or undefined when there are no more elements.
+     * @returns A new ILazyIterable containing the elements produced by `step`.
+     */
+    public static unfold<S, U>(seed: S, step: (state: S) => readonly [U, S] | undefined): ILazyIterable<U> {
+        return new LazyIterable.LazyIterableImpl<U>('genUnfold', function* genUnfold() {
+            let state = seed;
             while (true) {
-                yield;
+                const next = step(state);
+                if (next === undefined) {
+                    return;
+                }
+                yield next[0];
+                state = next[1];
+            }
+        });
+    }
+
+    /**
+     * Creates a new infinite ILazyIterable which yields `seed`, then `next(seed)`, then `next(next(seed))`, and so on.
+     *
+     * @template U Type of elements in the sequence.
+     * @param seed The first element.
+     * @param next Function computing each element from the one before it.
+     * @returns A new ILazyIterable containing the successive elements.
+     */
+    public static iterate<U>(seed: U, next: (value: U) => U): ILazyIterable<U> {
+        return new LazyIterable.LazyIterableImpl<U>('genIterate', function* genIterate() {
+            for (let value = seed; ; value = next(value)) {
+                yield value;
+            }
+        });
+    }
+
+    /**
+     * Creates a new ILazyIterable which yields `value` `count` times, or forever.
+     *
+     * @template U Type of the value.
+     * @param value The value to repeat.
+     * @param count (optional) The number of times to yield it, defaults to Infinity.
+     * @returns A new ILazyIterable containing the repeated value.
+     */
+    public static repeat<U>(value: U, count = Infinity): ILazyIterable<U> {
+        if (count !== Infinity && !(Number.isInteger(count) && count >= 0)) {
+            throw RefinedSetsError.invalidArgument(`Expected 'count' to be a non-negative integer or Infinity. Received: ${count}.`);
+        }
+        return new LazyIterable.RepeatLazyIterableImpl(value, count, 'genRepeat', [value, count]);
+    }
+
+    /**
+     * Creates a new ILazyIterable which walks a tree or graph from `root`, yielding each node with its depth and path.
+     * Children are requested only when the traversal reaches them, so combining a traversal with `take` or `find` visits only
+     * as much of the structure as it needs.
+     *
+     * @template N Type of the nodes.
+     * @param root The node to start from.
+     * @param children Function returning the children of a node; null or undefined means it has none.
+     * @param options (optional) The traversal order, and a key for cycle detection.
+     * @returns A new ILazyIterable of the visited nodes.
+     */
+    public static traverse<N>(root: N, children: (node: N) => Iterable<N> | null | undefined, options?: TraversalOptions<N>): ILazyIterable<TraversalNode<N>> {
+        const order = options?.order ?? 'dfs-pre';
+        if (order !== 'bfs' && order !== 'dfs-pre' && order !== 'dfs-post') {
+            throw RefinedSetsError.invalidArgument(`Expected 'order' to be 'bfs', 'dfs-pre' or 'dfs-post'. Received: ${String(order)}.`);
+        }
+        const key = options?.key;
+        return new LazyIterable.LazyIterableImpl<TraversalNode<N>>('genTraverse', function* genTraverse() {
+            const seen = new Set<unknown>();
+            const isNew = (node: N) => {
+                if (!key) {
+                    return true;
+                }
+                const normalized = toCompositeKey(key(node));
+                if (seen.has(normalized)) {
+                    return false;
+                }
+                seen.add(normalized);
+                return true;
+            };
+            isNew(root);
+            const rootEntry = new TraversalEntry(root, 0, undefined);
+            if (order === 'bfs') {
+                const queue = [rootEntry];
+                for (let head = 0; head < queue.length; head++) {
+                    const entry = queue[head];
+                    queue[head] = undefined!;
+                    yield entry;
+                    for (const child of children(entry.node) ?? []) {
+                        if (isNew(child)) {
+                            queue.push(new TraversalEntry(child, entry.depth + 1, entry));
+                        }
+                    }
+                }
+                return;
+            }
+            const stack: [TraversalEntry<N>, Iterator<N> | undefined][] = [[rootEntry, undefined]];
+            try {
+                if (order === 'dfs-pre') {
+                    yield rootEntry;
+                }
+                while (stack.length > 0) {
+                    const top = stack[stack.length - 1];
+                    const [entry] = top;
+                    top[1] ??= (children(entry.node) ?? [])[Symbol.iterator]();
+                    const next = top[1].next();
+                    if (next.done) {
+                        stack.pop();
+                        if (order === 'dfs-post') {
+                            yield entry;
+                        }
+                    } else if (isNew(next.value)) {
+                        const child = new TraversalEntry(next.value, entry.depth + 1, entry);
+                        stack.push([child, undefined]);
+                        if (order === 'dfs-pre') {
+                            yield child;
+                        }
+                    }
+                }
+            } finally {
+                for (const [, iterator] of stack) {
+                    iterator?.return?.();
+                }
             }
         });
     }
@@ -0,0 +1,150 @@
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+import type { LazyIterable } from './LazyIterable';
+
+/**
+ * What a LazyIterable knows about its source without enumerating it.
+ * `length` is the exact number of elements; `at` is present when any element can be read in O(1).
+ */
+export interface SourceInfo<T> {
+    readonly length: number;
+    at?(index: number): T;
+}
+
+/**
+ * One operator in a chain, as reported by explain and instrument, producing elements of type T.
+ * `rebuild` applies the same operator to a sequence with the same elements as `source`; the sequence a chain starts from has
+ * neither `source` nor `rebuild`.
+ */
+export interface OperatorNode<T = unknown> {
+    readonly name: string;
+    readonly args: readonly unknown[];
+    readonly source?: LazyIterable<unknown>;
+    rebuild?(source: LazyIterable<unknown>): LazyIterable<T>;
+}
+
+/**
+ * An element-wise operator which can be fused with its neighbours into a single loop.
+ * A chain mixes element types, so it is held as `Stage`, which accepts a stage of any element type.
+ * `catch` and `wrap` stages handle errors thrown by the map and filter callbacks before them; their callback receives the error.
+ */
+export interface Stage<T = never, U = unknown> {
+    readonly kind: 'map' | 'filter' | 'catch' | 'wrap';
+    readonly name: string;
+    readonly callback: (item: T, index: number) => U;
+    /** Arguments shown by explain, defaults to the callback. */
+    readonly args?: readonly unknown[];
+}
+
+/**
+ * Returned by a compiled chain when a filter stage rejects the element.
+ */
+export const SKIP: unique symbol = Symbol('skip');
+
+/**
+ * Compiles a chain of stages into one function, so each element passes through every stage without an intermediate generator.
+ * Each stage keeps its own index counter, so the chain must be compiled afresh for every iteration.
+ * A `catch` stage drops the elements whose earlier stages threw, and a `wrap` stage rethrows errors from earlier callbacks as
+ * RefinedSetsErrors naming the operator and index.
+ *
+ * @param stages The stages, in the order they were applied.
+ * @returns A function which transforms an element, or returns SKIP if a filter rejected it.
+ */
+export function compileStages(stages: readonly Stage[]): (item: unknown) => unknown {
+    let next = (item: unknown): unknown => item;
+    let wrap = false;
+    for (let i = stages.length - 1; i >= 0; i--) {
+        const { kind, name, callback } = stages[i];
+        const downstream = next;
+        if (kind === 'catch') {
+            const guarded = compileStages(stages.slice(0, i));
+            let index = 0;
+            return (item) => {
+                let result: unknown;
+                try {
+                    result = guarded(item);
+                } catch (error) {
+                    callback(error as never, index++);
+                    return SKIP;
+                }
+                index++;
+                return result === SKIP ? SKIP : downstream(result);
+            };
+        }
+        if (kind === 'wrap') {
+            wrap = true;
+            continue;
+        }
+        // each stage receives the output of the one before it, which is the element type it was declared with
+        const call = (item: unknown, index: number): unknown => callback(item as never, index);
+        const invoke = wrap ? wrapCallback(name, call) : call;
+        let index = 0;
+        next = kind === 'map' ? (item) => downstream(invoke(item, index++)) : (item) => (invoke(item, index++) ? downstream(item) : SKIP);
+    }
+    return next;
+}
+
+function wrapCallback(name: string, callback: (item: unknown, index: number) => unknown): (item: unknown, index: number) => unknown {
+    // Stage names are the generator names shown by explain, e.g. genMap for map.
+    const operator = name.charAt(3).toLowerCase() + name.slice(4);
+    return (item, index) => {
+        try {
+            return callback(item, index);
+        } catch (error) {
+            throw RefinedSetsError.callbackError(operator, index, error);
+        }
+    };
+}
+
+/**
+ * Formats operator arguments for explain and instrumentation reports. Functions are shown by their source text, or by their name
+ * when the text is long, and arrays, typed arrays and collections by their type and size. Trailing undefined arguments are omitted.
+ */
+export function formatArguments(args: readonly unknown[]): string {
+    let end = args.length;
+    while (end > 0 && args[end - 1] === undefined) {
+        end--;
+    }
+    return args
+        .slice(0, end)
+        .map((arg) => formatArgument(arg, true))
+        .join(', ');
+}
+
+function formatArgument(value: unknown, expandObjects: boolean): string {
+    switch (typeof value) {
+        case 'function': {
+            const text = Function.prototype.toString.call(value).replace(/\s+/g, ' ');
+            return text.length <= 40 ? text : value.name || `${text.slice(0, 37)}...`;
+        }
+        case 'string':
+            return JSON.stringify(value);
+        case 'bigint':
+            return `${value}n`;
+        case 'symbol':
+            return value.toString();
+        case 'object':
+            if (value === null) {
+                return 'null';
+            }
+            if (Array.isArray(value)) {
+                return `Array(${value.length})`;
+            }
+            if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+                return `${value.constructor.name}(${(value as unknown as ArrayLike<unknown>).length})`;
+            }
+            if (value instanceof Set || value instanceof Map) {
+                return `${value instanceof Set ? 'Set' : 'Map'}(${value.size})`;
+            }
+            if (Symbol.iterator in value) {
+                return 'Iterable';
+            }
+            if (!expandObjects) {
+                return '{...}';
+            }
+            return `{ ${Object.entries(value)
+                .map(([key, entry]) => `${key}: ${formatArgument(entry, false)}`)
+                .join(', ')} }`;
+        default:
+            return String(value);
+    }
+}
@@ -0,0 +1,52 @@
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+
+/**
+ * Options for `parallelMap` and `parallelFilter`.
+ */
+export interface ParallelOptions {
+    /**
+     * Number of worker threads. Defaults to one less than the number of CPUs, and at least 1.
+     */
+    workers?: number;
+    /**
+     * Number of elements sent to a worker at a time. Larger batches cost fewer messages but balance the load less evenly. Defaults to 64.
+     */
+    batchSize?: number;
+    /**
+     * When true (the default), results are yielded in source order. When false, each batch is yielded as soon as it completes.
+     */
+    ordered?: boolean;
+}
+
+/**
+ * The function a worker applies to each element: the path of a module whose default export (or `module.exports`) is the
+ * function, or a self-contained function which is sent to the workers as source text.
+ */
+export type WorkerTarget<T, U> = string | ((item: T, index: number) => U | PromiseLike<U>);
+
+/**
+ * Options of `parallelMap` and `parallelFilter` once validated. `workers` is undefined when the default should be used.
+ */
+export interface ResolvedParallelOptions {
+    readonly workers?: number;
+    readonly batchSize: number;
+    readonly ordered: boolean;
+}
+
+/**
+ * Validates the options of `parallelMap` and `parallelFilter` and fills in the defaults, except for the number of workers, which
+ * is only known once the worker module has been loaded.
+ */
+export function resolveParallelOptions(options?: ParallelOptions): ResolvedParallelOptions {
+    const workers = options?.workers;
+    const batchSize = options?.batchSize ?? 64;
+    for (const [name, value] of [
+        ['workers', workers],
+        ['batchSize', batchSize],
+    ] as const) {
+        if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+            throw RefinedSetsError.invalidArgument(`Expected '${name}' to be a positive integer. Received: ${value}.`);
+        }
+    }
+    return { workers, batchSize, ordered: options?.ordered ?? true };
+}
@@ -0,0 +1,221 @@
+import { cpus } from 'os';
+import { isAbsolute, resolve } from 'path';
+import { Worker } from 'worker_threads';
+import { RefinedSetsError } from '../errors/RefinedSetsError';
+import type { WorkerTarget } from './ParallelOptions';
+
+interface BatchRequest {
+    readonly id: number;
+    readonly start: number;
+    readonly items: unknown[];
+}
+
+/**
+ * A worker's answer to a batch. An error without an index means the target could not be loaded.
+ */
+type BatchResponse = { id: number; results: unknown[] } | { id: number; index?: number; error: { message: string; stack?: string } };
+
+interface Job {
+    readonly request: BatchRequest;
+    resolve(results: unknown[]): void;
+    reject(error: unknown): void;
+}
+
+/**
+ * Script run by each worker. It loads the target once, then answers each batch with its results or the first error.
+ * Relative module paths are resolved by the pool, so the worker only ever sees absolute paths and package names.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+async function load() {
+    if (workerData.source !== undefined) {
+        return (0, eval)('(' + workerData.source + ')');
+    }
+    let exported;
+    try {
+        exported = require(workerData.module);
+    } catch (error) {
+        if (error.code !== 'ERR_REQUIRE_ESM') {
+            throw error;
+        }
+        exported = await import(require('url').pathToFileURL(workerData.module).href);
+    }
+    const target = typeof exported === 'function' ? exported : exported && exported.default;
+    if (typeof target !== 'function') {
+        throw new Error('Module ' + workerData.module + ' does not export a function.');
+    }
+    return target;
+}
+const ready = load();
+ready.catch(() => undefined);
+function describe(error) {
+    return error instanceof Error ? { message: error.message, stack: error.stack } : { message: String(error) };
+}
+parentPort.on('message', async ({ id, start, items }) => {
+    let target;
+    try {
+        target = await ready;
+    } catch (error) {
+        parentPort.postMessage({ id, error: describe(error) });
+        return;
+    }
+    let index = start;
+    try {
+        const results = [];
+        for (; index < start + items.length; index++) {
+            results.push(await target(items[index - start], index));
+        }
+        parentPort.postMessage({ id, results });
+    } catch (error) {
+        parentPort.postMessage({ id, index, error: describe(error) });
+    }
+});
+`;
+
+/**
+ * A fixed-size pool of worker threads which apply one function to batches of elements.
+ * Workers are started on demand, a batch waits when every worker is busy, and `terminate` must be called once the pool is done.
+ *
+ * @template T Type of the elements sent to the workers.
+ * @template U Type of the results.
+ */
+export class WorkerPool<T, U> {
+    private readonly workerData: { module?: string; source?: string };
+    private readonly workers: Worker[] = [];
+    private readonly idle: Worker[] = [];
+    private readonly queue: Job[] = [];
+    private readonly running = new Map<Worker, Job>();
+    private nextId = 0;
+    private terminated = false;
+
+    /**
+     * @param operator Name of the operator using the pool, recorded by the errors it raises.
+     * @param target The module path or function to run in the workers.
+     * @param size The maximum number of workers.
+     */
+    public constructor(
+        private readonly operator: string,
+        target: WorkerTarget<T, U>,
+        private readonly size: number,
+    ) {
+        if (typeof target === 'function') {
+            this.workerData = { source: target.toString() };
+        } else if (typeof target === 'string') {
+            this.workerData = { module: target.startsWith('.') || isAbsolute(target) ? resolve(target) : target };
+        } else {
+            throw RefinedSetsError.invalidArgument(`Expected a module path or a function. Received: ${String(target)}.`);
+        }
+    }
+
+    /**
+     * Applies the target to a batch of elements on the next free worker.
+     * A callback error rejects with a `callback-error` RefinedSetsError recording the index of the failing element, and a worker
+     * which cannot load its target, crashes or exits rejects with a `worker-error` RefinedSetsError.
+     *
+     * @param items The elements of the batch.
+     * @param start The index of the first element, passed on to the target.
+     * @returns A promise for the results, in the order of the elements.
+     */
+    public run(items: T[], start: number): Promise<U[]> {
+        if (this.terminated) {
+            return Promise.reject(RefinedSetsError.workerError(`The ${this.operator} worker pool has been terminated.`));
+        }
+        return new Promise<unknown[]>((resolve, reject) => {
+            this.queue.push({ request: { id: this.nextId++, start, items }, resolve, reject });
+            this.dispatch();
+        }) as Promise<U[]>;
+    }
+
+    /**
+     * Stops every worker. Batches still waiting or running are rejected.
+     */
+    public async terminate(): Promise<void> {
+        this.terminated = true;
+        const stopped = RefinedSetsError.workerError(`The ${this.operator} worker pool has been terminated.`);
+        for (const job of this.queue.splice(0)) {
+            job.reject(stopped);
+        }
+        for (const job of this.running.values()) {
+            job.reject(stopped);
+        }
+        this.running.clear();
+        await Promise.all(this.workers.splice(0).map((worker) => worker.terminate()));
+        this.idle.length = 0;
+    }
+
+    private dispatch(): void {
+        while (this.queue.length > 0) {
+            const worker = this.idle.pop() ?? (this.workers.length < this.size ? this.start() : undefined);
+            if (!worker) {
+                return;
+            }
+            const job = this.queue.shift()!;
+            this.running.set(worker, job);
+            worker.postMessage(job.request);
+        }
+    }
+
+    private start(): Worker {
+        const worker = new Worker(WORKER_SOURCE, { eval: true, workerData: this.workerData });
+        worker.on('message', (response: BatchResponse) => this.complete(worker, response));
+        worker.on('error', (error) => this.fail(worker, `The ${this.operator} worker crashed: ${error.message}`, error));
+        worker.on('exit', (code) => {
+            if (!this.terminated) {
+                this.fail(worker, `The ${this.operator} worker exited unexpectedly with code ${code}.`);
+            }
+        });
+        this.workers.push(worker);
+        return worker;
+    }
+
+    private complete(worker: Worker, response: BatchResponse): void {
+        const job = this.running.get(worker);
+        if (!job || job.request.id !== response.id) {
+            return;
+        }
+        this.running.delete(worker);
+        this.idle.push(worker);
+        if ('error' in response) {
+            const cause = Object.assign(new Error(response.error.message), { stack: response.error.stack });
+            job.reject(
+                response.index === undefined
+                    ? RefinedSetsError.workerError(`The ${this.operator} worker could not load its target: ${cause.message}`, {
+                          operator: this.operator,
+                          cause,
+                      })
+                    : RefinedSetsError.callbackError(this.operator, response.index, cause),
+            );
+        } else {
+            job.resolve(response.results);
+        }
+        this.dispatch();
+    }
+
+    /**
+     * Rejects the batch a worker was running and removes the worker, so a replacement is started for the next batch.
+     * The error has no index, as a crash cannot be traced to one element of the batch.
+     */
+    private fail(worker: Worker, message: string, cause?: unknown): void {
+        const index = this.workers.indexOf(worker);
+        if (index < 0) {
+            return;
+        }
+        this.workers.splice(index, 1);
+        const idleIndex = this.idle.indexOf(worker);
+        if (idleIndex >= 0) {
+            this.idle.splice(idleIndex, 1);
+        }
+        const job = this.running.get(worker);
+        this.running.delete(worker);
+        job?.reject(RefinedSetsError.workerError(message, { operator: this.operator, cause }));
+        void worker.terminate();
+        this.dispatch();
+    }
+}
+
+/**
+ * Returns the default number of workers: one less than the number of CPUs, and at least 1.
+ */
+export function defaultWorkerCount(): number {
+    return Math.max(1, cpus().length - 1);
+}
@@ -0,0 +1,145 @@
+import { AsyncLazyIterable, LazyIterable } from '../src/index';
+
+describe('AsyncLazyIterable', () => {
+    test('should be able to create from an async iterable', async () => {
+        const result = await AsyncLazyIterable.from(generate([1, 3, 5])).toArray();
+        expect(result).toEqual([1, 3, 5]);
+    });
+
+    test('should bridge to and from LazyIterable', async () => {
+        const fromSync = await LazyIterable.fromRange(1, 5).toAsync().toArray();
+        expect(fromSync).toEqual([1, 2, 3, 4, 5]);
+
+        const fromAsync = await LazyIterable.fromAsync(generate([1, 2, 3]))
+            .map((x) => x * 10)
+            .toArray();
+        expect(fromAsync).toEqual([10, 20, 30]);
+    });
+
+    test('typical array methods chained yield minimally', async () => {
+        const source = new TrackedAsyncSource([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        const result = await AsyncLazyIterable.from(source)
+            .map((x) => x * 2)
+            .filter((x) => x >= 10)
+            .flatMap((x) => [x, x + 1])
+            .distinct((x) => Math.floor(x / 4))
+            .skip(1)
+            .take(2)
+            .toArray();
+
+        expect(result).toEqual([12, 16]);
+        expect(source.itemsYielded).toBe(8);
+    });
+
+    test('should support the terminal operators', async () => {
+        const subject = LazyIterable.fromLength(5).toAsync();
+        expect(await subject.count()).toBe(5);
+        expect(await subject.first()).toBe(0);
+        expect(await subject.last()).toBe(4);
+        expect(await subject.reduce((acc, x) => acc + x, 0)).toBe(10);
+        expect(await AsyncLazyIterable.empty<number>().first()).toBeUndefined();
+        expect(await AsyncLazyIterable.empty<number>().last()).toBeUndefined();
+    });
+
+    test('mapAsync should never exceed the concurrency limit and should preserve order by default', async () => {
+        let active = 0;
+        let maxActive = 0;
+        const result = await LazyIterable.fromLength(10)
+            .toAsync()
+            .mapAsync(
+                async (x) => {
+                    active++;
+                    maxActive = Math.max(maxActive, active);
+                    await delay((10 - x) * 2);
+                    active--;
+                    return x * 2;
+                },
+                { concurrency: 3 },
+            )
+            .toArray();
+
+        expect(result).toEqual([0, 2, 4, 6, 8, 10, 12, 14, 16, 18]);
+        expect(maxActive).toBe(3);
+    });
+
+    test('mapAsync should yield in completion order when unordered', async () => {
+        const delays = [30, 5, 15];
+        const result = await AsyncLazyIterable.from(delays)
+            .mapAsync(async (ms) => (await delay(ms), ms), { concurrency: 3, ordered: false })
+            .toArray();
+
+        expect(result).toEqual([5, 15, 30]);
+    });
+
+    test('filterAsync should keep elements matching the predicate', async () => {
+        const ordered = await LazyIterable.fromLength(10)
+            .toAsync()
+            .filterAsync(async (x) => (await delay(10 - x), x % 3 === 0), { concurrency: 4 })
+            .toArray();
+        expect(ordered).toEqual([0, 3, 6, 9]);
+
+        const unordered = await LazyIterable.fromLength(10)
+            .toAsync()
+            .filterAsync((x) => x % 3 === 0, { concurrency: 4, ordered: false })
+            .toArray();
+        expect(unordered.sort()).toEqual([0, 3, 6, 9]);
+    });
+
+    test('mapAsync should only pull as many source elements as it has slots for', async () => {
+        const source = new TrackedAsyncSource(Array.from({ length: 100 }, (_, i) => i));
+        const result = await AsyncLazyIterable.from(source)
+            .mapAsync(async (x) => x, { concurrency: 4 })
+            .take(2)
+            .toArray();
+
+        expect(result).toEqual([0, 1]);
+        expect(source.itemsYielded).toBeLessThanOrEqual(6);
+        expect(source.returned).toBe(true);
+    });
+
+    test('mapAsync should propagate mapper failures', async () => {
+        const subject = AsyncLazyIterable.from([1, 2, 3]).mapAsync(
+            async (x) => {
+                if (x === 2) throw new Error('boom');
+                return x;
+            },
+            { concurrency: 2 },
+        );
+
+        await expect(subject.toArray()).rejects.toThrow('boom');
+    });
+
+    test('should reject invalid concurrency limits', () => {
+        const subject = AsyncLazyIterable.from([1]);
+        expect(() => subject.mapAsync((x) => x, { concurrency: 0 })).toThrow();
+        expect(() => subject.filterAsync(() => true, { concurrency: 1.5 })).toThrow();
+        expect(() => subject.mapAsync((x) => x, { concurrency: Infinity })).not.toThrow();
+    });
+});
+
+async function* generate<T>(items: T[]): AsyncIterableIterator<T> {
+    for (const item of items) {
+        await delay(0);
+        yield item;
+    }
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+class TrackedAsyncSource<T> implements AsyncIterable<T> {
+    public itemsYielded = 0;
+    public returned = false;
+    public constructor(private data: T[]) {}
+    public async *[Symbol.asyncIterator]() {
+        try {
+            for (const item of this.data) {
+                this.itemsYielded++;
+                yield item;
+            }
+        } finally {
+            this.returned = true;
+        }
+    }
+}
@@ -0,0 +1,109 @@
+import { BitSet, LazyIterable } from '../src/index';
+
+describe('BitSet', () => {
+    test('should add, find and delete elements', () => {
+        const subject = new BitSet();
+        subject.add(3).add(64).add(3).add(31);
+
+        expect(subject.size).toBe(3);
+        expect(subject.has(3)).toBe(true);
+        expect(subject.has(4)).toBe(false);
+        expect(subject.has(1000)).toBe(false);
+        expect(subject.delete(3)).toBe(true);
+        expect(subject.delete(3)).toBe(false);
+        expect(subject.delete(1000)).toBe(false);
+        expect([...subject]).toEqual([31, 64]);
+
+        subject.clear();
+        expect(subject.size).toBe(0);
+        expect([...subject]).toEqual([]);
+    });
+
+    test('should iterate in ascending order across word boundaries', () => {
+        const values = [0, 1, 31, 32, 33, 63, 95, 96, 200, 2 ** 20 + 1];
+        const subject = new BitSet([...values].reverse());
+
+        expect([...subject]).toEqual(values);
+        expect(subject.size).toBe(values.length);
+        expect(
+            subject
+                .lazy()
+                .filter((x) => x % 2 === 1)
+                .toArray(),
+        ).toEqual([1, 31, 33, 63, 95, 2 ** 20 + 1]);
+    });
+
+    test('nextSetBit should find the smallest element at or after a position', () => {
+        const subject = new BitSet([5, 40, 41, 300]);
+
+        expect(subject.nextSetBit()).toBe(5);
+        expect(subject.nextSetBit(5)).toBe(5);
+        expect(subject.nextSetBit(6)).toBe(40);
+        expect(subject.nextSetBit(42)).toBe(300);
+        expect(subject.nextSetBit(301)).toBeUndefined();
+        expect(subject.nextSetBit(1e6)).toBeUndefined();
+        expect(new BitSet().nextSetBit()).toBeUndefined();
+    });
+
+    test('immutable set algebra should leave both operands unchanged', () => {
+        const left = new BitSet([1, 2, 3, 40, 100]);
+        const right = new BitSet([2, 3, 4, 100, 500]);
+
+        expect([...left.union(right)]).toEqual([1, 2, 3, 4, 40, 100, 500]);
+        expect([...left.intersection(right)]).toEqual([2, 3, 100]);
+        expect([...left.difference(right)]).toEqual([1, 40]);
+        expect([...left.xor(right)]).toEqual([1, 4, 40, 500]);
+        expect(left.xor(right).size).toBe(4);
+        expect([...left.union([7, 8])]).toEqual([1, 2, 3, 7, 8, 40, 100]);
+        expect([...left]).toEqual([1, 2, 3, 40, 100]);
+        expect([...right]).toEqual([2, 3, 4, 100, 500]);
+    });
+
+    test('in-place set algebra should update the set and its size', () => {
+        const subject = new BitSet([1, 2, 3, 40]);
+
+        expect(subject.unionWith(new BitSet([3, 4, 500]))).toBe(subject);
+        expect([...subject]).toEqual([1, 2, 3, 4, 40, 500]);
+        expect(subject.size).toBe(6);
+
+        subject.intersectWith([1, 2, 3, 4, 40]);
+        expect([...subject]).toEqual([1, 2, 3, 4, 40]);
+
+        subject.differenceWith(new BitSet([2, 40, 1000]));
+        expect([...subject]).toEqual([1, 3, 4]);
+
+        subject.xorWith([1, 5, 64]);
+        expect([...subject]).toEqual([3, 4, 5, 64]);
+        expect(subject.size).toBe(4);
+    });
+
+    test('should reject values which are negative, fractional or too large', () => {
+        const subject = new BitSet();
+        for (const value of [-1, 1.5, NaN, Infinity, BitSet.MAX_VALUE + 1]) {
+            expect(() => subject.add(value)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+            expect(() => subject.has(value)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+            expect(() => subject.delete(value)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+            expect(() => subject.nextSetBit(value)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+        }
+        expect(() => new BitSet([1, -2])).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+    });
+
+    test('should hold the largest value and combine it with other sets', () => {
+        const subject = new BitSet([BitSet.MAX_VALUE]);
+
+        expect(BitSet.MAX_VALUE).toBe(2 ** 28 - 1);
+        expect([...subject]).toEqual([BitSet.MAX_VALUE]);
+        expect([...new BitSet([0]).unionWith(subject)]).toEqual([0, BitSet.MAX_VALUE]);
+        expect(new BitSet([1]).xorWith(subject).size).toBe(2);
+        expect(subject.nextSetBit(0)).toBe(BitSet.MAX_VALUE);
+    });
+
+    test('toBitSet should collect a sequence of integers', () => {
+        const subject = LazyIterable.fromRange(0, 100, 7).toBitSet();
+
+        expect(subject.size).toBe(15);
+        expect(subject.has(98)).toBe(true);
+        expect(subject.lazy().take(3).toArray()).toEqual([0, 7, 14]);
+        expect(() => LazyIterable.from([0.5]).toBitSet()).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+    });
+});
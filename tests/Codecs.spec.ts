@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AsyncLazyIterable } from '../src/index';
+
+describe('Codecs', () => {
+    let directory: string;
+
+    beforeAll(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'refined-sets-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('fromLines should split chunks on line breaks regardless of chunk boundaries', async () => {
+        const bytes = Buffer.from('héllo\r\nwörld\n\nlast');
+        const chunks = [bytes.subarray(0, 2), bytes.subarray(2, 9), bytes.subarray(9)];
+
+        expect(await AsyncLazyIterable.fromLines(chunks).toArray()).toEqual(['héllo', 'wörld', '', 'last']);
+        expect(await AsyncLazyIterable.fromLines(['a', 'b\nc\n', '\n']).toArray()).toEqual(['ab', 'c', '']);
+        expect(await AsyncLazyIterable.fromLines([]).toArray()).toEqual([]);
+    });
+
+    test('NDJSON should round-trip through a temp file', async () => {
+        const file = path.join(directory, 'records.ndjson');
+        const records = [{ id: 1, tags: ['a'] }, { id: 2, name: 'line\nbreak' }, null];
+
+        await AsyncLazyIterable.from(records).toNdjson().writeTo(fs.createWriteStream(file));
+        expect(fs.readFileSync(file, 'utf8')).toBe('{"id":1,"tags":["a"]}\n{"id":2,"name":"line\\nbreak"}\nnull\n');
+        expect(await AsyncLazyIterable.fromNdjson(fs.createReadStream(file)).toArray()).toEqual(records);
+    });
+
+    test('fromNdjson should skip blank lines and report the line of invalid JSON', async () => {
+        expect(await AsyncLazyIterable.fromNdjson(['1\n', '\n  \n', '2']).toArray()).toEqual([1, 2]);
+        await expect(AsyncLazyIterable.fromNdjson(['{"a":1}\n\n{"a":\n']).toArray()).rejects.toMatchObject({
+            name: 'RefinedSetsError',
+            type: 'parse-error',
+            message: expect.stringContaining('line 3'),
+        });
+        await expect(
+            AsyncLazyIterable.from([1, () => 2])
+                .toNdjson()
+                .toArray(),
+        ).rejects.toMatchObject({ type: 'invalid-argument' });
+    });
+
+    test('fromCsv should map records by header and handle quoted fields', async () => {
+        const text = 'id,name,notes\r\n1,Ann,"says ""hi"", twice"\r\n\r\n2,"Bob","multi\r\nline"\r\n3,,\r\n';
+        expect(await AsyncLazyIterable.fromCsv([text]).toArray()).toEqual([
+            { id: '1', name: 'Ann', notes: 'says "hi", twice' },
+            { id: '2', name: 'Bob', notes: 'multi\nline' },
+            { id: '3', name: '', notes: '' },
+        ]);
+        expect(await AsyncLazyIterable.fromCsv(['a;b\n', 'c;"d;e"'], { headers: false, delimiter: ';' }).toArray()).toEqual([
+            ['a', 'b'],
+            ['c', 'd;e'],
+        ]);
+        expect(await AsyncLazyIterable.fromCsv(['1,2\n'], { headers: ['x', 'y'] }).toArray()).toEqual([{ x: '1', y: '2' }]);
+    });
+
+    test.each([
+        ['a,b\n1,2\n3\n', 'Expected 2 fields at line 3'],
+        ['a,b\n1,"2\n\n', 'Unterminated quoted field starting at line 2'],
+        ['a,b\n1,2"\n', 'Unexpected quote in an unquoted field at line 2, column 4'],
+        ['a,b\n"1"x,2\n', 'Expected a delimiter after the closing quote at line 2, column 4'],
+    ])('fromCsv should report malformed input %j', async (text, message) => {
+        await expect(AsyncLazyIterable.fromCsv([text]).toArray()).rejects.toMatchObject({
+            name: 'RefinedSetsError',
+            type: 'parse-error',
+            message: expect.stringContaining(message),
+        });
+    });
+
+    test('CSV should round-trip records through a temp file', async () => {
+        const file = path.join(directory, 'people.csv');
+        const people = [
+            { name: 'Ann', quote: 'a, "b"' },
+            { name: 'Bob', quote: 'two\nlines' },
+        ];
+
+        await AsyncLazyIterable.from(people).toCsv().writeTo(fs.createWriteStream(file));
+        expect(fs.readFileSync(file, 'utf8')).toBe('name,quote\nAnn,"a, ""b"""\nBob,"two\nlines"\n');
+        expect(await AsyncLazyIterable.fromCsv(fs.createReadStream(file)).toArray()).toEqual(people);
+    });
+
+    test('toCsv should write arrays, select columns and write empty fields for missing values', async () => {
+        expect(
+            await AsyncLazyIterable.from([
+                [1, null],
+                [undefined, 'x'],
+            ])
+                .toCsv({ columns: ['a', 'b'], delimiter: '\t' })
+                .toArray(),
+        ).toEqual(['a\tb\n', '1\t\n', '\tx\n']);
+        expect(
+            await AsyncLazyIterable.from([{ a: 1, b: 2 }, { a: 3 }])
+                .toCsv({ columns: ['b', 'a'], header: false })
+                .toArray(),
+        ).toEqual(['2,1\n', ',3\n']);
+        await expect(
+            AsyncLazyIterable.from([[1]])
+                .toCsv({ delimiter: '"' })
+                .toArray(),
+        ).rejects.toMatchObject({ type: 'invalid-argument' });
+    });
+});
@@ -0,0 +1,138 @@
+import { LazyIterable } from '../src/index';
+
+describe('Combinatorics', () => {
+    test('combinations should yield index-ordered choices', () => {
+        expect(LazyIterable.from(['a', 'b', 'c', 'd']).combinations(2).toArray()).toEqual([
+            ['a', 'b'],
+            ['a', 'c'],
+            ['a', 'd'],
+            ['b', 'c'],
+            ['b', 'd'],
+            ['c', 'd'],
+        ]);
+        expect(LazyIterable.from([1, 2, 3]).combinations(2, { repetition: true }).toArray()).toEqual([
+            [1, 1],
+            [1, 2],
+            [1, 3],
+            [2, 2],
+            [2, 3],
+            [3, 3],
+        ]);
+        expect(LazyIterable.from([1, 2]).combinations(0).toArray()).toEqual([[]]);
+        expect(LazyIterable.from([1, 2]).combinations(3).toArray()).toEqual([]);
+    });
+
+    test('permutations should yield index-ordered arrangements', () => {
+        expect(LazyIterable.from([1, 2, 3]).permutations().toArray()).toEqual([
+            [1, 2, 3],
+            [1, 3, 2],
+            [2, 1, 3],
+            [2, 3, 1],
+            [3, 1, 2],
+            [3, 2, 1],
+        ]);
+        expect(LazyIterable.from([1, 2, 3]).permutations(2).toArray()).toEqual([
+            [1, 2],
+            [1, 3],
+            [2, 1],
+            [2, 3],
+            [3, 1],
+            [3, 2],
+        ]);
+        expect(LazyIterable.from([0, 1]).permutations(3, { repetition: true }).toArray()).toEqual([
+            [0, 0, 0],
+            [0, 0, 1],
+            [0, 1, 0],
+            [0, 1, 1],
+            [1, 0, 0],
+            [1, 0, 1],
+            [1, 1, 0],
+            [1, 1, 1],
+        ]);
+        expect(LazyIterable.empty().permutations().toArray()).toEqual([[]]);
+    });
+
+    test('powerSet should yield every subset in index order', () => {
+        expect(LazyIterable.from(['a', 'b', 'c']).powerSet().toArray()).toEqual([[], ['a'], ['a', 'b'], ['a', 'b', 'c'], ['a', 'c'], ['b'], ['b', 'c'], ['c']]);
+        expect(LazyIterable.empty().powerSet().toArray()).toEqual([[]]);
+    });
+
+    test('product should yield typed tuples with the last iterable varying fastest', () => {
+        const product = LazyIterable.product([1, 2], new Set(['x', 'y']), [true]);
+        const first: [number, string, boolean] | undefined = product.first();
+        expect(first).toEqual([1, 'x', true]);
+        expect(product.toArray()).toEqual([
+            [1, 'x', true],
+            [1, 'y', true],
+            [2, 'x', true],
+            [2, 'y', true],
+        ]);
+        expect(LazyIterable.product().toArray()).toEqual([[]]);
+        expect(LazyIterable.product([1], []).toArray()).toEqual([]);
+    });
+
+    test.each([
+        ['combinations', (s: LazyIterable<number>) => s.combinations(3)],
+        ['combinations with repetition', (s: LazyIterable<number>) => s.combinations(3, { repetition: true })],
+        ['permutations', (s: LazyIterable<number>) => s.permutations(3)],
+        ['permutations with repetition', (s: LazyIterable<number>) => s.permutations(3, { repetition: true })],
+        ['power sets', (s: LazyIterable<number>) => s.powerSet()],
+        ['products', (s: LazyIterable<number>) => LazyIterable.product(s, s.take(3), s.skip(4))],
+    ])('%s should be strictly increasing and readable at any position', (_, space) => {
+        const subject = space(LazyIterable.fromLength(6));
+        const all = [...subject];
+        for (let i = 1; i < all.length; i++) {
+            expect(compareTuples(all[i - 1], all[i])).toBeLessThan(0);
+        }
+        expect(subject.count()).toBe(all.length);
+        expect(subject.toArray()).toEqual(all);
+        for (const index of [0, 1, 7, all.length - 2, all.length - 1]) {
+            expect(subject.at(index)).toEqual(all[index]);
+            expect(subject.skip(index).take(2).toArray()).toEqual(all.slice(index, index + 2));
+        }
+    });
+
+    test('skip should jump to a position without walking the space', () => {
+        const subject = LazyIterable.fromLength(40).combinations(20);
+        expect(subject.count()).toBe(137846528820);
+        expect(subject.skip(137846528819).toArray()).toEqual([LazyIterable.fromRange(20, 39).toArray()]);
+        const [before, sampled] = subject
+            .skip(1e11 - 1)
+            .take(2)
+            .toArray();
+        expect(subject.at(1e11)).toEqual(sampled);
+        expect(sampled).toHaveLength(20);
+        expect(compareTuples(before, sampled)).toBeLessThan(0);
+
+        const huge = LazyIterable.fromLength(30).permutations();
+        expect(huge.take(2).toArray()).toEqual([LazyIterable.fromLength(30).toArray(), [...LazyIterable.fromLength(28).toArray(), 29, 28]]);
+    });
+
+    test('exact counts should match the number of elements yielded', () => {
+        expect(LazyIterable.combinationCount(5, 2)).toBe(BigInt(10));
+        expect(LazyIterable.combinationCount(3, 2, { repetition: true })).toBe(BigInt(6));
+        expect(LazyIterable.permutationCount(3)).toBe(BigInt(6));
+        expect(LazyIterable.permutationCount(3, 2)).toBe(BigInt(6));
+        expect(LazyIterable.permutationCount(2, 3, { repetition: true })).toBe(BigInt(8));
+        expect(LazyIterable.permutationCount(30)).toBe(BigInt('265252859812191058636308480000000'));
+        expect(LazyIterable.combinationCount(2, 3)).toBe(BigInt(0));
+        expect(() => LazyIterable.combinationCount(-1, 2)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+        expect(() => LazyIterable.from([1]).permutations(1.5)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+    });
+
+    test('explain should describe combinatorial operators', () => {
+        expect(LazyIterable.from([1, 2]).combinations(2, { repetition: true }).take(1).explain()).toBe(
+            'genArray(Array(2))\n  -> genCombinations(2, { repetition: true })\n  -> genTake(1)',
+        );
+        expect(LazyIterable.product([1], [2]).explain()).toBe('genProduct(Array(1), Array(1))');
+    });
+});
+
+function compareTuples(a: number[], b: number[]): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) {
+            return a[i] - b[i];
+        }
+    }
+    return a.length - b.length;
+}
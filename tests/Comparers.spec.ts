@@ -0,0 +1,297 @@
+import { AsyncLazyIterable, Comparer, EqualityComparer, LazyIterable, RefinedSet, SortedMap, SortedSet } from '../src/index';
+
+describe('Comparers', () => {
+    const people: Person[] = [
+        { name: 'bob', age: 30 },
+        { name: 'Ann', age: 30 },
+        { name: 'carl', age: 25 },
+        { name: 'ann', age: 41 },
+    ];
+
+    test('string comparers should order case-insensitively and by locale', () => {
+        expect(['b', 'C', 'a'].sort(Comparer.caseInsensitive.compare)).toEqual(['a', 'b', 'C']);
+        expect(['b', 'C', 'a'].sort(Comparer.natural.compare)).toEqual(['C', 'a', 'b']);
+        expect(['ä', 'z', 'a'].sort(Comparer.locale('de').compare)).toEqual(['a', 'ä', 'z']);
+        expect(['ä', 'z', 'a'].sort(Comparer.locale('sv').compare)).toEqual(['a', 'z', 'ä']);
+        expect(['item10', 'item9'].sort(Comparer.locale('en', { numeric: true }).compare)).toEqual(['item9', 'item10']);
+    });
+
+    test('reverse and thenBy should combine comparers', () => {
+        const byAgeThenName = Comparer.thenBy(
+            Comparer.by((p: Person) => p.age, Comparer.reverse(Comparer.natural)),
+            Comparer.by((p: Person) => p.name, Comparer.caseInsensitive),
+        );
+
+        expect([...people].sort(byAgeThenName.compare).map((p) => p.name)).toEqual(['ann', 'Ann', 'bob', 'carl']);
+        expect(
+            [...people]
+                .sort(
+                    Comparer.composite<Person>(
+                        (p) => p.age,
+                        (p) => p.name,
+                    ).compare,
+                )
+                .map((p) => p.name),
+        ).toEqual(['carl', 'Ann', 'bob', 'ann']);
+        expect(Comparer.reverse((a: number, b: number) => a - b).compare(1, 2)).toBeGreaterThan(0);
+    });
+
+    test('tuple comparers should compare element by element, then by length', () => {
+        const comparer = Comparer.tuple<[string, number]>(Comparer.caseInsensitive, (a, b) => a - b);
+        const tuples: [string, number][] = [
+            ['b', 1],
+            ['A', 2],
+            ['a', 1],
+        ];
+
+        expect([...tuples].sort(comparer.compare)).toEqual([
+            ['a', 1],
+            ['A', 2],
+            ['b', 1],
+        ]);
+        expect(Comparer.tuple<number[]>(Comparer.natural, Comparer.natural).compare([1], [1, 0])).toBeLessThan(0);
+    });
+
+    test('deep equality should compare structure and hash consistently', () => {
+        const { equals, hash } = EqualityComparer.deep;
+        const pairs: [unknown, unknown][] = [
+            [
+                { a: [1, { b: 2 }], c: 'x' },
+                { c: 'x', a: [1, { b: 2 }] },
+            ],
+            [new Map([['k', [1]]]), new Map([['k', [1]]])],
+            [new Set([{ x: 1 }, 2]), new Set([2, { x: 1 }])],
+            [new Date(5), new Date(5)],
+            [/a/g, /a/g],
+            [new Uint8Array([1, 2]), new Uint8Array([1, 2])],
+            [NaN, NaN],
+            [0, -0],
+        ];
+        for (const [left, right] of pairs) {
+            expect(equals(left, right)).toBe(true);
+            expect(hash(left)).toBe(hash(right));
+        }
+
+        expect(equals({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+        expect(equals([1, 2], [2, 1])).toBe(false);
+        expect(equals(new Set([[1], [1]]), new Set([[1], [2]]))).toBe(false);
+        expect(equals([1], { 0: 1, length: 1 })).toBe(false);
+        expect(equals(new Date(1), new Date(2))).toBe(false);
+
+        const cyclic: { self?: unknown } = {};
+        cyclic.self = cyclic;
+        const other: { self?: unknown } = {};
+        other.self = other;
+        expect(equals(cyclic, other)).toBe(true);
+        expect(hash(cyclic)).toBe(hash(other));
+    });
+
+    test('tuple, composite and keyed equality comparers should match their parts', () => {
+        const tuple = EqualityComparer.tuple<[string, number]>(EqualityComparer.caseInsensitive, EqualityComparer.default);
+        expect(tuple.equals(['A', 1], ['a', 1])).toBe(true);
+        expect(tuple.hash(['A', 1])).toEqual(tuple.hash(['a', 1]));
+        expect(tuple.equals(['A', 1], ['a', 2])).toBe(false);
+
+        const composite = EqualityComparer.composite(
+            (p: { name: string; age: number }) => p.age,
+            (p) => p.name.length,
+        );
+        expect(new RefinedSet(people, composite).size).toBe(3);
+        expect(
+            new RefinedSet(
+                people,
+                EqualityComparer.by((p) => p.name, EqualityComparer.caseInsensitive),
+            ).size,
+        ).toBe(3);
+    });
+
+    test('distinct and distinctBy should accept equality comparers', async () => {
+        const words = ['Apple', 'apple', 'Pear', 'APPLE', 'pear', 'fig'];
+
+        expect(LazyIterable.from(words).distinct().toArray()).toEqual(['Apple', 'apple', 'Pear', 'APPLE', 'pear', 'fig']);
+        expect(LazyIterable.from(words).distinct(EqualityComparer.caseInsensitive).toArray()).toEqual(['Apple', 'Pear', 'fig']);
+        expect(
+            LazyIterable.from(words)
+                .distinct((w) => w.length)
+                .toArray(),
+        ).toEqual(['Apple', 'Pear', 'fig']);
+        expect(
+            LazyIterable.from(people)
+                .distinctBy((p) => p.name, EqualityComparer.caseInsensitive)
+                .map((p) => p.age)
+                .toArray(),
+        ).toEqual([30, 30, 25]);
+        expect(
+            LazyIterable.from([{ id: [1, 2] }, { id: [1, 2] }, { id: [2, 1] }])
+                .distinctBy((x) => x.id, EqualityComparer.deep)
+                .count(),
+        ).toBe(2);
+        expect(await AsyncLazyIterable.from(words).distinct(EqualityComparer.caseInsensitive).toArray()).toEqual(['Apple', 'Pear', 'fig']);
+        expect(
+            await AsyncLazyIterable.from(people)
+                .distinctBy((p) => p.age)
+                .count(),
+        ).toBe(3);
+    });
+
+    test('distinct and distinctBy should compare tuple keys element-wise without a comparer', async () => {
+        const rows = [
+            { a: 1, b: 2 },
+            { a: 1, b: 2 },
+            { a: 2, b: 1 },
+        ];
+        const pair = [1, 2];
+
+        expect(
+            LazyIterable.from(rows)
+                .distinct((r) => [r.a, r.b])
+                .count(),
+        ).toBe(2);
+        expect(
+            LazyIterable.from(rows)
+                .distinctBy((r) => [r.a, r.b])
+                .count(),
+        ).toBe(2);
+        expect(
+            await AsyncLazyIterable.from(rows)
+                .distinct((r) => [r.a, r.b])
+                .count(),
+        ).toBe(2);
+        expect(
+            await AsyncLazyIterable.from(rows)
+                .distinctBy((r) => [r.a, r.b])
+                .count(),
+        ).toBe(2);
+        expect(
+            LazyIterable.from([pair, [1, 2], pair])
+                .distinct()
+                .count(),
+        ).toBe(2);
+    });
+
+    test('set operations should accept equality comparers', () => {
+        const left = LazyIterable.from(['Apple', 'pear', 'FIG']);
+        const right = ['apple', 'Kiwi', 'fig'];
+        const caseInsensitive = EqualityComparer.caseInsensitive;
+
+        expect(left.union(right).toArray()).toEqual(['Apple', 'pear', 'FIG', 'apple', 'Kiwi', 'fig']);
+        expect(left.union(right, caseInsensitive).toArray()).toEqual(['Apple', 'pear', 'FIG', 'Kiwi']);
+        expect(left.intersect(right, caseInsensitive).toArray()).toEqual(['Apple', 'FIG']);
+        expect(left.except(right, caseInsensitive).toArray()).toEqual(['pear']);
+        expect(left.symmetricDifference(right, caseInsensitive).toArray()).toEqual(['pear', 'Kiwi']);
+        expect(left.isSubsetOf(right, caseInsensitive)).toBe(false);
+        expect(left.isSubsetOf(['PEAR', ...right], caseInsensitive)).toBe(true);
+        expect(left.isSupersetOf(['fig', 'APPLE'], caseInsensitive)).toBe(true);
+        expect(left.isSupersetOf(['fig'])).toBe(false);
+        expect(left.isDisjointFrom(['kiwi', 'PEAR'])).toBe(true);
+        expect(left.isDisjointFrom(['kiwi', 'PEAR'], caseInsensitive)).toBe(false);
+        expect(
+            LazyIterable.from([{ id: [1] }, { id: [2] }])
+                .intersect([{ id: [2] }], EqualityComparer.deep)
+                .count(),
+        ).toBe(1);
+    });
+
+    test('grouping operators should accept equality comparers', () => {
+        const byName = (p: Person) => p.name;
+        const caseInsensitive = EqualityComparer.caseInsensitive;
+
+        expect(
+            LazyIterable.from(people)
+                .groupBy(byName, (p) => p.age, caseInsensitive)
+                .map((g) => [g.key, g.toArray()])
+                .toArray(),
+        ).toEqual([
+            ['bob', [30]],
+            ['Ann', [30, 41]],
+            ['carl', [25]],
+        ]);
+        const lookup = LazyIterable.from(people).toLookup(byName, (p) => p.age, caseInsensitive);
+        expect(lookup.size).toBe(3);
+        expect(lookup.get('ANN').toArray()).toEqual([30, 41]);
+        expect(lookup.has('Carl')).toBe(true);
+        expect([...LazyIterable.from(people).countBy(byName, caseInsensitive)]).toEqual([
+            ['bob', 1],
+            ['Ann', 2],
+            ['carl', 1],
+        ]);
+        expect([...LazyIterable.from(people).toMap(byName, (p) => p.age, 'last', caseInsensitive)]).toEqual([
+            ['bob', 30],
+            ['Ann', 41],
+            ['carl', 25],
+        ]);
+        expect(() => LazyIterable.from(people).toMap(byName, undefined, 'throw', caseInsensitive)).toThrow('ann');
+        expect(LazyIterable.from(people).toMap(byName).size).toBe(4);
+    });
+
+    test('joins should accept equality comparers', () => {
+        const pets = [
+            { owner: 'ANN', pet: 'cat' },
+            { owner: 'dave', pet: 'dog' },
+            { owner: 'Bob', pet: 'fish' },
+            { owner: 'ann', pet: 'owl' },
+        ];
+        const caseInsensitive = EqualityComparer.caseInsensitive;
+        const outer = LazyIterable.from(people);
+        const name = (p: Person) => p.name;
+        const owner = (p: (typeof pets)[number]) => p.owner;
+
+        expect(outer.join(pets, name, owner, (p, q) => `${p.name}:${q.pet}`).toArray()).toEqual(['ann:owl']);
+        expect(outer.join(pets, name, owner, (p, q) => `${p.name}:${q.pet}`, caseInsensitive).toArray()).toEqual([
+            'bob:fish',
+            'Ann:cat',
+            'Ann:owl',
+            'ann:cat',
+            'ann:owl',
+        ]);
+        expect(outer.leftJoin(pets, name, owner, (p, q) => `${p.name}:${q?.pet}`, caseInsensitive).toArray()).toEqual([
+            'bob:fish',
+            'Ann:cat',
+            'Ann:owl',
+            'carl:undefined',
+            'ann:cat',
+            'ann:owl',
+        ]);
+        expect(outer.groupJoin(pets, name, owner, (p, qs) => `${p.name}:${qs.count()}`, caseInsensitive).toArray()).toEqual([
+            'bob:1',
+            'Ann:2',
+            'carl:0',
+            'ann:2',
+        ]);
+        expect(outer.fullOuterJoin(pets, name, owner, (p, q) => `${p?.name}:${q?.pet}`, caseInsensitive).toArray()).toEqual([
+            'bob:fish',
+            'Ann:cat',
+            'Ann:owl',
+            'carl:undefined',
+            'ann:cat',
+            'ann:owl',
+            'undefined:dog',
+        ]);
+    });
+
+    test('sorted operators and collections should accept comparers', () => {
+        expect(
+            LazyIterable.from(people)
+                .orderBy((p) => p.name, Comparer.caseInsensitive)
+                .thenByDescending((p) => p.age, Comparer.natural)
+                .map((p) => `${p.name}${p.age}`)
+                .toArray(),
+        ).toEqual(['ann41', 'Ann30', 'bob30', 'carl25']);
+        expect(LazyIterable.from(people).maxBy((p) => p.name, Comparer.caseInsensitive)).toBe(people[2]);
+        expect([...new SortedSet(['b', 'C', 'a'], Comparer.caseInsensitive)]).toEqual(['a', 'b', 'C']);
+        expect([
+            ...new SortedMap(
+                [
+                    [1, 'x'],
+                    [2, 'y'],
+                ],
+                Comparer.reverse(Comparer.natural),
+            ).keys(),
+        ]).toEqual([2, 1]);
+    });
+});
+
+interface Person {
+    name: string;
+    age: number;
+}
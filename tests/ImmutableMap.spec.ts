@@ -0,0 +1,138 @@
+import { EqualityComparer, ImmutableMap, LazyIterable, RefinedSetsErrorCode } from '../src/index';
+
+describe('ImmutableMap', () => {
+    const byEntry = ([a]: [string, unknown], [b]: [string, unknown]) => (a < b ? -1 : a > b ? 1 : 0);
+
+    test('with and without should leave the original map unchanged', () => {
+        const original = new ImmutableMap([
+            ['a', 1],
+            ['b', 2],
+        ]);
+        const updated = original.with('a', 10).with('c', 3);
+
+        expect(original.get('a')).toBe(1);
+        expect(original.has('c')).toBe(false);
+        expect([...updated].sort(byEntry)).toEqual([
+            ['a', 10],
+            ['b', 2],
+            ['c', 3],
+        ]);
+        expect(updated.without('b').size).toBe(2);
+        expect(updated.with('c', 3)).toBe(updated);
+        expect(updated.without('z')).toBe(updated);
+        expect(updated.get('z')).toBeUndefined();
+    });
+
+    test('should keep the first equal key and compare keys with an equality comparer', () => {
+        const subject = new ImmutableMap(
+            [
+                ['Alice', 1],
+                ['ALICE', 2],
+                ['bob', 3],
+            ],
+            EqualityComparer.caseInsensitive,
+        );
+
+        expect(subject.size).toBe(2);
+        expect(subject.get('alice')).toBe(2);
+        expect([...subject.keys()].sort()).toEqual(['Alice', 'bob']);
+        expect(subject.without('BOB').has('bob')).toBe(false);
+        expect(() => new ImmutableMap([], { hash: (x: string) => x } as EqualityComparer<string>)).toThrow(
+            expect.objectContaining({ type: RefinedSetsErrorCode.InvalidArgument }),
+        );
+    });
+
+    test('withMutations should batch changes and seal the transient', () => {
+        const original = new ImmutableMap(LazyIterable.fromLength(200).map((i) => [`k${i}`, i] as const));
+        let transient: { set(key: string, value: number): unknown } | undefined;
+        const changed = original.withMutations((map) => {
+            transient = map;
+            for (let i = 0; i < 200; i++) {
+                if (i % 2 === 0) {
+                    map.delete(`k${i}`);
+                } else {
+                    map.set(`k${i}`, map.get(`k${i}`)! * 10);
+                }
+            }
+        });
+
+        expect(original.get('k3')).toBe(3);
+        expect(changed.get('k3')).toBe(30);
+        expect(changed.has('k4')).toBe(false);
+        expect(changed.size).toBe(100);
+        expect(() => transient!.set('k0', 0)).toThrow(expect.objectContaining({ type: RefinedSetsErrorCode.NotSupported }));
+    });
+
+    test('merge should reuse shared structure and resolve conflicting values', () => {
+        const base = new ImmutableMap(LazyIterable.fromLength(500).map((i) => [String(i), i] as const));
+        const left = base.with('1', 100).with('x', -1);
+        const right = base.with('1', 1000).with('y', -2);
+
+        expect(base.merge(base)).toBe(base);
+        expect(base.merge(base.without('7'))).toBe(base);
+        expect(left.merge(right).get('1')).toBe(1000);
+        const resolve = jest.fn((existing: number, incoming: number) => existing + incoming);
+        const merged = left.merge(right, resolve);
+        expect(merged.get('1')).toBe(1100);
+        expect(merged.get('2')).toBe(2);
+        expect(resolve).toHaveBeenCalledTimes(1);
+        expect(left.merge(right).size).toBe(502);
+        const larger = (existing: number, incoming: number) => Math.max(existing, incoming);
+        expect(
+            left
+                .merge(
+                    [
+                        ['1', 5],
+                        ['z', 0],
+                    ],
+                    larger,
+                )
+                .equals(left.with('z', 0)),
+        ).toBe(true);
+        expect(left.merge([['1', 5]], larger)).toBe(left);
+    });
+
+    test('equals should compare values and skip shared subtrees', () => {
+        const first = new ImmutableMap(LazyIterable.fromLength(300).map((i) => [i, { id: i }] as const));
+        const second = first.with(7, { id: 7 });
+
+        expect(first.equals(second)).toBe(false);
+        expect(first.equals(second, (a, b) => a.id === b.id)).toBe(true);
+        expect(second.equals(second.without(7).with(7, second.get(7)!))).toBe(true);
+        expect(first.equals(first.without(299))).toBe(false);
+        expect(
+            new ImmutableMap([
+                ['a', 1],
+                ['b', 2],
+            ]).equals(
+                new ImmutableMap(
+                    [
+                        ['B', 2],
+                        ['a', 1],
+                    ],
+                    EqualityComparer.caseInsensitive,
+                ),
+            ),
+        ).toBe(true);
+    });
+
+    test('should interoperate with LazyIterable', () => {
+        const subject = new ImmutableMap([
+            ['a', 1],
+            ['b', 2],
+            ['c', 3],
+        ]);
+
+        expect(LazyIterable.from(subject).count()).toBe(3);
+        expect(
+            subject
+                .lazy()
+                .filter(([, value]) => value > 1)
+                .map(([key]) => key)
+                .orderBy((key) => key)
+                .toArray(),
+        ).toEqual(['b', 'c']);
+        expect([...subject.values()].sort()).toEqual([1, 2, 3]);
+        expect(new ImmutableMap(subject.lazy().map(([key, value]) => [value, key] as const)).get(2)).toBe('b');
+    });
+});
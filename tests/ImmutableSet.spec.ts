@@ -0,0 +1,149 @@
+import { EqualityComparer, ImmutableSet, LazyIterable, RefinedSetsErrorCode } from '../src/index';
+
+describe('ImmutableSet', () => {
+    /**
+     * Compares numbers by value but hashes them into only 8 buckets, so most elements share a hash with others.
+     */
+    const colliding: EqualityComparer<number> = { equals: (left, right) => left === right, hash: (item) => item % 8 };
+
+    const sorted = (values: Iterable<number>) => [...values].sort((a, b) => a - b);
+
+    test('with and without should leave the original set unchanged', () => {
+        const empty = new ImmutableSet<string>();
+        const one = empty.with('a');
+        const two = one.with('b');
+
+        expect(two.with('a')).toBe(two);
+        expect(two.without('c')).toBe(two);
+        expect([...empty]).toEqual([]);
+        expect([...one]).toEqual(['a']);
+        expect(new Set(two)).toEqual(new Set(['a', 'b']));
+        expect(two.without('a').has('a')).toBe(false);
+        expect(two.has('a')).toBe(true);
+        expect(two.size).toBe(2);
+    });
+
+    test('should compare elements with SameValueZero', () => {
+        const key = [1, 2];
+        const subject = new ImmutableSet<unknown>([NaN, 0, key, 'x', undefined, null, BigInt(5)]);
+
+        expect(subject.size).toBe(7);
+        expect(subject.has(NaN)).toBe(true);
+        expect(subject.has(-0)).toBe(true);
+        expect(subject.has(key)).toBe(true);
+        expect(subject.has([1, 2])).toBe(false);
+        expect(subject.has(BigInt(5))).toBe(true);
+        expect(subject.has(5)).toBe(false);
+        expect(subject.without(null).has(undefined)).toBe(true);
+    });
+
+    test.each([
+        ['the default equality', undefined],
+        ['colliding hashes', colliding],
+    ])('should behave like a native Set through random changes with %s', (_, equality) => {
+        let subject = new ImmutableSet<number>(null, equality);
+        const expected = new Set<number>();
+        let seed = 42;
+        const random = () => (seed = (Math.imul(seed, 1103515245) + 12345) >>> 0) % 600;
+
+        for (let i = 0; i < 3000; i++) {
+            const value = random();
+            if (i % 3 === 2) {
+                subject = subject.without(value);
+                expected.delete(value);
+            } else {
+                subject = subject.with(value);
+                expected.add(value);
+            }
+        }
+
+        expect(subject.size).toBe(expected.size);
+        expect(sorted(subject)).toEqual(sorted(expected));
+        expect(LazyIterable.fromLength(600).every((x) => subject.has(x) === expected.has(x))).toBe(true);
+        // Sets with the same elements have the same shape, however they were built, so structural equality must agree.
+        expect(subject.equals(new ImmutableSet(sorted(expected).reverse(), equality))).toBe(true);
+    });
+
+    test('withMutations should batch changes without affecting the original', () => {
+        const original = new ImmutableSet(LazyIterable.fromLength(100));
+        let transient: { add(value: number): unknown } | undefined;
+        const changed = original.withMutations((set) => {
+            transient = set;
+            for (let i = 0; i < 100; i += 2) {
+                set.delete(i);
+            }
+            set.add(1000).add(1000);
+            expect(set.delete(1000)).toBe(true);
+            expect(set.delete(1000)).toBe(false);
+            expect(set.size).toBe(50);
+        });
+
+        expect(original.size).toBe(100);
+        expect(changed.size).toBe(50);
+        expect(changed.equals(new ImmutableSet(LazyIterable.fromRange(1, 100, 2)))).toBe(true);
+        expect(original.withMutations(() => undefined)).toBe(original);
+        expect(() => transient!.add(1)).toThrow(expect.objectContaining({ type: RefinedSetsErrorCode.NotSupported }));
+    });
+
+    test('set algebra should reuse shared structure and match the native results', () => {
+        const base = new ImmutableSet(LazyIterable.fromLength(1000));
+        const left = base.without(3).with(2000);
+        const right = base.without(500).with(3000);
+
+        expect(base.union(base)).toBe(base);
+        expect(base.intersection(base)).toBe(base);
+        expect(base.union(left.without(2000))).toBe(base);
+        expect(base.intersection(left.with(3))).toBe(base);
+        expect(base.difference(base).size).toBe(0);
+
+        expect(sorted(left.union(right))).toEqual([...LazyIterable.fromLength(1000), 2000, 3000]);
+        expect(left.intersection(right).size).toBe(998);
+        expect(left.intersection(right).has(3)).toBe(false);
+        expect(sorted(left.difference(right))).toEqual([500, 2000]);
+        expect(sorted(right.difference(left))).toEqual([3, 3000]);
+        expect(left.union(right).equals(right.union(left))).toBe(true);
+    });
+
+    test('set algebra should accept iterables and sets with colliding hashes', () => {
+        const left = new ImmutableSet(LazyIterable.fromLength(40), colliding);
+        const right = new ImmutableSet(LazyIterable.fromRange(20, 59), colliding);
+
+        expect(sorted(left.union(right))).toEqual(LazyIterable.fromLength(60).toArray());
+        expect(sorted(left.intersection(right))).toEqual(LazyIterable.fromRange(20, 39).toArray());
+        expect(sorted(left.difference(right))).toEqual(LazyIterable.fromLength(20).toArray());
+        expect(left.difference(right).equals(new ImmutableSet(LazyIterable.fromLength(20), colliding))).toBe(true);
+        expect(sorted(left.intersection([5, 50, 7]))).toEqual([5, 7]);
+        expect(sorted(left.difference(LazyIterable.fromRange(1, 39)))).toEqual([0]);
+        expect(left.union([1, 2, 3])).toBe(left);
+    });
+
+    test('equals should compare sets built with different equalities element by element', () => {
+        const byDefault = new ImmutableSet([1, 2, 3]);
+
+        expect(byDefault.equals(new ImmutableSet([3, 2, 1], colliding))).toBe(true);
+        expect(byDefault.equals(new ImmutableSet([1, 2, 4], colliding))).toBe(false);
+        expect(byDefault.equals(byDefault.with(4))).toBe(false);
+        expect(() => new ImmutableSet([], {} as EqualityComparer<number>)).toThrow(expect.objectContaining({ type: RefinedSetsErrorCode.InvalidArgument }));
+    });
+
+    test('should interoperate with LazyIterable', () => {
+        const subject = new ImmutableSet(['a', 'bb', 'ccc']);
+
+        expect(LazyIterable.from(subject).count()).toBe(3);
+        expect(LazyIterable.from(subject).explain()).toContain('genCollection');
+        expect(
+            subject
+                .lazy()
+                .filter((s) => s.length > 1)
+                .orderBy((s) => s)
+                .toArray(),
+        ).toEqual(['bb', 'ccc']);
+        expect(
+            new ImmutableSet(
+                LazyIterable.from(subject)
+                    .map((s) => s.length)
+                    .filter((n) => n > 1),
+            ).size,
+        ).toBe(2);
+    });
+});
@@ -1,4 +1,4 @@
-import { LazyIterable } from '../src/index';
+import { LazyIterable, RefinedSetsError, RefinedSetsErrorCode } from '../src/index';
 
 describe('LazyIterable', () => {
     beforeEach(() => {});
@@ -276,6 +276,1318 @@ describe('LazyIterable', () => {
             .toArray();
         expect(result).toEqual([stopAfter]);
     });
+
+    test('should be able to union with another iterable', () => {
+        const result = LazyIterable.from([1, 2, 2, 3]).union([3, 4, 1, 5]).toArray();
+        expect(result).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    test('should be able to intersect with another iterable', () => {
+        const result = LazyIterable.from([5, 1, 2, 2, 3]).intersect([3, 4, 2, 5]).toArray();
+        expect(result).toEqual([5, 2, 3]);
+    });
+
+    test('should be able to except another iterable', () => {
+        const result = LazyIterable.from([1, 2, 2, 3, 4]).except([3, 1]).toArray();
+        expect(result).toEqual([2, 4]);
+    });
+
+    test('should be able to get the symmetric difference with another iterable', () => {
+        const result = LazyIterable.from([1, 2, 2, 3]).symmetricDifference([3, 4, 4, 5]).toArray();
+        expect(result).toEqual([1, 2, 4, 5]);
+    });
+
+    test('set operations should accept a key selector', () => {
+        const left = [
+            { id: 1, source: 'left' },
+            { id: 2, source: 'left' },
+        ];
+        const right = [
+            { id: 2, source: 'right' },
+            { id: 3, source: 'right' },
+        ];
+        const byId = (x: { id: number }) => x.id;
+
+        expect(LazyIterable.from(left).union(right, byId).toArray()).toEqual([left[0], left[1], right[1]]);
+        expect(LazyIterable.from(left).intersect(right, byId).toArray()).toEqual([left[1]]);
+        expect(LazyIterable.from(left).except(right, byId).toArray()).toEqual([left[0]]);
+        expect(LazyIterable.from(left).symmetricDifference(right, byId).toArray()).toEqual([left[0], right[1]]);
+    });
+
+    test('set operations should compare tuple keys element-wise', () => {
+        const pairs = [
+            [1, 2],
+            [1, 3],
+        ];
+        const pair = (x: number[]) => x;
+
+        expect(
+            LazyIterable.from([[1, 2]])
+                .union([[1, 2]], pair)
+                .count(),
+        ).toBe(1);
+        expect(
+            LazyIterable.from(pairs)
+                .intersect([[1, 3]], pair)
+                .toArray(),
+        ).toEqual([pairs[1]]);
+        expect(
+            LazyIterable.from(pairs)
+                .except([[1, 3]], pair)
+                .toArray(),
+        ).toEqual([pairs[0]]);
+        expect(
+            LazyIterable.from(pairs)
+                .symmetricDifference([[1, 3], [2]], pair)
+                .toArray(),
+        ).toEqual([pairs[0], [2]]);
+        expect(
+            LazyIterable.from(pairs).isSubsetOf(
+                [
+                    [1, 3],
+                    [1, 2],
+                ],
+                pair,
+            ),
+        ).toBe(true);
+        expect(LazyIterable.from(pairs).isDisjointFrom([[1, 2]], pair)).toBe(false);
+        expect(
+            LazyIterable.from(pairs)
+                .union([[1, 2]])
+                .count(),
+        ).toBe(3);
+    });
+
+    test('set operations should stream the left side', () => {
+        const result = LazyIterable.infinite()
+            .map((_, i) => i)
+            .intersect([10, 20, 30])
+            .take(2)
+            .toArray();
+        expect(result).toEqual([10, 20]);
+    });
+
+    test('should be able to check subset, superset and disjoint relations', () => {
+        const subject = LazyIterable.fromRange(1, 5);
+
+        expect(subject.isSubsetOf([0, 1, 2, 3, 4, 5, 6])).toBe(true);
+        expect(subject.isSubsetOf([1, 2, 3])).toBe(false);
+        expect(subject.isSupersetOf([2, 4])).toBe(true);
+        expect(subject.isSupersetOf([])).toBe(true);
+        expect(subject.isSupersetOf([4, 6])).toBe(false);
+        expect(subject.isDisjointFrom([6, 7])).toBe(true);
+        expect(subject.isDisjointFrom([5, 6])).toBe(false);
+        expect(LazyIterable.from(['A', 'b']).isSubsetOf(['a', 'B'], (s) => s.toLowerCase())).toBe(true);
+    });
+
+    test('set predicates should exit early if possible', () => {
+        const subject = new TrackedTestIterable([1, 2, 3, 4, 5]);
+
+        expect(subject.isSupersetOf([1, 2])).toBe(true);
+        expect(subject.itemsYielded).toBe(2);
+
+        expect(subject.isDisjointFrom([2])).toBe(false);
+        expect(subject.itemsYielded).toBe(4);
+    });
+
+    test('should be able to order by a key', () => {
+        const result = LazyIterable.from([3, 1, 2])
+            .orderBy((x) => x)
+            .toArray();
+        expect(result).toEqual([1, 2, 3]);
+
+        const descending = LazyIterable.from(['b', 'c', 'a'])
+            .orderByDescending((x) => x)
+            .toArray();
+        expect(descending).toEqual(['c', 'b', 'a']);
+    });
+
+    test('ordering should be stable', () => {
+        const people = [
+            { name: 'Ann', age: 30 },
+            { name: 'Bob', age: 25 },
+            { name: 'Cid', age: 30 },
+            { name: 'Dee', age: 25 },
+        ];
+        const ascending = LazyIterable.from(people)
+            .orderBy((p) => p.age)
+            .map((p) => p.name)
+            .toArray();
+        expect(ascending).toEqual(['Bob', 'Dee', 'Ann', 'Cid']);
+
+        const descending = LazyIterable.from(people)
+            .orderByDescending((p) => p.age)
+            .map((p) => p.name)
+            .toArray();
+        expect(descending).toEqual(['Ann', 'Cid', 'Bob', 'Dee']);
+    });
+
+    test('should be able to order by multiple keys with custom comparers', () => {
+        const rows = [
+            { team: 'red', score: 10, name: 'b' },
+            { team: 'Blue', score: 5, name: 'a' },
+            { team: 'red', score: 20, name: 'c' },
+            { team: 'blue', score: 5, name: 'd' },
+        ];
+        const result = LazyIterable.from(rows)
+            .orderBy(
+                (r) => r.team,
+                (a, b) => a.toLowerCase().localeCompare(b.toLowerCase()),
+            )
+            .thenByDescending((r) => r.score)
+            .thenBy((r) => r.name)
+            .map((r) => r.name)
+            .toArray();
+
+        expect(result).toEqual(['a', 'd', 'c', 'b']);
+    });
+
+    test('ordering should be re-evaluated on each iteration', () => {
+        const source = [3, 1, 2];
+        const ordered = LazyIterable.from(source).orderBy((x) => x);
+        expect(ordered.toArray()).toEqual([1, 2, 3]);
+
+        source.push(0);
+        expect(ordered.toArray()).toEqual([0, 1, 2, 3]);
+    });
+
+    test('take after ordering should select the top elements without a full sort', () => {
+        const size = 100000;
+        const comparer = jest.fn((a: number, b: number) => a - b);
+        const values = LazyIterable.fromLength(size).map((i) => (i * 7919) % size);
+
+        const result = values
+            .orderBy((x) => x, comparer)
+            .take(10)
+            .toArray();
+        expect(result).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        expect(comparer.mock.calls.length).toBeLessThan(size * 3);
+
+        const top = values
+            .orderByDescending((x) => x)
+            .take(3)
+            .toArray();
+        expect(top).toEqual([size - 1, size - 2, size - 3]);
+
+        expect(
+            values
+                .orderBy((x) => x)
+                .take(0)
+                .toArray(),
+        ).toEqual([]);
+    });
+
+    test('first after ordering should return the least element and keep ties stable', () => {
+        const rows = [
+            { key: 2, id: 'a' },
+            { key: 1, id: 'b' },
+            { key: 1, id: 'c' },
+        ];
+        expect(
+            LazyIterable.from(rows)
+                .orderBy((r) => r.key)
+                .first()?.id,
+        ).toBe('b');
+        expect(
+            LazyIterable.from(rows)
+                .orderBy((r) => r.key)
+                .take(2)
+                .map((r) => r.id)
+                .toArray(),
+        ).toEqual(['b', 'c']);
+        expect(
+            LazyIterable.empty<number>()
+                .orderBy((x) => x)
+                .first(),
+        ).toBeUndefined();
+    });
+
+    test('should be able to group elements by key', () => {
+        const groups = LazyIterable.from(['apple', 'avocado', 'banana', 'blueberry', 'cherry'])
+            .groupBy((s) => s[0])
+            .map((g) => [g.key, g.toArray()])
+            .toArray();
+
+        expect(groups).toEqual([
+            ['a', ['apple', 'avocado']],
+            ['b', ['banana', 'blueberry']],
+            ['c', ['cherry']],
+        ]);
+    });
+
+    test('groupings should be LazyIterables and support an element selector', () => {
+        const groups = LazyIterable.fromRange(1, 10)
+            .groupBy(
+                (x) => (x % 2 === 0 ? 'even' : 'odd'),
+                (x) => x * 10,
+            )
+            .toArray();
+
+        expect(groups.map((g) => g.key)).toEqual(['odd', 'even']);
+        expect(groups[0].filter((x) => x > 50).toArray()).toEqual([70, 90]);
+        expect(groups[1].count()).toBe(5);
+    });
+
+    test('groupBy should compare composite keys element-wise', () => {
+        const rows = [
+            { tenant: 'a', user: 1 },
+            { tenant: 'a', user: 1 },
+            { tenant: 'a', user: 2 },
+        ];
+        const counts = LazyIterable.from(rows)
+            .groupBy((r) => [r.tenant, r.user])
+            .map((g) => g.count())
+            .toArray();
+
+        expect(counts).toEqual([2, 1]);
+    });
+
+    test('should be able to build a lookup', () => {
+        const lookup = LazyIterable.from([
+            { tenant: 'a', user: 1, name: 'x' },
+            { tenant: 'b', user: 1, name: 'y' },
+            { tenant: 'a', user: 1, name: 'z' },
+        ]).toLookup(
+            (r) => [r.tenant, r.user],
+            (r) => r.name,
+        );
+
+        expect(lookup.size).toBe(2);
+        expect(lookup.get(['a', 1]).toArray()).toEqual(['x', 'z']);
+        expect(lookup.has(['b', 1])).toBe(true);
+        expect(lookup.get(['c', 1]).toArray()).toEqual([]);
+        expect(lookup.keys().toArray()).toEqual([
+            ['a', 1],
+            ['b', 1],
+        ]);
+        expect(lookup.keys().count()).toBe(2);
+    });
+
+    test('should be able to build a map with a duplicate key policy', () => {
+        const rows = [
+            { id: 1, name: 'first' },
+            { id: 2, name: 'second' },
+            { id: 1, name: 'third' },
+        ];
+        const subject = LazyIterable.from(rows);
+
+        expect(() => subject.toMap((r) => r.id)).toThrow(expect.objectContaining({ type: 'duplicate-key' }));
+        expect([
+            ...subject.toMap(
+                (r) => r.id,
+                (r) => r.name,
+                'first',
+            ),
+        ]).toEqual([
+            [1, 'first'],
+            [2, 'second'],
+        ]);
+        expect([
+            ...subject.toMap(
+                (r) => r.id,
+                (r) => r.name,
+                'last',
+            ),
+        ]).toEqual([
+            [1, 'third'],
+            [2, 'second'],
+        ]);
+        expect(() =>
+            subject.toMap(
+                (r) => [r.id, r.name.length],
+                (r) => r.name,
+            ),
+        ).toThrow();
+    });
+
+    test('should be able to partition elements by a predicate', () => {
+        const [evens, odds] = LazyIterable.fromLength(7).partition((x) => x % 2 === 0);
+        expect(evens).toEqual([0, 2, 4, 6]);
+        expect(odds).toEqual([1, 3, 5]);
+
+        const [strings, numbers] = LazyIterable.from<string | number>(['a', 1, 'b']).partition((x): x is string => typeof x === 'string');
+        expect(strings.map((s) => s.toUpperCase())).toEqual(['A', 'B']);
+        expect(numbers.map((n) => n + 1)).toEqual([2]);
+    });
+
+    test('should be able to count elements by key', () => {
+        const counts = LazyIterable.from(['a', 'bb', 'cc', 'd', 'eee']).countBy((s) => s.length);
+        expect([...counts]).toEqual([
+            [1, 2],
+            [2, 2],
+            [3, 1],
+        ]);
+    });
+
+    test('should be able to inner join two sequences by key', () => {
+        const customers = [
+            { id: 1, name: 'Ann' },
+            { id: 2, name: 'Bob' },
+            { id: 3, name: 'Cid' },
+        ];
+        const orders = [
+            { customerId: 1, total: 10 },
+            { customerId: 3, total: 30 },
+            { customerId: 1, total: 15 },
+            { customerId: 4, total: 40 },
+        ];
+        const result = LazyIterable.from(customers)
+            .join(
+                orders,
+                (c) => c.id,
+                (o) => o.customerId,
+                (c, o) => `${c.name}:${o.total}`,
+            )
+            .toArray();
+
+        expect(result).toEqual(['Ann:10', 'Ann:15', 'Cid:30']);
+    });
+
+    test('should be able to left join two sequences by key', () => {
+        const result = LazyIterable.from([1, 2, 3])
+            .leftJoin(
+                ['1a', '3a', '3b'],
+                (x) => x,
+                (s) => Number(s[0]),
+                (x, s) => [x, s ?? null],
+            )
+            .toArray();
+
+        expect(result).toEqual([
+            [1, '1a'],
+            [2, null],
+            [3, '3a'],
+            [3, '3b'],
+        ]);
+    });
+
+    test('should be able to group join two sequences by key', () => {
+        const result = LazyIterable.from(['a', 'b'])
+            .groupJoin(
+                [
+                    ['a', 1],
+                    ['a', 2],
+                ] as const,
+                (k) => k,
+                ([k]) => k,
+                (k, matches) => [k, matches.map(([, v]) => v).toArray()],
+            )
+            .toArray();
+
+        expect(result).toEqual([
+            ['a', [1, 2]],
+            ['b', []],
+        ]);
+    });
+
+    test('should be able to full outer join two sequences by key', () => {
+        const result = LazyIterable.from([
+            { k: 1, v: 'L1' },
+            { k: 2, v: 'L2' },
+        ])
+            .fullOuterJoin(
+                [
+                    { k: 3, v: 'R3a' },
+                    { k: 2, v: 'R2' },
+                    { k: 3, v: 'R3b' },
+                ],
+                (l) => l.k,
+                (r) => r.k,
+                (l, r) => `${l?.v ?? '-'}/${r?.v ?? '-'}`,
+            )
+            .toArray();
+
+        expect(result).toEqual(['L1/-', 'L2/R2', '-/R3a', '-/R3b']);
+    });
+
+    test('joins should compare composite keys element-wise', () => {
+        const result = LazyIterable.from([{ tenant: 'a', user: 1 }])
+            .join(
+                [{ tenant: 'a', user: 1, role: 'admin' }],
+                (u) => [u.tenant, u.user],
+                (r) => [r.tenant, r.user],
+                (_, r) => r.role,
+            )
+            .toArray();
+
+        expect(result).toEqual(['admin']);
+    });
+
+    test('joins should buffer the inner side once per iteration and stream the outer side', () => {
+        const inner = new TrackedTestIterable([0, 10, 20]);
+        const joined = LazyIterable.infinite()
+            .map((_, i) => i * 10)
+            .join(
+                inner,
+                (x) => x,
+                (y) => y,
+                (x) => x,
+            );
+
+        expect(joined.take(2).toArray()).toEqual([0, 10]);
+        expect(inner.itemsYielded).toBe(3);
+    });
+
+    test('should be able to cross join two sequences', () => {
+        expect(LazyIterable.from([1, 2]).crossJoin(['a', 'b']).toArray()).toEqual([
+            [1, 'a'],
+            [1, 'b'],
+            [2, 'a'],
+            [2, 'b'],
+        ]);
+        expect(
+            LazyIterable.from([1, 2])
+                .crossJoin([10, 20], (x, y) => x + y)
+                .toArray(),
+        ).toEqual([11, 21, 12, 22]);
+    });
+
+    test('should be able to chunk a sequence', () => {
+        expect(LazyIterable.fromLength(7).chunk(3).toArray()).toEqual([[0, 1, 2], [3, 4, 5], [6]]);
+        expect(LazyIterable.fromLength(6).chunk(3).toArray()).toEqual([
+            [0, 1, 2],
+            [3, 4, 5],
+        ]);
+        expect(() => LazyIterable.fromLength(6).chunk(0)).toThrow();
+    });
+
+    test('should be able to yield sliding windows', () => {
+        const subject = LazyIterable.fromLength(6);
+
+        expect(subject.window(3).toArray()).toEqual([
+            [0, 1, 2],
+            [1, 2, 3],
+            [2, 3, 4],
+            [3, 4, 5],
+        ]);
+        expect(subject.window(2, 3).toArray()).toEqual([
+            [0, 1],
+            [3, 4],
+        ]);
+        expect(subject.window(4, 2, { partial: true }).toArray()).toEqual([
+            [0, 1, 2, 3],
+            [2, 3, 4, 5],
+            [4, 5],
+        ]);
+        expect(subject.window(4, 5, { partial: true }).toArray()).toEqual([[0, 1, 2, 3], [5]]);
+        expect(() => subject.window(2, 0)).toThrow();
+    });
+
+    test('should be able to yield consecutive pairs', () => {
+        expect(LazyIterable.from([1, 2, 4, 7]).pairwise().toArray()).toEqual([
+            [1, 2],
+            [2, 4],
+            [4, 7],
+        ]);
+        expect(LazyIterable.from([1]).pairwise().toArray()).toEqual([]);
+    });
+
+    test('should be able to yield running accumulations', () => {
+        expect(
+            LazyIterable.fromRange(1, 5)
+                .scan((sum, x) => sum + x, 0)
+                .toArray(),
+        ).toEqual([1, 3, 6, 10, 15]);
+    });
+
+    test('should be able to zip sequences to the shortest', () => {
+        const result: [number, string, boolean][] = LazyIterable.fromLength(5).zip(['a', 'b', 'c'], [true, false, true, false]).toArray();
+        expect(result).toEqual([
+            [0, 'a', true],
+            [1, 'b', false],
+            [2, 'c', true],
+        ]);
+    });
+
+    test('should be able to zip sequences to the longest', () => {
+        const result: [number | undefined, string | undefined][] = LazyIterable.fromLength(2).zipLongest(['a', 'b', 'c']).toArray();
+        expect(result).toEqual([
+            [0, 'a'],
+            [1, 'b'],
+            [undefined, 'c'],
+        ]);
+    });
+
+    test('should be able to interleave sequences', () => {
+        expect(LazyIterable.from([1, 2, 3]).interleave(['a'], ['x', 'y']).toArray()).toEqual([1, 'a', 'x', 2, 'y', 3]);
+    });
+
+    test('should be able to take and skip while a predicate is satisfied', () => {
+        const subject = LazyIterable.from([1, 2, 5, 1, 6]);
+        expect(subject.takeWhile((x) => x < 3).toArray()).toEqual([1, 2]);
+        expect(subject.skipWhile((x) => x < 3).toArray()).toEqual([5, 1, 6]);
+    });
+
+    test('sequence shaping operators should work on infinite sequences', () => {
+        const naturals = LazyIterable.infinite().map((_, i) => i);
+
+        expect(naturals.chunk(2).take(2).toArray()).toEqual([
+            [0, 1],
+            [2, 3],
+        ]);
+        expect(naturals.window(3, 2).skip(1).first()).toEqual([2, 3, 4]);
+        expect(naturals.pairwise().first()).toEqual([0, 1]);
+        expect(
+            naturals
+                .scan((acc, x) => acc + x, 0)
+                .takeWhile((x) => x < 10)
+                .toArray(),
+        ).toEqual([0, 1, 3, 6]);
+        expect(naturals.zip(naturals.skip(1)).take(2).toArray()).toEqual([
+            [0, 1],
+            [1, 2],
+        ]);
+        expect(naturals.zipLongest(['a']).take(2).toArray()).toEqual([
+            [0, 'a'],
+            [1, undefined],
+        ]);
+        expect(
+            naturals
+                .interleave(naturals.map((x) => -x))
+                .take(4)
+                .toArray(),
+        ).toEqual([0, -0, 1, -1]);
+        expect(naturals.skipWhile((x) => x < 5).first()).toBe(5);
+    });
+
+    test('memoize should run the source once and let readers advance independently', () => {
+        const source = new TrackedTestIterable([1, 2, 3, 4]);
+        const mapper = jest.fn((x: number) => x * 10);
+        const memoized = source.map(mapper).memoize();
+
+        const a = memoized[Symbol.iterator]();
+        const b = memoized[Symbol.iterator]();
+        expect(a.next().value).toBe(10);
+        expect(a.next().value).toBe(20);
+        expect(source.itemsYielded).toBe(2);
+        expect(b.next().value).toBe(10);
+        expect(source.itemsYielded).toBe(2);
+        expect(memoized.take(3).toArray()).toEqual([10, 20, 30]);
+        expect(memoized.toArray()).toEqual([10, 20, 30, 40]);
+        expect(b.next().value).toBe(20);
+        expect(source.itemsYielded).toBe(4);
+        expect(mapper).toHaveBeenCalledTimes(4);
+        expect(memoized.count()).toBe(4);
+        expect(memoized.last()).toBe(40);
+    });
+
+    test('memoize should work on infinite sequences and replay source errors', () => {
+        const naturals = LazyIterable.infinite()
+            .map((_, i) => i)
+            .memoize();
+        expect(naturals.take(3).toArray()).toEqual([0, 1, 2]);
+        expect(naturals.skip(2).first()).toBe(2);
+
+        const failing = LazyIterable.from([1, 2]).map((x) => {
+            if (x === 2) {
+                throw new Error('boom');
+            }
+            return x;
+        });
+        const memoized = failing.memoize();
+        expect(() => memoized.toArray()).toThrow('boom');
+        expect(memoized.first()).toBe(1);
+        expect(() => memoized.toArray()).toThrow('boom');
+    });
+
+    test('share should run the source once and drop elements every reader has consumed', () => {
+        const source = new TrackedTestIterable([1, 2, 3, 4, 5]);
+        const shared = source.share();
+
+        const a = shared[Symbol.iterator]();
+        const b = shared[Symbol.iterator]();
+        expect(a.next().value).toBe(1);
+        expect(b.next().value).toBe(1);
+        expect(a.next().value).toBe(2);
+        expect(a.next().value).toBe(3);
+        expect(b.next().value).toBe(2);
+        expect(source.itemsYielded).toBe(3);
+        a.return?.();
+        expect([...{ [Symbol.iterator]: () => b }]).toEqual([3, 4, 5]);
+        expect(source.itemsYielded).toBe(5);
+        expect(shared.toArray()).toEqual([]);
+    });
+
+    test('share should let late readers continue where the source left off', () => {
+        const shared = LazyIterable.fromLength(6).share();
+        expect(shared.take(2).toArray()).toEqual([0, 1]);
+        expect(shared.take(2).toArray()).toEqual([2, 3]);
+        expect(shared.zip(shared).toArray()).toEqual([
+            [4, 4],
+            [5, 5],
+        ]);
+    });
+
+    test('memoize and share should run the source only once across partial reads', () => {
+        let mapped = 0;
+        const memoized = LazyIterable.fromLength(5)
+            .map((x) => (mapped++, x * 10))
+            .memoize();
+        expect(memoized.first()).toBe(0);
+        expect(memoized.take(2).toArray()).toEqual([0, 10]);
+        expect(memoized.skip(3).first()).toBe(30);
+        expect(memoized.toArray()).toEqual([0, 10, 20, 30, 40]);
+        expect(mapped).toBe(5);
+
+        let pulled = 0;
+        let closed = 0;
+        function* once() {
+            try {
+                for (const x of [1, 2, 3, 4]) {
+                    pulled++;
+                    yield x;
+                }
+            } finally {
+                closed++;
+            }
+        }
+
+        const memoizedOnce = LazyIterable.from(once()).memoize();
+        expect(memoizedOnce.first()).toBe(1);
+        expect(memoizedOnce.take(3).toArray()).toEqual([1, 2, 3]);
+        expect(closed).toBe(0);
+        expect(memoizedOnce.toArray()).toEqual([1, 2, 3, 4]);
+        expect([pulled, closed]).toEqual([4, 1]);
+
+        pulled = closed = 0;
+        const shared = LazyIterable.from(once()).share();
+        const reader = shared[Symbol.iterator]();
+        expect(reader.next().value).toBe(1);
+        expect(shared.first()).toBe(2);
+        reader.return?.();
+        expect(shared.take(1).toArray()).toEqual([3]);
+        expect(closed).toBe(0);
+        expect(shared.toArray()).toEqual([4]);
+        expect([pulled, closed]).toEqual([4, 1]);
+    });
+
+    test('memoize and share should return iterators which are themselves iterable', () => {
+        const memoized = LazyIterable.fromLength(3).memoize();
+        const iterator = memoized[Symbol.iterator]() as IterableIterator<number>;
+        expect(iterator[Symbol.iterator]()).toBe(iterator);
+        expect(iterator.next().value).toBe(0);
+        expect([...iterator]).toEqual([1, 2]);
+        expect([...(LazyIterable.fromLength(3).share()[Symbol.iterator]() as IterableIterator<number>)]).toEqual([0, 1, 2]);
+    });
+
+    test('share should throw when a reader falls further behind than the buffer allows', () => {
+        const shared = LazyIterable.infinite()
+            .map((_, i) => i)
+            .share({ bufferSize: 2 });
+        const slow = shared[Symbol.iterator]();
+        slow.next();
+        const fast = shared[Symbol.iterator]();
+        fast.next();
+        fast.next();
+        expect(() => fast.next()).toThrow(expect.objectContaining({ name: 'RefinedSetsError', type: 'buffer-overflow' }));
+        expect(() => LazyIterable.empty().share({ bufferSize: 0 })).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+    });
+
+    describe('cleanup', () => {
+        let polyfilled = false;
+
+        beforeAll(() => {
+            // Node defines Symbol.dispose only in its main realm, not in the sandbox jest runs tests in.
+            if (typeof Symbol.dispose !== 'symbol') {
+                (Symbol as { dispose?: symbol }).dispose = Symbol.for('nodejs.dispose');
+                polyfilled = true;
+            }
+        });
+
+        afterAll(() => {
+            if (polyfilled) {
+                delete (Symbol as { dispose?: symbol }).dispose;
+            }
+        });
+
+        function tracked<T>(items: T[]) {
+            const log = { opened: 0, closed: 0 };
+            const iterable = LazyIterable.from({
+                *[Symbol.iterator]() {
+                    log.opened++;
+                    try {
+                        yield* items;
+                    } finally {
+                        log.closed++;
+                    }
+                },
+            });
+            return { iterable, log };
+        }
+
+        const exits: [string, (s: LazyIterable<number>) => unknown][] = [
+            ['exhausting the sequence', (s) => s.toArray()],
+            ['take', (s) => s.take(2).toArray()],
+            ['first', (s) => s.first()],
+            ['find', (s) => s.find((x) => x === 2)],
+            ['some', (s) => s.some((x) => x > 1)],
+            [
+                'skip and take over a fused chain',
+                (s) =>
+                    s
+                        .map((x) => x + 1)
+                        .skip(1)
+                        .first(),
+            ],
+            [
+                'breaking out of for...of',
+                (s) => {
+                    for (const _ of s.filter(() => true)) {
+                        break;
+                    }
+                },
+            ],
+            ['zip', (s) => s.zip([1]).toArray()],
+            ['interleave', (s) => s.interleave([1]).take(2).toArray()],
+            ['takeWhile', (s) => s.takeWhile((x) => x < 2).toArray()],
+            ['chunk', (s) => s.chunk(2).first()],
+            ['orderBy', (s) => s.orderBy((x) => -x).first()],
+        ];
+
+        test.each(exits)('should close the source exactly once when stopping via %s', (_, consume) => {
+            const { iterable, log } = tracked([1, 2, 3, 4]);
+            consume(iterable);
+            expect(log).toEqual({ opened: 1, closed: 1 });
+        });
+
+        test.each([
+            ['toArray', (s: LazyIterable<number>) => s.toArray()],
+            ['iteration', (s: LazyIterable<number>) => [...s]],
+            ['forEach', (s: LazyIterable<number>) => s.forEach(() => undefined)],
+        ])('should close the source exactly once when a map callback throws during %s', (_, consume) => {
+            const { iterable, log } = tracked([1, 2, 3, 4]);
+            const failing = iterable.map((x) => {
+                if (x === 2) {
+                    throw new Error('boom');
+                }
+                return x;
+            });
+            expect(() => consume(failing)).toThrow('boom');
+            expect(log).toEqual({ opened: 1, closed: 1 });
+        });
+
+        test('iterators should be disposable', () => {
+            const { iterable, log } = tracked([1, 2, 3]);
+            {
+                using iterator = iterable.map((x) => x * 2).disposableIterator();
+                expect(iterator.next().value).toBe(2);
+            }
+            expect(log).toEqual({ opened: 1, closed: 1 });
+
+            const iterator: Iterator<number> & Partial<Disposable> = LazyIterable.from([1])[Symbol.iterator]();
+            expect(typeof iterator[Symbol.dispose]).toBe('function');
+            expect(() => iterator[Symbol.dispose]?.()).not.toThrow();
+        });
+
+        test('using should acquire and release a resource exactly once per iteration', () => {
+            const acquire = jest.fn(() => ({ rows: [1, 2, 3] }));
+            const release = jest.fn();
+            const subject = LazyIterable.using(acquire, (r) => r.rows, release);
+
+            expect(acquire).not.toHaveBeenCalled();
+            expect(subject.first()).toBe(1);
+            expect(release).toHaveBeenCalledTimes(1);
+            expect(subject.map((x) => x * 2).toArray()).toEqual([2, 4, 6]);
+            expect(release).toHaveBeenCalledTimes(2);
+            expect(() =>
+                subject
+                    .map(() => {
+                        throw new Error('boom');
+                    })
+                    .toArray(),
+            ).toThrow('boom');
+            expect(acquire).toHaveBeenCalledTimes(3);
+            expect(release).toHaveBeenCalledTimes(3);
+            expect(release).toHaveBeenLastCalledWith(acquire.mock.results[2].value);
+        });
+
+        test('finally should run exactly once when an iteration ends', () => {
+            const callback = jest.fn();
+            const subject = LazyIterable.from([1, 2, 3]).finally(callback);
+
+            expect(subject.toArray()).toEqual([1, 2, 3]);
+            expect(callback).toHaveBeenCalledTimes(1);
+            expect(subject.take(1).toArray()).toEqual([1]);
+            expect(callback).toHaveBeenCalledTimes(2);
+            expect(() =>
+                subject.forEach(() => {
+                    throw new Error('boom');
+                }),
+            ).toThrow('boom');
+            expect(callback).toHaveBeenCalledTimes(3);
+            subject[Symbol.iterator]().return?.();
+            expect(callback).toHaveBeenCalledTimes(3);
+        });
+    });
+
+    describe('diagnostics', () => {
+        test('tap should observe each element without changing the sequence', () => {
+            const seen: [number, number][] = [];
+            const result = LazyIterable.from([3, 4, 5])
+                .tap((x, i) => seen.push([x, i]))
+                .take(2)
+                .toArray();
+
+            expect(result).toEqual([3, 4]);
+            expect(seen).toEqual([
+                [3, 0],
+                [4, 1],
+            ]);
+        });
+
+        test('explain should describe each operator of the chain with its arguments', () => {
+            const chain = LazyIterable.from([5, 3, 8, 1])
+                .map((x) => x * 2)
+                .filter((x) => x > 4)
+                .skip(1)
+                .take(3)
+                .window(2, 1, { partial: true });
+
+            expect(chain.explain()).toBe(
+                [
+                    'genArray(Array(4))',
+                    '  -> genMap((x) => x * 2)',
+                    '  -> genFilter((x) => x > 4)',
+                    '  -> genSkip(1)',
+                    '  -> genTake(3)',
+                    '  -> genWindow(2, 1, { partial: true })',
+                ].join('\n'),
+            );
+            expect(
+                LazyIterable.fromLength(3)
+                    .zip(['a'])
+                    .groupBy(function byParity([x]) {
+                        return x % 2 === 0 ? 'even' : 'odd';
+                    })
+                    .explain(),
+            ).toBe('genRange(0, 1, 3)\n  -> genZip(Array(1))\n  -> genGroupBy(byParity)');
+            expect(
+                new TrackedTestIterable([1])
+                    .orderBy((x) => x)
+                    .take(1)
+                    .explain(),
+            ).toBe('genSource()\n  -> genTopK(1, (x) => x)');
+        });
+
+        test('instrument should report the elements each operator pulls and yields', () => {
+            const chain = LazyIterable.fromLength(100)
+                .map((x) => x * 2)
+                .filter((x) => x % 3 === 0)
+                .skip(2)
+                .take(5)
+                .instrument();
+
+            expect(chain.toArray()).toEqual([12, 18, 24, 30, 36]);
+            const report = chain.report();
+            expect(report.stages.map(({ name, args, pulled, yielded }) => [name, args, pulled, yielded])).toEqual([
+                ['genRange', '0, 1, 100', 0, 19],
+                ['genMap', '(x) => x * 2', 19, 19],
+                ['genFilter', '(x) => x % 3 === 0', 19, 7],
+                ['genSkip', '2', 7, 5],
+                ['genTake', '5', 5, 5],
+            ]);
+            for (const stage of report.stages) {
+                expect(stage.time).toBeGreaterThanOrEqual(0);
+            }
+            expect(report.time).toBeGreaterThanOrEqual(report.stages[0].time);
+
+            expect(chain.count()).toBe(5);
+            expect(chain.report().stages[4].yielded).toBe(10);
+        });
+
+        test('instrument should measure the time spent in each operator', () => {
+            // Fake timers also fake performance.now, which cannot be spied on where it is read-only, as on Node 18.
+            jest.useFakeTimers();
+            try {
+                const chain = LazyIterable.from([1, 2])
+                    .map((x) => (jest.advanceTimersByTime(20), x))
+                    .tap(() => {
+                        jest.advanceTimersByTime(1);
+                    })
+                    .instrument();
+                chain.toArray();
+                const report = chain.report();
+
+                expect(report.stages.map((stage) => stage.time)).toEqual([0, 40, 2]);
+                expect(report.time).toBe(42);
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+    });
+
+    describe('aggregation', () => {
+        const people = [
+            { name: 'Ann', age: 31 },
+            { name: 'Bob', age: 25 },
+            { name: 'Cid', age: 40 },
+            { name: 'Dee', age: 25 },
+        ];
+
+        test('sum and average should work on numbers, bigints and selected values', () => {
+            const total: number | undefined = LazyIterable.from([1, 2, 3, 4]).sum();
+            expect(total).toBe(10);
+            expect(LazyIterable.from([1, 2, 3, 4]).average()).toBe(2.5);
+            expect(LazyIterable.from(people).sum((p) => p.age)).toBe(121);
+            expect(LazyIterable.from(people).average((p) => p.age)).toBe(30.25);
+
+            const big: bigint = LazyIterable.from([BigInt(2) ** BigInt(60), BigInt(2) ** BigInt(60), BigInt(1)]).sum(undefined, 'throw');
+            expect(big).toBe(BigInt(2) ** BigInt(61) + BigInt(1));
+            expect(LazyIterable.from([BigInt(1), BigInt(2)]).average()).toBe(BigInt(1));
+            expect(LazyIterable.from(people).sum((p) => BigInt(p.age))).toBe(BigInt(121));
+        });
+
+        test('min and max should return the extreme values and propagate NaN', () => {
+            expect(LazyIterable.from([3, 1, 2]).min()).toBe(1);
+            expect(LazyIterable.from([3, 1, 2]).max()).toBe(3);
+            expect(LazyIterable.from([BigInt(3), -BigInt(1)]).min()).toBe(-BigInt(1));
+            expect(LazyIterable.from(people).max((p) => p.age)).toBe(40);
+            expect(LazyIterable.from(['b', 'c', 'a']).max()).toBe('c');
+            expect(LazyIterable.from([1, NaN, 0]).min()).toBeNaN();
+            expect(LazyIterable.from([NaN, 1]).max()).toBeNaN();
+        });
+
+        test('minBy and maxBy should return the first element with the extreme key', () => {
+            expect(LazyIterable.from(people).minBy((p) => p.age)).toBe(people[1]);
+            expect(LazyIterable.from(people).maxBy((p) => p.age)).toBe(people[2]);
+            expect(
+                LazyIterable.from(people).minBy(
+                    (p) => p.name,
+                    (a, b) => b.localeCompare(a),
+                ),
+            ).toBe(people[3]);
+        });
+
+        test('median and percentile should interpolate between the nearest values', () => {
+            expect(LazyIterable.from([5, 1, 3]).median()).toBe(3);
+            expect(LazyIterable.from([4, 1, 3, 2]).median()).toBe(2.5);
+            expect(LazyIterable.from(people).median((p) => p.age)).toBe(28);
+            expect(LazyIterable.from([BigInt(4), BigInt(1), BigInt(3), BigInt(2)]).median()).toBe(BigInt(2));
+
+            const data = LazyIterable.fromLength(101).orderBy((x) => (x * 37) % 101);
+            expect(data.percentile(0)).toBe(0);
+            expect(data.percentile(90)).toBe(90);
+            expect(data.percentile(100)).toBe(100);
+            expect(LazyIterable.from([10, 20]).percentile(25)).toBe(12.5);
+            expect(LazyIterable.from([BigInt(0), BigInt(10)]).percentile(99)).toBe(BigInt(9));
+            expect(LazyIterable.from([1, NaN]).median()).toBeNaN();
+            for (const p of [-1, 101, NaN]) {
+                expect(() => data.percentile(p)).toThrow(expect.objectContaining({ name: 'RefinedSetsError', type: 'invalid-argument' }));
+            }
+        });
+
+        test('percentile should agree with sorting on random data', () => {
+            let seed = 42;
+            const random = () => (seed = (seed * 16807) % 2147483647);
+            const values = LazyIterable.fromLength(1001)
+                .map(() => random() % 50)
+                .toArray();
+            const sorted = [...values].sort((a, b) => a - b);
+            for (const p of [1, 25, 50, 75, 99]) {
+                expect(LazyIterable.from(values).percentile(p)).toBe(sorted[p * 10]);
+            }
+            expect(values).not.toEqual(sorted);
+        });
+
+        test('stats should compute the mean and variance in one pass', () => {
+            const result = LazyIterable.from([2, 4, 4, 4, 5, 5, 7, 9]).stats(undefined, 'throw');
+            expect(result.count).toBe(8);
+            expect(result.mean).toBe(5);
+            expect(result.variance).toBe(4);
+            expect(result.stddev).toBe(2);
+            expect(result.sampleVariance).toBeCloseTo(32 / 7);
+            expect(LazyIterable.from([1e9 + 4, 1e9 + 7, 1e9 + 13, 1e9 + 16]).stats()?.variance).toBeCloseTo(22.5);
+            expect(LazyIterable.from(people).stats((p) => BigInt(p.age))?.mean).toBe(30.25);
+            expect(LazyIterable.from([1]).stats()?.sampleVariance).toBeNaN();
+        });
+
+        test('empty sequences should return undefined or throw, as chosen', () => {
+            const empty = LazyIterable.empty<number>();
+            const aggregations: ((onEmpty?: 'undefined' | 'throw') => unknown)[] = [
+                (onEmpty) => empty.sum(undefined, onEmpty),
+                (onEmpty) => empty.average(undefined, onEmpty),
+                (onEmpty) => empty.min(undefined, onEmpty),
+                (onEmpty) => empty.max(undefined, onEmpty),
+                (onEmpty) => empty.minBy((x) => x, undefined, onEmpty),
+                (onEmpty) => empty.maxBy((x) => x, undefined, onEmpty),
+                (onEmpty) => empty.median(undefined, onEmpty),
+                (onEmpty) => empty.percentile(10, undefined, onEmpty),
+                (onEmpty) => empty.stats(undefined, onEmpty),
+            ];
+            for (const aggregate of aggregations) {
+                expect(aggregate()).toBeUndefined();
+                expect(aggregate('undefined')).toBeUndefined();
+                expect(() => aggregate('throw')).toThrow(expect.objectContaining({ name: 'RefinedSetsError', type: 'sequence-empty' }));
+            }
+        });
+    });
+
+    describe('generators', () => {
+        test('unfold should yield elements until the step returns undefined', () => {
+            const fibonacci = LazyIterable.unfold<[number, number], number>([0, 1], ([a, b]) => [a, [b, a + b]]);
+            expect(fibonacci.take(8).toArray()).toEqual([0, 1, 1, 2, 3, 5, 8, 13]);
+            expect(LazyIterable.unfold(3, (n) => (n > 0 ? [`${n}`, n - 1] : undefined)).toArray()).toEqual(['3', '2', '1']);
+        });
+
+        test('iterate should yield the seed and each successive value', () => {
+            expect(
+                LazyIterable.iterate(1, (x) => x * 2)
+                    .take(5)
+                    .toArray(),
+            ).toEqual([1, 2, 4, 8, 16]);
+        });
+
+        test('repeat should yield a value a number of times or forever', () => {
+            expect(LazyIterable.repeat('a', 3).toArray()).toEqual(['a', 'a', 'a']);
+            expect(LazyIterable.repeat('a', 0).toArray()).toEqual([]);
+            expect(LazyIterable.repeat(7).take(2).toArray()).toEqual([7, 7]);
+            expect(LazyIterable.repeat(7).count()).toBe(Infinity);
+            expect(LazyIterable.repeat(7, 1e12).at(-1)).toBe(7);
+            expect(() => LazyIterable.repeat(7, -1)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+        });
+
+        test('cycle should repeat the sequence while enumerating the source once', () => {
+            const source = new TrackedTestIterable([1, 2, 3]);
+            expect(source.cycle().take(7).toArray()).toEqual([1, 2, 3, 1, 2, 3, 1]);
+            expect(source.itemsYielded).toBe(3);
+            expect(source.cycle(2).toArray()).toEqual([1, 2, 3, 1, 2, 3]);
+            expect(source.cycle(0).toArray()).toEqual([]);
+            expect(LazyIterable.empty().cycle().toArray()).toEqual([]);
+            expect(() => source.cycle(1.5)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+        });
+    });
+
+    describe('traverse', () => {
+        interface Employee {
+            name: string;
+            reports?: Employee[];
+        }
+        const org: Employee = {
+            name: 'ceo',
+            reports: [
+                { name: 'cto', reports: [{ name: 'dev1' }, { name: 'dev2' }] },
+                { name: 'cfo', reports: [{ name: 'acct' }] },
+            ],
+        };
+        const names = (order: 'bfs' | 'dfs-pre' | 'dfs-post') =>
+            LazyIterable.traverse(org, (e) => e.reports, { order })
+                .map((x) => x.node.name)
+                .toArray();
+
+        test('should visit nodes in the requested order', () => {
+            expect(names('dfs-pre')).toEqual(['ceo', 'cto', 'dev1', 'dev2', 'cfo', 'acct']);
+            expect(names('dfs-post')).toEqual(['dev1', 'dev2', 'cto', 'acct', 'cfo', 'ceo']);
+            expect(names('bfs')).toEqual(['ceo', 'cto', 'cfo', 'dev1', 'dev2', 'acct']);
+            expect(LazyIterable.traverse(org, (e) => e.reports).count()).toBe(6);
+            expect(() => LazyIterable.traverse(org, (e) => e.reports, { order: 'up' as 'bfs' })).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+        });
+
+        test('should yield the depth and path of each node', () => {
+            for (const order of ['bfs', 'dfs-pre', 'dfs-post'] as const) {
+                const acct = LazyIterable.traverse(org, (e) => e.reports, { order }).find((x) => x.node.name === 'acct')!;
+                expect(acct.depth).toBe(2);
+                expect(acct.path.map((e) => e.name)).toEqual(['ceo', 'cfo', 'acct']);
+            }
+        });
+
+        test('should request children only as the traversal reaches them', () => {
+            const children = jest.fn((n: number) => [n * 2, n * 2 + 1]);
+            const dfs = LazyIterable.traverse(1, children)
+                .map((x) => x.node)
+                .take(4)
+                .toArray();
+            expect(dfs).toEqual([1, 2, 4, 8]);
+            expect(children).toHaveBeenCalledTimes(3);
+
+            const bfs = LazyIterable.traverse(1, children, { order: 'bfs' })
+                .filter((x) => x.depth === 3)
+                .first();
+            expect(bfs?.path).toEqual([1, 2, 4, 8]);
+        });
+
+        test('should skip nodes already seen when given a key', () => {
+            const graph: Record<string, string[]> = { a: ['b', 'c'], b: ['c', 'a'], c: ['a', 'd'], d: [] };
+            const visit = (order: 'bfs' | 'dfs-pre' | 'dfs-post') =>
+                LazyIterable.traverse('a', (n) => graph[n], { order, key: (n) => n })
+                    .map((x) => x.node)
+                    .toArray();
+            expect(visit('dfs-pre')).toEqual(['a', 'b', 'c', 'd']);
+            expect(visit('dfs-post')).toEqual(['d', 'c', 'b', 'a']);
+            expect(visit('bfs')).toEqual(['a', 'b', 'c', 'd']);
+            expect(
+                LazyIterable.traverse('a', (n) => graph[n])
+                    .take(10)
+                    .count(),
+            ).toBe(10);
+        });
+
+        test('should close open child iterators when stopped early', () => {
+            let opened = 0;
+            let closed = 0;
+            const children = function* (n: number) {
+                opened++;
+                try {
+                    yield n + 1;
+                } finally {
+                    closed++;
+                }
+            };
+            LazyIterable.traverse(0, children).take(3).toArray();
+            expect(opened).toBe(2);
+            expect(closed).toBe(2);
+        });
+    });
+
+    describe('strict accessors', () => {
+        test('firstOrThrow and lastOrThrow should distinguish undefined elements from an empty sequence', () => {
+            expect(LazyIterable.from([undefined, 1]).firstOrThrow()).toBeUndefined();
+            expect(LazyIterable.from([1, undefined]).lastOrThrow()).toBeUndefined();
+            expect(
+                LazyIterable.fromLength(5)
+                    .filter((x) => x % 2 === 1)
+                    .lastOrThrow(),
+            ).toBe(3);
+            expect(
+                LazyIterable.from([3, 1, 2])
+                    .orderBy((x) => x)
+                    .firstOrThrow(),
+            ).toBe(1);
+            expect(() => LazyIterable.empty().firstOrThrow()).toThrow(expect.objectContaining({ type: RefinedSetsErrorCode.SequenceEmpty }));
+            expect(() => LazyIterable.from([]).lastOrThrow()).toThrow(expect.objectContaining({ type: RefinedSetsErrorCode.SequenceEmpty }));
+            expect(() =>
+                LazyIterable.fromLength(3)
+                    .filter(() => false)
+                    .lastOrThrow(),
+            ).toThrow(expect.objectContaining({ type: 'sequence-empty' }));
+        });
+
+        test('single should require exactly one match and stop at the second', () => {
+            const visited: number[] = [];
+            const source = LazyIterable.fromLength(100).map((x) => (visited.push(x), x));
+
+            expect(LazyIterable.from(['only']).single()).toBe('only');
+            expect(source.single((x) => x === 42)).toBe(42);
+            expect(() => source.single((x) => x > 10)).toThrow(expect.objectContaining({ type: RefinedSetsErrorCode.MoreThanOneElement }));
+            expect(visited[visited.length - 1]).toBe(12);
+            expect(() => LazyIterable.from([1, 2]).single()).toThrow('The sequence contains more than one element.');
+            expect(() => source.single((x) => x < 0)).toThrow(expect.objectContaining({ type: RefinedSetsErrorCode.SequenceEmpty }));
+        });
+
+        test('elementAt should throw for indices out of range', () => {
+            const generated = LazyIterable.fromLength(5).filter(() => true);
+
+            expect(LazyIterable.from(['a', 'b', 'c']).elementAt(1)).toBe('b');
+            expect(LazyIterable.from(['a', 'b', 'c']).elementAt(-1)).toBe('c');
+            expect(generated.elementAt(4)).toBe(4);
+            expect(generated.elementAt(-5)).toBe(0);
+            expect(LazyIterable.from([undefined]).elementAt(0)).toBeUndefined();
+            expect(() => generated.elementAt(5)).toThrow('Index 5 is out of range for a sequence of 5 elements.');
+            expect(() => generated.elementAt(-6)).toThrow(expect.objectContaining({ type: RefinedSetsErrorCode.IndexOutOfRange }));
+            expect(() => LazyIterable.fromLength(3).elementAt(3)).toThrow(expect.objectContaining({ type: RefinedSetsErrorCode.IndexOutOfRange }));
+            expect(() => LazyIterable.fromLength(3).elementAt(0.5)).toThrow(expect.objectContaining({ type: RefinedSetsErrorCode.InvalidArgument }));
+        });
+    });
+
+    describe('error handling', () => {
+        const parse = (text: string) => {
+            const value = Number(text);
+            if (Number.isNaN(value)) {
+                throw new Error(`Not a number: ${text}`);
+            }
+            return value;
+        };
+
+        test('catchError should keep the elements before the error and continue with the fallback', () => {
+            const handler = jest.fn(() => [-1]);
+            const result = LazyIterable.from(['1', '2', 'x', '4']).map(parse).catchError(handler).toArray();
+
+            expect(result).toEqual([1, 2, -1]);
+            expect(handler).toHaveBeenCalledWith(new Error('Not a number: x'), 2);
+            expect(
+                LazyIterable.from(['x'])
+                    .map(parse)
+                    .catchError(() => undefined)
+                    .toArray(),
+            ).toEqual([]);
+            expect(
+                LazyIterable.from(['1'])
+                    .map(parse)
+                    .catchError(() => [0])
+                    .toArray(),
+            ).toEqual([1]);
+        });
+
+        test('onErrorSkip should drop only the elements whose callbacks throw', () => {
+            const errors: [string, number][] = [];
+            const result = LazyIterable.from(['1', 'x', '3', 'y', '5'])
+                .map(parse)
+                .filter((x) => x > 1)
+                .onErrorSkip((error, index) => errors.push([(error as Error).message, index]))
+                .map((x, i) => `${i}:${x}`);
+
+            expect(result.toArray()).toEqual(['0:3', '1:5']);
+            expect(errors).toEqual([
+                ['Not a number: x', 1],
+                ['Not a number: y', 3],
+            ]);
+            expect([...result]).toEqual(['0:3', '1:5']);
+            expect(result.explain()).toContain('genOnErrorSkip(');
+        });
+
+        test('onErrorSkip should not resume a failed source', () => {
+            const failing = LazyIterable.from(
+                (function* () {
+                    yield 1;
+                    throw new Error('source failed');
+                })(),
+            );
+
+            expect(() => failing.onErrorSkip().toArray()).toThrow('source failed');
+        });
+
+        test('wrapErrors should record the operator and index of the failing callback', () => {
+            const chain = LazyIterable.from(['1', '2', 'x'])
+                .filter((s) => s.length > 0)
+                .map(parse)
+                .wrapErrors();
+            let caught: RefinedSetsError | undefined;
+            try {
+                chain.toArray();
+            } catch (error) {
+                caught = error as RefinedSetsError;
+            }
+
+            expect(caught).toBeInstanceOf(RefinedSetsError);
+            expect(caught?.type).toBe(RefinedSetsErrorCode.CallbackError);
+            expect(caught?.operator).toBe('map');
+            expect(caught?.index).toBe(2);
+            expect(caught?.cause).toEqual(new Error('Not a number: x'));
+            expect(caught?.message).toBe('The map callback threw at index 2: Not a number: x');
+            expect(LazyIterable.from(['1', 'x']).map(parse).wrapErrors().onErrorSkip().toArray()).toEqual([1]);
+        });
+
+        test('retry should enumerate the source again without repeating elements', () => {
+            let attempts = 0;
+            const flaky = LazyIterable.from({
+                *[Symbol.iterator]() {
+                    attempts++;
+                    for (let i = 0; i < 5; i++) {
+                        if (i === attempts) {
+                            throw new Error(`failed at ${i}`);
+                        }
+                        yield i;
+                    }
+                },
+            });
+
+            expect(flaky.retry(5).toArray()).toEqual([0, 1, 2, 3, 4]);
+            expect(attempts).toBe(5);
+
+            attempts = 0;
+            expect(() => flaky.retry(1).toArray()).toThrow('failed at 2');
+            expect(() => flaky.retry(-1)).toThrow(expect.objectContaining({ type: RefinedSetsErrorCode.InvalidArgument }));
+        });
+    });
 });
 
 class TrackedTestIterable<T> extends LazyIterable<T> {
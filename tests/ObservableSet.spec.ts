@@ -0,0 +1,214 @@
+import { ObservableSet, SetChange } from '../src/index';
+
+describe('ObservableSet', () => {
+    beforeAll(() => {
+        // Node defines Symbol.dispose only in its main realm, not in the sandbox jest runs tests in.
+        (Symbol as { dispose?: symbol }).dispose ??= Symbol.for('nodejs.dispose');
+    });
+
+    interface Task {
+        id: number;
+        owner: string;
+        done: boolean;
+    }
+
+    const task = (id: number, owner: string, done = false): Task => ({ id, owner, done });
+
+    test('should announce only actual changes', () => {
+        const set = new ObservableSet([1, 2]);
+        const changes: SetChange<number>[] = [];
+        const subscription = set.subscribe((change) => changes.push(change));
+
+        set.add(2).add(3);
+        expect(set.delete(4)).toBe(false);
+        expect(set.delete(1)).toBe(true);
+        set.clear();
+        subscription.dispose();
+        set.add(5);
+
+        expect(changes).toEqual([
+            { type: 'add', value: 3 },
+            { type: 'delete', value: 1 },
+            { type: 'delete', value: 2 },
+            { type: 'delete', value: 3 },
+        ]);
+        expect(subscription.disposed).toBe(true);
+        expect([...set]).toEqual([5]);
+    });
+
+    test('filter views should update from each change without re-running the predicate', () => {
+        const set = new ObservableSet([1, 2, 3, 4]);
+        const predicate = jest.fn((x: number) => x % 2 === 0);
+        const evens = set.filter(predicate);
+        const changes: SetChange<number>[] = [];
+        evens.subscribe((change) => changes.push(change));
+
+        expect([...evens]).toEqual([2, 4]);
+        set.add(6);
+        set.add(7);
+        set.delete(2);
+        set.delete(3);
+
+        expect([...evens]).toEqual([4, 6]);
+        expect(evens.size).toBe(2);
+        expect(evens.has(6)).toBe(true);
+        expect(predicate).toHaveBeenCalledTimes(6);
+        expect(changes).toEqual([
+            { type: 'add', value: 6 },
+            { type: 'delete', value: 2 },
+        ]);
+    });
+
+    test('map views should keep a result while any element maps to it', () => {
+        const set = new ObservableSet([task(1, 'ann'), task(2, 'bob')]);
+        const owners = set.map((t) => t.owner);
+        const changes: SetChange<string>[] = [];
+        owners.subscribe((change) => changes.push(change));
+        const third = task(3, 'ann');
+
+        set.add(third);
+        expect([...owners]).toEqual(['ann', 'bob']);
+        for (const t of [...set].filter((t) => t.owner === 'ann')) {
+            set.delete(t);
+        }
+
+        expect([...owners]).toEqual(['bob']);
+        expect(changes).toEqual([{ type: 'delete', value: 'ann' }]);
+    });
+
+    test('views should chain, and groupBy should add and remove groups as their members change', () => {
+        const set = new ObservableSet([task(1, 'ann'), task(2, 'bob', true), task(3, 'ann', true)]);
+        const byOwner = set.filter((t) => !t.done).groupBy((t) => t.owner);
+        const groupChanges: string[] = [];
+        byOwner.subscribe(({ type, value }) => groupChanges.push(`${type}:${value.key}`));
+
+        expect([...byOwner].map((g) => [g.key, g.snapshot().count()])).toEqual([['ann', 1]]);
+        const annChanges: SetChange<Task>[] = [];
+        byOwner.get('ann')!.subscribe((change) => annChanges.push(change));
+
+        const carl = task(4, 'carl');
+        set.add(carl);
+        set.add(task(5, 'ann'));
+        expect(byOwner.get('ann')!.size).toBe(2);
+        expect(annChanges.map((c) => `${c.type}:${c.value.id}`)).toEqual(['add:5']);
+
+        set.delete(carl);
+        expect(byOwner.get('carl')).toBeUndefined();
+        expect(groupChanges).toEqual(['add:carl', 'delete:carl']);
+        expect(byOwner.size).toBe(1);
+    });
+
+    test('count views should follow their source and report the previous value', () => {
+        const set = new ObservableSet(['a', 'bb', 'ccc']);
+        const total = set.count();
+        const long = set.count((s) => s.length > 1);
+        const updates: [number, number][] = [];
+        long.subscribe((value, previous) => updates.push([value, previous]));
+
+        set.add('dddd');
+        set.add('e');
+        set.delete('bb');
+        set.delete('a');
+
+        expect(total.value).toBe(3);
+        expect(long.value).toBe(2);
+        expect(updates).toEqual([
+            [3, 2],
+            [2, 3],
+        ]);
+    });
+
+    test('changes made while a change is announced should reach every view in order', () => {
+        const set = new ObservableSet([1, 2]);
+        set.subscribe(({ type, value }) => {
+            if (type === 'add' && value < 0) {
+                set.delete(value);
+            }
+        });
+        const doubled = set.map((x) => x * 2);
+        const negatives = set.filter((x) => x < 0);
+        const count = set.count();
+        const changes: SetChange<number>[] = [];
+        doubled.subscribe((change) => changes.push(change));
+
+        set.add(-1);
+
+        expect([...set]).toEqual([1, 2]);
+        expect([...doubled]).toEqual([2, 4]);
+        expect([...negatives]).toEqual([]);
+        expect(count.value).toBe(2);
+        expect(changes).toEqual([
+            { type: 'add', value: -2 },
+            { type: 'delete', value: -2 },
+        ]);
+    });
+
+    test('a throwing subscriber should not keep a change from the views, and its error should be rethrown', () => {
+        const set = new ObservableSet([1]);
+        set.subscribe(() => {
+            throw new Error('listener failed');
+        });
+        const doubled = set.map((x) => x * 2);
+        const listener = jest.fn();
+        set.subscribe(listener);
+
+        expect(() => set.add(2)).toThrow('listener failed');
+        expect(() => set.delete(1)).toThrow('listener failed');
+
+        expect([...doubled]).toEqual([4]);
+        expect(listener.mock.calls).toEqual([[{ type: 'add', value: 2 }], [{ type: 'delete', value: 1 }]]);
+        expect([...set]).toEqual([2]);
+    });
+
+    test('disposed views should stop following their source and keep their last contents', () => {
+        const set = new ObservableSet([1, 2, 3]);
+        const large = set.filter((x) => x > 1);
+        const count = large.count();
+        const listener = jest.fn();
+        large.subscribe(listener);
+
+        large.dispose();
+        set.add(4);
+        count.dispose();
+        set.delete(3);
+
+        expect([...large]).toEqual([2, 3]);
+        expect(count.value).toBe(2);
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    test('snapshots should not change with the view', () => {
+        const set = new ObservableSet([3, 1, 2]);
+        const odd = set.filter((x) => x % 2 === 1);
+        const snapshot = odd.snapshot();
+
+        set.add(5);
+        set.delete(1);
+
+        expect(snapshot.toArray()).toEqual([3, 1]);
+        expect(
+            odd
+                .snapshot()
+                .orderBy((x) => x)
+                .toArray(),
+        ).toEqual([3, 5]);
+    });
+
+    test('subscriptions should be disposable with using', () => {
+        const set = new ObservableSet<number>();
+        const listener = jest.fn();
+        {
+            using subscription = set.subscribe(listener);
+            set.add(1);
+            expect(subscription.disposed).toBe(false);
+        }
+        set.add(2);
+        {
+            using view = set.filter((x) => x > 0);
+            expect(view.size).toBe(2);
+        }
+        set.add(3);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,231 @@
+import { EventEmitter } from 'events';
+import { AsyncLazyIterable, LazyIterable, ObservableLike, Observer, RefinedSetsErrorCode } from '../src/index';
+
+describe('Observables', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    /**
+     * Collects the callbacks which report unhandled errors from a timer, so a test can check them without the error escaping.
+     */
+    const captureReports = (): (() => void)[] => {
+        const reports: (() => void)[] = [];
+        jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => {
+            reports.push(callback);
+            return 0;
+        }) as unknown as typeof setTimeout);
+        return reports;
+    };
+
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    /**
+     * A minimal observable which emits `values` synchronously on subscribe, recording unsubscriptions.
+     */
+    const observableOf = <T>(values: T[], log: string[] = []): ObservableLike<T> => ({
+        subscribe(observer: Partial<Observer<T>>) {
+            let closed = false;
+            log.push('subscribe');
+            for (const value of values) {
+                if (closed) {
+                    break;
+                }
+                observer.next?.(value);
+            }
+            if (!closed) {
+                observer.complete?.();
+            }
+            return {
+                unsubscribe() {
+                    closed = true;
+                    log.push('unsubscribe');
+                },
+            };
+        },
+    });
+
+    test('fromEvents should buffer events until read and remove its listeners when done', async () => {
+        const emitter = new EventEmitter();
+        const iterator = LazyIterable.fromEvents<number>(emitter, 'data', { until: 'end' })[Symbol.asyncIterator]();
+        const first = iterator.next();
+
+        emitter.emit('data', 1);
+        emitter.emit('data', 2, 'ignored');
+        emitter.emit('data', 3);
+        emitter.emit('end');
+        emitter.emit('data', 4);
+
+        expect(await first).toEqual({ value: 1, done: false });
+        expect(await iterator.next()).toEqual({ value: 2, done: false });
+        expect(await iterator.next()).toEqual({ value: 3, done: false });
+        expect(await iterator.next()).toEqual({ value: undefined, done: true });
+        expect(emitter.eventNames()).toEqual([]);
+    });
+
+    test('fromEvents should read event targets until a signal aborts', async () => {
+        const target = new EventTarget();
+        const controller = new AbortController();
+        const events = AsyncLazyIterable.fromEvents<Event>(target, 'tick', { until: controller.signal });
+        const result = events.map((e) => e.type).toArray();
+
+        await Promise.resolve();
+        target.dispatchEvent(new Event('tick'));
+        target.dispatchEvent(new Event('tick'));
+        controller.abort();
+
+        expect(await result).toEqual(['tick', 'tick']);
+        expect(await AsyncLazyIterable.fromEvents(target, 'tick', { until: controller.signal }).toArray()).toEqual([]);
+    });
+
+    test('fromEvents should fail on an error event and stop listening when iteration stops early', async () => {
+        const emitter = new EventEmitter();
+        const failing = LazyIterable.fromEvents(emitter, 'data').toArray();
+        await Promise.resolve();
+        emitter.emit('data', 1);
+        emitter.emit('error', new Error('connection lost'));
+        await expect(failing).rejects.toThrow('connection lost');
+
+        const head = LazyIterable.fromEvents<number>(emitter, 'data', { until: new Promise(() => undefined) })
+            .take(2)
+            .toArray();
+        await Promise.resolve();
+        emitter.emit('data', 1);
+        emitter.emit('data', 2);
+        expect(await head).toEqual([1, 2]);
+        expect(emitter.listenerCount('data')).toBe(0);
+        expect(emitter.listenerCount('error')).toBe(0);
+    });
+
+    test.each([
+        ['drop-oldest', [3, 4, 5]],
+        ['drop-newest', [1, 2, 3]],
+    ] as const)('fromObservable should apply the %s overflow strategy', async (overflow, expected) => {
+        expect(await LazyIterable.fromObservable(observableOf([1, 2, 3, 4, 5]), { bufferSize: 3, overflow }).toArray()).toEqual(expected);
+    });
+
+    test('fromObservable should fail with a buffer overflow after yielding the buffered values', async () => {
+        const values: number[] = [];
+        const reading = LazyIterable.fromObservable(observableOf([1, 2, 3]), { bufferSize: 2 }).forEach((x) => values.push(x));
+
+        await expect(reading).rejects.toMatchObject({ type: RefinedSetsErrorCode.BufferOverflow });
+        expect(values).toEqual([1, 2]);
+    });
+
+    test('fromObservable should adopt interop observables and unsubscribe when iteration ends', async () => {
+        const log: string[] = [];
+        const interop = { '@@observable': () => observableOf(['a', 'b', 'c'], log) };
+
+        expect(await LazyIterable.fromObservable(interop as unknown as ObservableLike<string>).toArray()).toEqual(['a', 'b', 'c']);
+        expect(log).toEqual(['subscribe', 'unsubscribe']);
+
+        const failing: ObservableLike<number> = { subscribe: (observer) => observer.error?.(new Error('source failed')) };
+        await expect(AsyncLazyIterable.fromObservable(failing).toArray()).rejects.toThrow('source failed');
+        expect(() => LazyIterable.fromObservable({} as ObservableLike<number>)).toThrow(
+            expect.objectContaining({ type: RefinedSetsErrorCode.InvalidArgument }),
+        );
+    });
+
+    test('toObservable should push each element and complete', async () => {
+        const observable = LazyIterable.fromLength(3).toObservable();
+        const values: number[] = [];
+        const completed = new Promise<void>((resolve) => observable.subscribe({ next: (x) => values.push(x), complete: resolve }));
+
+        await completed;
+        expect(values).toEqual([0, 1, 2]);
+        expect(observable['@@observable']()).toBe(observable);
+        expect(await LazyIterable.fromObservable(observable).toArray()).toEqual([0, 1, 2]);
+    });
+
+    test('toObservable should stop the iteration when unsubscribed', async () => {
+        let closed = false;
+        const source = AsyncLazyIterable.from(
+            (async function* () {
+                try {
+                    for (let i = 0; ; i++) {
+                        yield i;
+                        await Promise.resolve();
+                    }
+                } finally {
+                    closed = true;
+                }
+            })(),
+        );
+        const values: number[] = [];
+        const subscription = source.toObservable().subscribe((x) => {
+            values.push(x);
+            if (x === 2) {
+                subscription.unsubscribe();
+            }
+        });
+
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(values).toEqual([0, 1, 2]);
+        expect(subscription.closed).toBe(true);
+        expect(closed).toBe(true);
+    });
+
+    test('toObservable should report errors to the observer', async () => {
+        const source = LazyIterable.from([1, 0]).map((x) => {
+            if (x === 0) {
+                throw new Error('division by zero');
+            }
+            return 1 / x;
+        });
+        const error = await new Promise((resolve) => source.toObservable().subscribe({ error: resolve }));
+
+        expect(error).toEqual(new Error('division by zero'));
+    });
+
+    test('toObservable should close the iterator and report the error when the observer throws', async () => {
+        const reports = captureReports();
+        const emitter = new EventEmitter();
+        const errors: unknown[] = [];
+        const subscription = LazyIterable.fromEvents<number>(emitter, 'data')
+            .toObservable()
+            .subscribe({
+                next: () => {
+                    throw new Error('observer failed');
+                },
+                error: (error) => errors.push(error),
+            });
+
+        await flush();
+        expect(emitter.listenerCount('data')).toBe(1);
+        emitter.emit('data', 1);
+        await flush();
+
+        expect(subscription.closed).toBe(true);
+        expect(emitter.listenerCount('data')).toBe(0);
+        expect(errors).toEqual([]);
+        expect(reports).toHaveLength(1);
+        expect(reports[0]).toThrow('observer failed');
+    });
+
+    test('toObservable should report source errors asynchronously when the observer has no error callback', async () => {
+        const reports = captureReports();
+        const values: number[] = [];
+        LazyIterable.from([1, 0])
+            .map((x) => {
+                if (x === 0) {
+                    throw new Error('division by zero');
+                }
+                return x;
+            })
+            .toObservable()
+            .subscribe((x) => values.push(x));
+
+        await flush();
+        expect(values).toEqual([1]);
+        expect(reports).toHaveLength(1);
+        expect(reports[0]).toThrow('division by zero');
+    });
+
+    test('push sources should validate their buffering options', () => {
+        const emitter = new EventEmitter();
+        expect(() => LazyIterable.fromEvents(emitter, 'data', { bufferSize: 0 })).toThrow(
+            expect.objectContaining({ type: RefinedSetsErrorCode.InvalidArgument }),
+        );
+        expect(() => LazyIterable.fromEvents({} as EventEmitter, 'data')).toThrow('Expected an event emitter or an event target.');
+    });
+});
@@ -0,0 +1,238 @@
+import { LazyIterable } from '../src/index';
+
+describe('OperatorChain', () => {
+    const sources: [string, () => Iterable<number>][] = [
+        ['array', () => [5, 3, 8, 1, 9, 2, 7, 4, 6, 0]],
+        ['range', () => LazyIterable.fromRange(10, 1)],
+        ['length', () => LazyIterable.fromLength(10)],
+        ['set', () => new Set([5, 3, 8, 1, 9, 2, 7, 4, 6, 0])],
+        ['generator', () => ({ [Symbol.iterator]: () => generate([5, 3, 8, 1, 9, 2, 7, 4, 6, 0]) })],
+    ];
+
+    test.each(sources)('fused chains over a %s source should match nested generators', (_, source) => {
+        const fused = LazyIterable.from(source())
+            .map((x, i) => x * 10 + i)
+            .filter((x, i) => x % 3 !== 0 || i === 0)
+            .map((x, i) => [x, i])
+            .skip(1)
+            .take(4);
+        const expected = [
+            ...take(
+                skip(
+                    map(
+                        filter(
+                            map(source(), (x, i) => x * 10 + i),
+                            (x, i) => x % 3 !== 0 || i === 0,
+                        ),
+                        (x, i) => [x, i],
+                    ),
+                    1,
+                ),
+                4,
+            ),
+        ];
+
+        expect(fused.toArray()).toEqual(expected);
+        expect(fused.count()).toBe(expected.length);
+        expect(fused.last()).toEqual(expected[expected.length - 1]);
+        expect(fused.at(1)).toEqual(expected[1]);
+        expect(fused.at(-1)).toEqual(expected[expected.length - 1]);
+        expect(fused.at(99)).toBeUndefined();
+    });
+
+    test.each(sources)('map chains over a %s source should keep positions for indexed access', (_, source) => {
+        const mapped = LazyIterable.from(source())
+            .map((x, i) => `${x}@${i}`)
+            .skip(2)
+            .map((s, i) => `${s}#${i}`);
+        const expected = [
+            ...map(
+                skip(
+                    map(source(), (x, i) => `${x}@${i}`),
+                    2,
+                ),
+                (s, i) => `${s}#${i}`,
+            ),
+        ];
+
+        expect(mapped.toArray()).toEqual(expected);
+        expect(mapped.count()).toBe(8);
+        expect(mapped.last()).toBe(expected[7]);
+        expect(mapped.at(3)).toBe(expected[3]);
+        expect(mapped.at(-2)).toBe(expected[6]);
+    });
+
+    test('consecutive skips and takes should compose like nested generators', () => {
+        const subject = LazyIterable.fromLength(20);
+        const cases: [(s: LazyIterable<number>) => LazyIterable<number>, number[]][] = [
+            [(s) => s.take(10).skip(3).take(4), [3, 4, 5, 6]],
+            [(s) => s.skip(5).skip(5).take(2), [10, 11]],
+            [(s) => s.take(3).skip(5), []],
+            [(s) => s.skip(-1).take(2.5), [0, 1, 2]],
+            [(s) => s.take(NaN).skip(NaN).skip(18), [18, 19]],
+        ];
+        for (const [apply, expected] of cases) {
+            expect(apply(subject).toArray()).toEqual(expected);
+            expect(apply(LazyIterable.from(generate(LazyIterable.fromLength(20).toArray()))).toArray()).toEqual(expected);
+        }
+    });
+
+    test('count, last, skip, take and at should be O(1) on range-backed sources', () => {
+        const huge = LazyIterable.fromLength(1e12);
+
+        expect(huge.count()).toBe(1e12);
+        expect(huge.last()).toBe(1e12 - 1);
+        expect(huge.skip(1e12 - 3).toArray()).toEqual([1e12 - 3, 1e12 - 2, 1e12 - 1]);
+        expect(huge.skip(5e11).take(2).count()).toBe(2);
+        expect(LazyIterable.fromRange(0, -3e12, -3).at(1e12)).toBe(-3e12);
+        expect(LazyIterable.infinite().count()).toBe(Infinity);
+    });
+
+    test('array-backed sources should reflect later changes to the array', () => {
+        const array = [1, 2];
+        const subject = LazyIterable.from(array).map((x) => x * 2);
+        array.push(3);
+
+        expect(subject.count()).toBe(3);
+        expect(subject.toArray()).toEqual([2, 4, 6]);
+    });
+
+    test('fractional ranges should enumerate exactly as before', () => {
+        const range = LazyIterable.fromRange(0, 1, 0.1);
+        let expected = 0;
+        const accumulated: number[] = [];
+        for (let i = 0; i <= 10; i++, expected += 0.1) {
+            accumulated.push(expected);
+        }
+
+        expect(range.toArray()).toEqual(accumulated);
+        expect(range.at(3)).toBe(accumulated[3]);
+        expect(range.last()).toBe(accumulated[10]);
+    });
+
+    test('fused map/filter chains should not nest a generator per stage', () => {
+        const generatorFrames = (chain: (source: LazyIterable<number>) => LazyIterable<number>) => {
+            const frames: number[] = [];
+            let next = 0;
+            const source: Iterable<number> = {
+                [Symbol.iterator]: () => ({
+                    next: () => {
+                        frames.push((new Error().stack ?? '').split('\n').filter((line) => line.includes('.next (<anonymous>)')).length);
+                        return next < 4 ? { done: false, value: next++ } : { done: true, value: undefined };
+                    },
+                }),
+            };
+            const limit = Error.stackTraceLimit;
+            Error.stackTraceLimit = Infinity;
+            try {
+                [...chain(LazyIterable.from(source))];
+            } finally {
+                Error.stackTraceLimit = limit;
+            }
+            return Math.max(...frames);
+        };
+
+        const single = generatorFrames((source) => source.map((x) => x));
+
+        expect(
+            generatorFrames((source) =>
+                source
+                    .map((x) => x * 3)
+                    .filter((x) => x % 2 === 0)
+                    .map((x) => x + 1)
+                    .filter((x) => x % 5 !== 0),
+            ),
+        ).toBe(single);
+        expect(
+            generatorFrames((source) =>
+                source
+                    .map((x) => x)
+                    .skip(1)
+                    .map((x) => x),
+            ),
+        ).toBe(single + 2);
+    });
+
+    test.each(sources)('fused chains over a %s source should call each callback as often as nested generators', (_, source) => {
+        const counted = () => {
+            const calls = [0, 0, 0, 0];
+            const callbacks = [
+                (x: number) => (calls[0]++, x * 3),
+                (x: number) => (calls[1]++, x % 2 === 0),
+                (x: number) => (calls[2]++, x + 1),
+                (x: number) => (calls[3]++, x % 5 !== 0),
+            ] as const;
+            return { calls, callbacks };
+        };
+        const consumers = [(chain: Iterable<number>) => [...chain], (chain: Iterable<number>) => [...take(chain, 2)]];
+
+        for (const consume of consumers) {
+            const fused = counted();
+            const [triple, isEven, increment, notFive] = fused.callbacks;
+            consume(LazyIterable.from(source()).map(triple).filter(isEven).map(increment).filter(notFive));
+
+            const nested = counted();
+            const [nestedTriple, nestedIsEven, nestedIncrement, nestedNotFive] = nested.callbacks;
+            consume(filter(map(filter(map(source(), nestedTriple), nestedIsEven), nestedIncrement), nestedNotFive));
+
+            expect(fused.calls).toEqual(nested.calls);
+            expect(fused.calls[0]).toBeGreaterThan(0);
+        }
+    });
+
+    test('repeat and infinite sources should be named by explain', () => {
+        expect(LazyIterable.repeat('x', 2).explain()).toBe('genRepeat("x", 2)');
+        expect(LazyIterable.infinite().take(1).explain()).toBe('genInfinite()\n  -> genTake(1)');
+    });
+
+    test('mappers should run when counting a fused chain', () => {
+        const mapper = jest.fn((x: number) => x + 1);
+        const throwing = () => {
+            throw new Error('mapper');
+        };
+
+        expect(LazyIterable.from([1, 2, 3]).map(mapper).count()).toBe(3);
+        expect(mapper).toHaveBeenCalledTimes(3);
+        expect(() => LazyIterable.from([1, 2, 3]).map(throwing).count()).toThrow('mapper');
+        expect(() => LazyIterable.fromLength(3).map(throwing).last()).toThrow('mapper');
+    });
+});
+
+function* generate<T>(items: Iterable<T>): IterableIterator<T> {
+    yield* items;
+}
+
+function* map<T, U>(source: Iterable<T>, mapper: (item: T, index: number) => U): IterableIterator<U> {
+    let index = 0;
+    for (const x of source) {
+        yield mapper(x, index++);
+    }
+}
+
+function* filter<T>(source: Iterable<T>, predicate: (item: T, index: number) => boolean): IterableIterator<T> {
+    let index = 0;
+    for (const x of source) {
+        if (predicate(x, index++)) {
+            yield x;
+        }
+    }
+}
+
+function* skip<T>(source: Iterable<T>, count: number): IterableIterator<T> {
+    let skipped = 0;
+    for (const x of source) {
+        if (skipped++ >= count) {
+            yield x;
+        }
+    }
+}
+
+function* take<T>(source: Iterable<T>, count: number): IterableIterator<T> {
+    let taken = 0;
+    for (const x of source) {
+        if (taken++ >= count) {
+            return;
+        }
+        yield x;
+    }
+}
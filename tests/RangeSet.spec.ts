@@ -0,0 +1,101 @@
+import { Interval, RangeSet } from '../src/index';
+
+describe('RangeSet', () => {
+    test('should merge overlapping and touching intervals', () => {
+        const subject = new RangeSet()
+            .add(10, 20)
+            .add(1, 5)
+            .add(4, 8)
+            .add(20, 25, { inclusive: [false, true] })
+            .add(30, 40, { inclusive: false });
+
+        expect(format(subject)).toEqual(['[1, 8]', '[10, 25]', '(30, 40)']);
+        expect(subject.intervalCount).toBe(3);
+
+        subject.add(8, 10, { inclusive: false });
+        expect(format(subject)).toEqual(['[1, 25]', '(30, 40)']);
+    });
+
+    test('should keep intervals apart when neither includes the shared bound', () => {
+        const subject = new RangeSet().add(1, 2, { inclusive: [true, false] }).add(2, 3, { inclusive: [false, true] });
+
+        expect(format(subject)).toEqual(['[1, 2)', '(2, 3]']);
+        expect(subject.contains(2)).toBe(false);
+
+        subject.add(2, 2);
+        expect(format(subject)).toEqual(['[1, 3]']);
+    });
+
+    test('contains should respect open and closed bounds', () => {
+        const subject = new RangeSet().add(0, 10, { inclusive: [true, false] }).add(20, Infinity, { inclusive: false });
+
+        expect(subject.contains(0)).toBe(true);
+        expect(subject.contains(9.99)).toBe(true);
+        expect(subject.contains(10)).toBe(false);
+        expect(subject.contains(-1)).toBe(false);
+        expect(subject.contains(20)).toBe(false);
+        expect(subject.contains(1e300)).toBe(true);
+        expect(subject.contains(NaN)).toBe(false);
+        expect(new RangeSet().contains(0)).toBe(false);
+    });
+
+    test('remove should split intervals and flip the removed bounds', () => {
+        const subject = new RangeSet().add(0, 100);
+
+        subject.remove(10, 20);
+        expect(format(subject)).toEqual(['[0, 10)', '(20, 100]']);
+
+        subject.remove(50, 60, { inclusive: false }).remove(0, 0).remove(95, 200);
+        expect(format(subject)).toEqual(['(0, 10)', '(20, 50]', '[60, 95)']);
+
+        subject.remove(-Infinity, Infinity);
+        expect(format(subject)).toEqual([]);
+    });
+
+    test('union, intersect and complement should leave the operands unchanged', () => {
+        const left = new RangeSet().add(0, 10).add(20, 30);
+        const right = new RangeSet().add(5, 25, { inclusive: false });
+
+        expect(format(left.union(right))).toEqual(['[0, 30]']);
+        expect(format(left.intersect(right))).toEqual(['(5, 10]', '[20, 25)']);
+        expect(format(left.complement())).toEqual(['(-Infinity, 0)', '(10, 20)', '(30, Infinity)']);
+        expect(format(left.complement(-5, 25, { inclusive: [true, false] }))).toEqual(['[-5, 0)', '(10, 20)']);
+        expect(format(left)).toEqual(['[0, 10]', '[20, 30]']);
+        expect(format(right)).toEqual(['(5, 25)']);
+    });
+
+    test('span should cover every interval', () => {
+        expect(format([new RangeSet().add(3, 4, { inclusive: false }).add(7, 9).span()!])).toEqual(['(3, 9]']);
+        expect(new RangeSet().span()).toBeUndefined();
+    });
+
+    test('toLazyIterable should expand intervals lazily in steps', () => {
+        const subject = new RangeSet().add(1, 3).add(5, 8, { inclusive: false }).add(10, 10);
+
+        expect(subject.toLazyIterable().toArray()).toEqual([1, 2, 3, 6, 7, 10]);
+        expect(subject.toLazyIterable(2).toArray()).toEqual([1, 3, 7, 10]);
+        expect(new RangeSet().add(0, 1, { inclusive: false }).toLazyIterable().toArray()).toEqual([]);
+        expect(
+            new RangeSet()
+                .add(1e15, 1e15 + 2)
+                .add(2e15, Infinity, { inclusive: false })
+                .toLazyIterable()
+                .take(5)
+                .toArray(),
+        ).toEqual([1e15, 1e15 + 1, 1e15 + 2, 2e15 + 1, 2e15 + 2]);
+        expect(() => new RangeSet().add(-Infinity, 0).toLazyIterable()).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+        expect(() => subject.toLazyIterable(0)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+    });
+
+    test('should reject intervals whose bounds are reversed or NaN', () => {
+        expect(() => new RangeSet().add(2, 1)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+        expect(() => new RangeSet().add(NaN, 1)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+        expect(() => new RangeSet([{ lower: 1, upper: 0, lowerInclusive: true, upperInclusive: true }])).toThrow(
+            expect.objectContaining({ name: 'RefinedSetsError' }),
+        );
+    });
+});
+
+function format(intervals: Iterable<Interval>): string[] {
+    return Array.from(intervals, (x) => `${x.lowerInclusive ? '[' : '('}${x.lower}, ${x.upper}${x.upperInclusive ? ']' : ')'}`);
+}
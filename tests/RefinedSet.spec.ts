@@ -0,0 +1,110 @@
+import { LazyIterable, RefinedSet } from '../src/index';
+
+describe('RefinedSet', () => {
+    test('should behave like a native set for primitives', () => {
+        const subject = new RefinedSet([3, 1, 3, 2, NaN, NaN, 0, -0]);
+
+        expect(subject.size).toBe(5);
+        expect([...subject]).toEqual([3, 1, 2, NaN, 0]);
+        expect(subject.has(2)).toBe(true);
+        expect(subject.has(4)).toBe(false);
+    });
+
+    test('should compare elements by a key selector', () => {
+        const subject = new RefinedSet<{ id: number; name: string }>(null, (x) => x.id);
+        subject.add({ id: 1, name: 'first' }).add({ id: 2, name: 'second' }).add({ id: 1, name: 'duplicate' });
+
+        expect(subject.size).toBe(2);
+        expect(subject.get({ id: 1, name: '' })?.name).toBe('first');
+        expect(subject.has({ id: 2, name: '' })).toBe(true);
+    });
+
+    test('should compare composite keys element-wise', () => {
+        const users = [
+            { tenantId: 'a', userId: 1 },
+            { tenantId: 'a', userId: 2 },
+            { tenantId: 'a', userId: 1 },
+            { tenantId: 'b', userId: 1 },
+        ];
+        const subject = new RefinedSet(users, (x) => [x.tenantId, x.userId]);
+
+        expect(subject.size).toBe(3);
+        expect(subject.has({ tenantId: 'b', userId: 1 })).toBe(true);
+        expect(subject.has({ tenantId: 'b', userId: 2 })).toBe(false);
+    });
+
+    test('should not confuse composite keys with differently typed elements', () => {
+        const subject = new RefinedSet<unknown[]>([
+            [1, '1'],
+            ['1', 1],
+            [1, '1'],
+            [[1], 2],
+            [1, [2]],
+            [null, undefined],
+            [undefined, null],
+        ]);
+
+        expect(subject.size).toBe(6);
+    });
+
+    test('should not confuse composite keys with string keys', () => {
+        const subject = new RefinedSet<unknown>([[1], '[n1]', '\\[n1]', ['[n1]']], (x) => x);
+
+        expect(subject.size).toBe(4);
+        expect(subject.has('[n1]')).toBe(true);
+        expect(subject.has([1])).toBe(true);
+    });
+
+    test('should compare symbols inside composite keys by identity', () => {
+        const local = Symbol('tenant');
+        const subject = new RefinedSet([local, Symbol('tenant'), Symbol.for('tenant'), local, Symbol.for('tenant')], (s) => [s, 1]);
+
+        expect(subject.size).toBe(3);
+    });
+
+    test('should compare elements with a hash/equals pair', () => {
+        const subject = new RefinedSet<string>(['Apple', 'apple', 'APPLE', 'pear', 'bear'], {
+            hash: (s) => s.length,
+            equals: (a, b) => a.toLowerCase() === b.toLowerCase(),
+        });
+
+        expect([...subject]).toEqual(['Apple', 'pear', 'bear']);
+        expect(subject.has('PEAR')).toBe(true);
+        expect(subject.delete('pEaR')).toBe(true);
+        expect(subject.delete('pear')).toBe(false);
+        expect([...subject]).toEqual(['Apple', 'bear']);
+    });
+
+    test('should iterate in insertion order after deletions', () => {
+        const subject = new RefinedSet([1, 2, 3, 4]);
+        subject.delete(2);
+        subject.add(2);
+        subject.delete(1);
+
+        expect([...subject]).toEqual([3, 4, 2]);
+        expect(subject.size).toBe(3);
+
+        subject.clear();
+        expect(subject.size).toBe(0);
+        expect([...subject]).toEqual([]);
+    });
+
+    test('should expose a live LazyIterable', () => {
+        const subject = new RefinedSet([1, 2, 3]);
+        const doubled = subject.lazy().map((x) => x * 2);
+
+        expect(doubled.toArray()).toEqual([2, 4, 6]);
+        subject.add(4);
+        expect(doubled.toArray()).toEqual([2, 4, 6, 8]);
+    });
+
+    test('should be able to materialize a LazyIterable into a RefinedSet', () => {
+        const subject = LazyIterable.fromRange(1, 10).toRefinedSet((x) => x % 3);
+
+        expect([...subject]).toEqual([1, 2, 3]);
+    });
+
+    test('should reject an invalid equality argument', () => {
+        expect(() => new RefinedSet([1], { hash: (x: number) => x } as never)).toThrow();
+    });
+});
@@ -0,0 +1,66 @@
+import { SortedMap } from '../src/index';
+
+describe('SortedMap', () => {
+    test('should iterate entries in key order', () => {
+        const subject = new SortedMap([
+            [3, 'c'],
+            [1, 'a'],
+            [2, 'b'],
+        ]);
+
+        expect([...subject]).toEqual([
+            [1, 'a'],
+            [2, 'b'],
+            [3, 'c'],
+        ]);
+        expect(subject.keys().toArray()).toEqual([1, 2, 3]);
+        expect(subject.values().toArray()).toEqual(['a', 'b', 'c']);
+        expect(
+            subject
+                .reversed()
+                .map(([key]) => key)
+                .toArray(),
+        ).toEqual([3, 2, 1]);
+    });
+
+    test('should get, set, replace and delete entries', () => {
+        const subject = new SortedMap<string, number>();
+        subject.set('b', 1).set('a', 2).set('b', 3);
+
+        expect(subject.size).toBe(2);
+        expect(subject.get('b')).toBe(3);
+        expect(subject.has('a')).toBe(true);
+        expect(subject.delete('a')).toBe(true);
+        expect(subject.get('a')).toBeUndefined();
+        expect(subject.first()).toEqual(['b', 3]);
+        expect(subject.last()).toEqual(['b', 3]);
+
+        subject.clear();
+        expect(subject.size).toBe(0);
+    });
+
+    test('should answer nearest-key queries', () => {
+        const subject = new SortedMap([
+            [10, 'ten'],
+            [20, 'twenty'],
+        ]);
+
+        expect(subject.floor(15)).toEqual([10, 'ten']);
+        expect(subject.ceiling(15)).toEqual([20, 'twenty']);
+        expect(subject.lower(10)).toBeUndefined();
+        expect(subject.higher(10)).toEqual([20, 'twenty']);
+    });
+
+    test('should return key ranges as LazyIterables', () => {
+        const subject = new SortedMap(
+            ['2024-01-01', '2024-02-01', '2024-03-01', '2024-04-01'].map((d, i) => [new Date(d), i] as const),
+            (a, b) => a.getTime() - b.getTime(),
+        );
+        const result = subject
+            .rangeBetween(new Date('2024-01-15'), new Date('2024-03-01'))
+            .map(([, value]) => value)
+            .toArray();
+
+        expect(result).toEqual([1, 2]);
+    });
+});
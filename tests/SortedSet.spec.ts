@@ -0,0 +1,98 @@
+import { SortedSet } from '../src/index';
+
+describe('SortedSet', () => {
+    test('should iterate in comparator order', () => {
+        const subject = new SortedSet([5, 1, 4, 2, 3, 2]);
+
+        expect([...subject]).toEqual([1, 2, 3, 4, 5]);
+        expect(subject.size).toBe(5);
+        expect(subject.reversed().toArray()).toEqual([5, 4, 3, 2, 1]);
+    });
+
+    test('should support a custom comparator', () => {
+        const subject = new SortedSet(['pear', 'Apple', 'fig'], (a, b) => a.length - b.length || a.localeCompare(b));
+
+        expect([...subject]).toEqual(['fig', 'pear', 'Apple']);
+        expect(subject.first()).toBe('fig');
+        expect(subject.last()).toBe('Apple');
+    });
+
+    test('should add, find and delete elements', () => {
+        const subject = new SortedSet<number>();
+        subject.add(10).add(20).add(10);
+
+        expect(subject.size).toBe(2);
+        expect(subject.has(10)).toBe(true);
+        expect(subject.delete(10)).toBe(true);
+        expect(subject.delete(10)).toBe(false);
+        expect(subject.has(10)).toBe(false);
+        expect([...subject]).toEqual([20]);
+
+        subject.clear();
+        expect(subject.size).toBe(0);
+        expect(subject.first()).toBeUndefined();
+    });
+
+    test('should answer floor, ceiling, lower and higher queries', () => {
+        const subject = new SortedSet([10, 20, 30]);
+
+        expect(subject.floor(20)).toBe(20);
+        expect(subject.floor(25)).toBe(20);
+        expect(subject.floor(5)).toBeUndefined();
+        expect(subject.ceiling(20)).toBe(20);
+        expect(subject.ceiling(25)).toBe(30);
+        expect(subject.ceiling(35)).toBeUndefined();
+        expect(subject.lower(20)).toBe(10);
+        expect(subject.higher(20)).toBe(30);
+    });
+
+    test('should return ranges as LazyIterables', () => {
+        const subject = new SortedSet([1, 3, 5, 7, 9, 11]);
+
+        expect(subject.rangeBetween(3, 9).toArray()).toEqual([3, 5, 7, 9]);
+        expect(subject.rangeBetween(3, 9, { inclusive: false }).toArray()).toEqual([5, 7]);
+        expect(subject.rangeBetween(3, 9, { inclusive: [true, false] }).toArray()).toEqual([3, 5, 7]);
+        expect(subject.rangeBetween(2, 10, { reverse: true }).toArray()).toEqual([9, 7, 5, 3]);
+        expect(
+            subject
+                .rangeBetween(0, 100)
+                .map((x) => x * 10)
+                .take(2)
+                .toArray(),
+        ).toEqual([10, 30]);
+        expect(() => subject.rangeBetween(9, 3)).toThrow();
+    });
+
+    test('should stay consistent with a sorted array under random operations', () => {
+        const subject = new SortedSet<number>();
+        const expected = new Set<number>();
+        let seed = 42;
+        const random = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) % 500;
+
+        for (let i = 0; i < 5000; i++) {
+            const value = random();
+            if (i % 3 === 0) {
+                expect(subject.delete(value)).toBe(expected.delete(value));
+            } else {
+                subject.add(value);
+                expected.add(value);
+            }
+        }
+
+        expect([...subject]).toEqual([...expected].sort((a, b) => a - b));
+        expect(subject.size).toBe(expected.size);
+    });
+
+    test('should surface inconsistent comparators as RefinedSetsError', () => {
+        const subject = new SortedSet<number>(null, () => NaN);
+        expect(() => subject.add(1)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+
+        const irreflexive = new SortedSet<number>(null, () => 1);
+        expect(() => irreflexive.add(1)).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+    });
+
+    test('should throw if modified during iteration', () => {
+        const subject = new SortedSet([1, 2, 3]);
+        expect(() => subject.lazy().forEach((x) => subject.add(x + 10))).toThrow(expect.objectContaining({ name: 'RefinedSetsError' }));
+    });
+});
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Writable } from 'stream';
+import { AsyncLazyIterable, LazyIterable } from '../src/index';
+import { toNodeReadable } from '../src/node';
+
+describe('Streams', () => {
+    let directory: string;
+
+    beforeAll(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'refined-sets-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('should round-trip a large sequence through a temp file', async () => {
+        const file = path.join(directory, 'numbers.txt');
+        await LazyIterable.fromLength(20000)
+            .toAsync()
+            .map((x) => `${x}\n`)
+            .writeTo(fs.createWriteStream(file));
+
+        const lines = () => AsyncLazyIterable.fromLines(fs.createReadStream(file, { highWaterMark: 1000 })).map(Number);
+        expect(await lines().count()).toBe(20000);
+        expect(await lines().skip(19998).toArray()).toEqual([19998, 19999]);
+    });
+
+    test('toNodeReadable should only pull as the consumer reads', async () => {
+        let pulled = 0;
+        const readable = toNodeReadable(
+            AsyncLazyIterable.from(generate(LazyIterable.fromLength(100))).map((x) => (pulled++, x)),
+            { highWaterMark: 2 },
+        );
+
+        await tick();
+        expect(pulled).toBeLessThanOrEqual(3);
+
+        const result: number[] = [];
+        for await (const x of readable) {
+            result.push(x);
+        }
+        expect(result).toEqual(LazyIterable.fromLength(100).toArray());
+    });
+
+    test('writeTo should wait for a slow Writable to drain', async () => {
+        let pulled = 0;
+        let written = 0;
+        let maxPending = 0;
+        const destination = new Writable({
+            objectMode: true,
+            highWaterMark: 2,
+            write(_chunk, _encoding, callback) {
+                written++;
+                setImmediate(callback);
+            },
+        });
+
+        await LazyIterable.fromLength(50)
+            .toAsync()
+            .map((x) => {
+                pulled++;
+                maxPending = Math.max(maxPending, pulled - written);
+                return x;
+            })
+            .writeTo(destination);
+
+        expect(written).toBe(50);
+        expect(maxPending).toBeLessThanOrEqual(20);
+    });
+
+    test('writeTo should reject and destroy the destination when the sequence fails', async () => {
+        const destination = fs.createWriteStream(path.join(directory, 'failed.txt'));
+        const failing = AsyncLazyIterable.from(['a\n', 'b\n']).map((x, i) => {
+            if (i === 1) {
+                throw new Error('boom');
+            }
+            return x;
+        });
+
+        await expect(failing.writeTo(destination)).rejects.toThrow('boom');
+        expect(destination.destroyed).toBe(true);
+    });
+
+    test('toReadableStream should pull lazily and close the sequence on cancel', async () => {
+        let pulled = 0;
+        let closed = false;
+        const stream = AsyncLazyIterable.from(
+            (async function* () {
+                try {
+                    for (let i = 0; ; i++) {
+                        pulled++;
+                        yield i;
+                    }
+                } finally {
+                    closed = true;
+                }
+            })(),
+        ).toReadableStream({ highWaterMark: 3 });
+
+        const reader = stream.getReader();
+        expect((await reader.read()).value).toBe(0);
+        expect((await reader.read()).value).toBe(1);
+        await tick();
+        expect(pulled).toBeLessThanOrEqual(5);
+
+        await reader.cancel();
+        expect(closed).toBe(true);
+    });
+
+    test('fromReadableStream should read a stream and cancel it when iteration stops early', async () => {
+        let cancelled = false;
+        const create = () =>
+            new ReadableStream<number>({
+                start(controller) {
+                    [1, 2, 3].forEach((x) => controller.enqueue(x));
+                    controller.close();
+                },
+            });
+        const infinite = new ReadableStream<number>({
+            pull(controller) {
+                controller.enqueue(1);
+            },
+            cancel() {
+                cancelled = true;
+            },
+        });
+
+        expect(await AsyncLazyIterable.fromReadableStream(create()).toArray()).toEqual([1, 2, 3]);
+        expect(await AsyncLazyIterable.fromReadableStream(infinite).take(2).toArray()).toEqual([1, 1]);
+        expect(cancelled).toBe(true);
+        expect(infinite.locked).toBe(false);
+    });
+
+    test('writeTo should write to a WHATWG WritableStream', async () => {
+        const chunks: string[] = [];
+        const destination = new WritableStream<string>({
+            write(chunk) {
+                chunks.push(chunk);
+            },
+        });
+
+        await AsyncLazyIterable.from(['a', 'b', 'c']).writeTo(destination);
+        expect(chunks).toEqual(['a', 'b', 'c']);
+    });
+});
+
+async function* generate<T>(items: Iterable<T>): AsyncIterableIterator<T> {
+    yield* items;
+}
+
+function tick(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 10));
+}
@@ -0,0 +1,123 @@
+import { LazyIterable } from '../src/index';
+
+describe('TypedArray', () => {
+    test('fromTypedArray should read elements by index', () => {
+        const view = new Float64Array([1.5, 2.5, 3.5, 4.5]);
+        const sequence = LazyIterable.fromTypedArray(view);
+
+        expect(sequence.toArray()).toEqual([1.5, 2.5, 3.5, 4.5]);
+        expect(sequence.count()).toBe(4);
+        expect(sequence.at(2)).toBe(3.5);
+        expect(sequence.at(-1)).toBe(4.5);
+        expect(sequence.skip(3).toArray()).toEqual([4.5]);
+        expect(sequence.sum()).toBe(12);
+
+        view[0] = 10;
+        expect(sequence.first()).toBe(10);
+    });
+
+    test('from should recognise typed arrays', () => {
+        const sequence = LazyIterable.from(new Int16Array([3, -1, 4]));
+
+        expect(sequence.toArray()).toEqual([3, -1, 4]);
+        expect(sequence.explain()).toBe('genTypedArray(Int16Array(3))');
+        expect(sequence.map((x) => x * 2).explain()).toBe(['genTypedArray(Int16Array(3))', '  -> genMap((x) => x * 2)'].join('\n'));
+    });
+
+    test('fromTypedArray should support bigint arrays', () => {
+        const sequence = LazyIterable.fromTypedArray(new BigInt64Array([BigInt(1), BigInt(-2), BigInt(3)]));
+
+        expect(sequence.sum()).toBe(BigInt(2));
+        expect(sequence.map((x) => x * BigInt(2)).toTypedArray(BigUint64Array)).toEqual(
+            new BigUint64Array([BigInt(2), BigInt(2) ** BigInt(64) - BigInt(4), BigInt(6)]),
+        );
+    });
+
+    test('fromTypedArray should reject other views', () => {
+        expect(() => LazyIterable.fromTypedArray(new DataView(new ArrayBuffer(4)) as unknown as Uint8Array)).toThrow('Expected a typed array.');
+    });
+
+    test('toTypedArray should preallocate from sources with a known length', () => {
+        const fromLength = LazyIterable.fromLength(5).map((x) => x * x);
+        const fromRange = LazyIterable.fromRange(0, 1, 0.25);
+        const fromView = LazyIterable.fromTypedArray(new Uint8Array([1, 2, 3])).map((x, i) => x + i);
+
+        expect(fromLength.toTypedArray(Float64Array)).toEqual(new Float64Array([0, 1, 4, 9, 16]));
+        expect(fromRange.toTypedArray(Float32Array)).toEqual(new Float32Array([0, 0.25, 0.5, 0.75, 1]));
+        expect(fromView.toTypedArray(Int32Array)).toEqual(new Int32Array([1, 3, 5]));
+        expect(LazyIterable.empty<number>().toTypedArray(Float64Array)).toEqual(new Float64Array(0));
+    });
+
+    test('toTypedArray should grow its buffer when the length is unknown', () => {
+        const filtered = LazyIterable.fromLength(100).filter((x) => x % 3 === 0);
+        const generated = LazyIterable.from(
+            (function* () {
+                for (let i = 0; i < 40; i++) {
+                    yield i / 2;
+                }
+            })(),
+        );
+
+        expect(filtered.toTypedArray(Uint16Array)).toEqual(new Uint16Array(filtered.toArray()));
+        expect(generated.toTypedArray(Float64Array)).toEqual(new Float64Array(LazyIterable.fromLength(40).map((x) => x / 2)));
+    });
+
+    test('toTypedArray should convert values as the typed array does', () => {
+        expect(LazyIterable.from([256, -1, 1.9]).toTypedArray(Uint8Array)).toEqual(new Uint8Array([0, 255, 1]));
+        expect(LazyIterable.from([300, -5]).toTypedArray(Uint8ClampedArray)).toEqual(new Uint8ClampedArray([255, 0]));
+    });
+
+    test('typed array pipelines should read by index and allocate their result once', () => {
+        const data = new Float64Array(1000).map((_, i) => Math.sin(i));
+        const iterate = jest.spyOn(data, Symbol.iterator);
+        const lengths: number[] = [];
+        class TrackedArray extends Float64Array {
+            public constructor(length: number) {
+                super(length);
+                lengths.push(length);
+            }
+        }
+        let mapped = 0;
+
+        const doubled = LazyIterable.fromTypedArray(data)
+            .map((x) => (mapped++, x * 2))
+            .toTypedArray(TrackedArray);
+        const positive = LazyIterable.fromTypedArray(data)
+            .map((x) => x * 2)
+            .filter((x) => x > 0)
+            .toTypedArray(Float64Array);
+
+        expect(lengths).toEqual([1000]);
+        expect(mapped).toBe(1000);
+        expect(doubled).toBeInstanceOf(TrackedArray);
+        expect(Float64Array.from(doubled)).toEqual(Float64Array.from(map(data, (x) => x * 2)));
+        expect(positive).toEqual(
+            Float64Array.from(
+                filter(
+                    map(data, (x) => x * 2),
+                    (x) => x > 0,
+                ),
+            ),
+        );
+        iterate.mockClear();
+        LazyIterable.fromTypedArray(data)
+            .map((x) => x * 2)
+            .filter((x) => x > 0)
+            .toTypedArray(Float64Array);
+        expect(iterate).not.toHaveBeenCalled();
+    });
+});
+
+function* map<T, U>(source: Iterable<T>, mapper: (item: T) => U): IterableIterator<U> {
+    for (const x of source) {
+        yield mapper(x);
+    }
+}
+
+function* filter<T>(source: Iterable<T>, predicate: (item: T) => boolean): IterableIterator<T> {
+    for (const x of source) {
+        if (predicate(x)) {
+            yield x;
+        }
+    }
+}
@@ -0,0 +1,101 @@
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { LazyIterable, RefinedSetsError, RefinedSetsErrorCode } from '../src/index';
+
+describe('WorkerPool', () => {
+    const hashWorker = join(__dirname, 'fixtures', 'hashWorker.js');
+
+    interface TestRecord {
+        id: number;
+        body: string;
+        fail?: boolean;
+        crash?: boolean;
+    }
+
+    const records = (count: number) => LazyIterable.fromLength(count).map((id): TestRecord => ({ id, body: `record-${id}`.repeat(id % 7) }));
+    const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+    const failure = (promise: Promise<unknown>) =>
+        promise.then(
+            () => undefined,
+            (error: unknown) => error as RefinedSetsError,
+        );
+
+    test('parallelMap should run a worker module and keep source order', async () => {
+        const result = await records(50).parallelMap(hashWorker, { workers: 3, batchSize: 4 }).toArray();
+
+        expect(result).toEqual(
+            records(50)
+                .map((r, index) => ({ id: r.id, index, hash: sha256(r.body) }))
+                .toArray(),
+        );
+    });
+
+    test('parallelMap should accept a self-contained function and yield batches as they complete when unordered', async () => {
+        const result = await LazyIterable.fromLength(40)
+            .parallelMap((x: number, index: number) => ({ square: x * x, index }), { workers: 2, batchSize: 3, ordered: false })
+            .toArray();
+
+        expect(result.map((r) => r.index).sort((a, b) => a - b)).toEqual(LazyIterable.fromLength(40).toArray());
+        expect(result.every((r) => r.square === r.index * r.index)).toBe(true);
+    });
+
+    test('parallelMap should pull the source only as the workers keep up', async () => {
+        let pulled = 0;
+        const source = LazyIterable.fromLength(10000).map((x) => (pulled++, x));
+
+        const head = await source
+            .parallelMap((x: number) => x + 1, { workers: 2, batchSize: 4 })
+            .take(3)
+            .toArray();
+
+        expect(head).toEqual([1, 2, 3]);
+        expect(pulled).toBeLessThanOrEqual(12);
+    });
+
+    test('parallelMap should report a throwing callback with the index of the element', async () => {
+        const source = records(20).map((r) => (r.id === 13 ? { ...r, fail: true } : r));
+        const error = await failure(source.parallelMap(hashWorker, { workers: 2, batchSize: 5 }).toArray());
+
+        expect(error).toBeInstanceOf(RefinedSetsError);
+        expect(error).toMatchObject({ type: RefinedSetsErrorCode.CallbackError, operator: 'parallelMap', index: 13 });
+        expect(error?.message).toBe('The parallelMap callback threw at index 13: Cannot hash record 13');
+    });
+
+    test('parallelMap should report a worker which exits as a worker error', async () => {
+        const source = records(10).map((r) => (r.id === 7 ? { ...r, crash: true } : r));
+        const error = await failure(source.parallelMap(hashWorker, { workers: 2, batchSize: 2 }).toArray());
+
+        expect(error).toMatchObject({ type: RefinedSetsErrorCode.WorkerError, operator: 'parallelMap' });
+        expect(error?.index).toBeUndefined();
+        expect(error?.message).toBe('The parallelMap worker exited unexpectedly with code 3.');
+    });
+
+    test('parallelMap should report a module which cannot be loaded as a worker error', async () => {
+        const error = await failure(
+            LazyIterable.from([1])
+                .parallelMap(join(__dirname, 'fixtures', 'missing.js'), { workers: 1 })
+                .toArray(),
+        );
+
+        expect(error).toMatchObject({ type: RefinedSetsErrorCode.WorkerError, operator: 'parallelMap' });
+        expect(error?.message).toMatch(/^The parallelMap worker could not load its target: Cannot find module/);
+    });
+
+    test('parallelFilter should keep the elements whose predicate passes', async () => {
+        const result = await LazyIterable.fromLength(30)
+            .toAsync()
+            .parallelFilter((x: number) => x % 3 === 0, { workers: 2, batchSize: 4 })
+            .toArray();
+
+        expect(result).toEqual([0, 3, 6, 9, 12, 15, 18, 21, 24, 27]);
+    });
+
+    test('parallel operators should validate their options', () => {
+        expect(() => LazyIterable.from([1]).parallelMap(hashWorker, { workers: 0 })).toThrow(
+            expect.objectContaining({ type: RefinedSetsErrorCode.InvalidArgument }),
+        );
+        expect(() => LazyIterable.from([1]).parallelFilter(hashWorker, { batchSize: 1.5 })).toThrow(
+            "Expected 'batchSize' to be a positive integer. Received: 1.5.",
+        );
+    });
+});
@@ -0,0 +1,14 @@
+const { createHash } = require('crypto');
+
+/**
+ * Worker target for the parallelMap tests: hashes a record, throws for records marked `fail` and exits for records marked `crash`.
+ */
+module.exports = function hashRecord(record, index) {
+    if (record.fail) {
+        throw new Error(`Cannot hash record ${record.id}`);
+    }
+    if (record.crash) {
+        process.exit(3);
+    }
+    return { id: record.id, index, hash: createHash('sha256').update(record.body).digest('hex') };
+};